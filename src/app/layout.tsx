@@ -3,6 +3,8 @@ import { Inter } from "next/font/google";
 import "./globals.css";
 import { AuthProvider } from "@/context/AuthContext";
 import { ThemeProvider } from "@/context/ThemeContext";
+import { UndoProvider } from "@/context/UndoContext";
+import { SyncProvider } from "@/context/SyncContext";
 
 const inter = Inter({
   subsets: ["latin"],
@@ -27,7 +29,11 @@ export default function RootLayout({
       <body className={`${inter.variable} antialiased`}>
         <ThemeProvider>
           <AuthProvider>
-            {children}
+            <SyncProvider>
+              <UndoProvider>
+                {children}
+              </UndoProvider>
+            </SyncProvider>
           </AuthProvider>
         </ThemeProvider>
       </body>
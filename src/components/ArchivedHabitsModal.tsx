@@ -0,0 +1,100 @@
+'use client'
+
+import { X, Archive, RotateCcw, Trash2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+
+interface ArchivedHabitsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  habits: HabitWithEntries[]
+  onRestore: (habitId: string) => void
+  onDelete: (habitId: string) => void
+}
+
+export default function ArchivedHabitsModal({
+  isOpen,
+  onClose,
+  habits,
+  onRestore,
+  onDelete,
+}: ArchivedHabitsModalProps) {
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={onClose}
+      />
+      <div className="relative glass-card p-6 w-full max-w-sm max-h-[70vh] flex flex-col animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <h2 className="text-lg font-bold text-[var(--foreground)] mb-1">
+          Archived Habits
+        </h2>
+        <p className="text-[var(--muted)] text-sm mb-5">
+          Archived habits keep their history in past comparisons
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {habits.length === 0 ? (
+            <div className="text-center py-8">
+              <Archive className="mx-auto text-[var(--muted-light)] mb-2" size={24} />
+              <p className="text-sm text-[var(--muted)]">No archived habits</p>
+            </div>
+          ) : (
+            habits.map((habit) => {
+              const doneCount = habit.entries.filter((e) => e.status === 'done').length
+              return (
+                <div
+                  key={habit.id}
+                  className="flex items-center justify-between gap-2 p-3 rounded-xl bg-[var(--card-bg)]"
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <div
+                      className="w-2 h-2 rounded-full flex-shrink-0"
+                      style={{ backgroundColor: habit.color }}
+                    />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-[var(--foreground)] truncate">
+                        {habit.name}
+                      </p>
+                      <p className="text-[10px] text-[var(--muted)]">
+                        {habit.archived_at
+                          ? `Archived ${format(parseISO(habit.archived_at), 'MMM d, yyyy')}`
+                          : 'Archived'}
+                        {` · ${doneCount} check-in${doneCount !== 1 ? 's' : ''}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => onRestore(habit.id)}
+                      className="pill-button p-1.5 text-[var(--muted-light)] hover:text-[var(--accent-text)] hover:bg-[var(--accent-bg)] transition-colors"
+                      title="Restore habit"
+                    >
+                      <RotateCcw size={14} />
+                    </button>
+                    <button
+                      onClick={() => onDelete(habit.id)}
+                      className="pill-button p-1.5 text-[var(--muted-light)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      title="Delete permanently"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { HabitStatus, HabitStatusData, StatusStreakBehavior, POINTS_PER_DONE } from '@/types/database'
+
+interface CustomStatusEditorProps {
+  statuses: HabitStatus[]
+  onAdd: (status: HabitStatusData) => Promise<void>
+  onDelete: (statusId: string) => void
+}
+
+const statusColors = ['#f59e0b', '#3b82f6', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280']
+
+const behaviorOptions: { value: StatusStreakBehavior; label: string; description: string }[] = [
+  { value: 'continue', label: 'Continues', description: 'Counts as a success for streaks' },
+  { value: 'neutral', label: 'Neutral', description: "Skipped over like a paused day - doesn't count toward the target" },
+  { value: 'break', label: 'Breaks', description: 'Counts as a miss for streaks' },
+]
+
+const pointOptions = Array.from({ length: POINTS_PER_DONE + 1 }, (_, i) => i)
+
+// Inline list and form for a habit's custom statuses, shown in the day popover
+export default function CustomStatusEditor({ statuses, onAdd, onDelete }: CustomStatusEditorProps) {
+  const [label, setLabel] = useState('')
+  const [icon, setIcon] = useState('')
+  const [color, setColor] = useState(statusColors[0])
+  const [points, setPoints] = useState(1)
+  const [behavior, setBehavior] = useState<StatusStreakBehavior>('continue')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  const handleAdd = async () => {
+    if (!label.trim()) {
+      setError('Give the status a name')
+      return
+    }
+    if (statuses.some((s) => s.label.toLowerCase() === label.trim().toLowerCase())) {
+      setError('This habit already has a status with that name')
+      return
+    }
+
+    setError('')
+    setLoading(true)
+    try {
+      await onAdd({
+        label: label.trim(),
+        icon: icon.trim() || label.trim().charAt(0).toUpperCase(),
+        color,
+        points,
+        streak_behavior: behavior,
+      })
+      setLabel('')
+      setIcon('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add status')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 p-3 rounded-xl bg-[var(--card-bg)]">
+      {statuses.length > 0 && (
+        <div className="space-y-1.5">
+          {statuses.map((status) => (
+            <div key={status.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className="flex items-center gap-1.5 min-w-0">
+                <span
+                  className="w-5 h-5 rounded-full flex items-center justify-center text-[10px] text-white flex-shrink-0"
+                  style={{ backgroundColor: status.color }}
+                >
+                  {status.icon}
+                </span>
+                <span className="text-[var(--foreground)] truncate">{status.label}</span>
+                <span className="text-[var(--muted-light)] flex-shrink-0">
+                  {status.points} pts · {behaviorOptions.find((b) => b.value === status.streak_behavior)?.label.toLowerCase()}
+                </span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onDelete(status.id)}
+                className="pill-button p-1 text-[var(--muted-light)] hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0"
+                title="Delete status - days using it keep their built-in status"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={icon}
+          onChange={(e) => setIcon(e.target.value)}
+          placeholder="🤒"
+          maxLength={2}
+          className="w-12 bg-[var(--glass-bg)] border border-[var(--card-border)] rounded-xl py-2 px-2 text-center text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+        />
+        <input
+          type="text"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          placeholder="e.g. Sick, Travel, Minimum"
+          maxLength={24}
+          className="flex-1 min-w-0 bg-[var(--glass-bg)] border border-[var(--card-border)] rounded-xl py-2 px-3 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+        />
+      </div>
+
+      <div className="flex gap-1.5">
+        {statusColors.map((c) => (
+          <button
+            key={c}
+            type="button"
+            onClick={() => setColor(c)}
+            className={`w-5 h-5 rounded-full transition-all ${color === c ? 'ring-2 ring-[var(--foreground)] ring-offset-1 ring-offset-[var(--glass-bg)]' : ''}`}
+            style={{ backgroundColor: c }}
+          />
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[10px] text-[var(--muted)] uppercase tracking-wide">Points</span>
+        <div className="flex bg-[var(--glass-bg)] rounded-lg p-0.5">
+          {pointOptions.map((value) => (
+            <button
+              key={value}
+              type="button"
+              onClick={() => setPoints(value)}
+              className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                points === value ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+              }`}
+            >
+              {value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] text-[var(--muted)] uppercase tracking-wide">Streak</span>
+          <div className="flex bg-[var(--glass-bg)] rounded-lg p-0.5">
+            {behaviorOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setBehavior(option.value)}
+                className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                  behavior === option.value ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <p className="text-[10px] text-[var(--muted-light)] mt-1">
+          {behaviorOptions.find((b) => b.value === behavior)?.description}
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleAdd}
+        disabled={loading}
+        className="pill-button w-full flex items-center justify-center gap-1.5 bg-[var(--card-border)] hover:bg-[var(--accent-500)] hover:text-white disabled:opacity-50 text-[var(--foreground)] font-medium py-2 transition-colors text-xs"
+      >
+        <Plus size={12} />
+        {loading ? 'Adding...' : 'Add status'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,294 @@
+'use client'
+
+import { useState } from 'react'
+import { X } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { HabitWithEntries, HabitEntry, HabitEntryData, HabitStatusData } from '@/types/database'
+import { canSkipOnDate, hasFlexibleFrequency } from '@/lib/weeklyCalculations'
+import { getCheckinsOn } from '@/lib/checkins'
+import { getBaseStatus, getHabitStatuses } from '@/lib/customStatuses'
+import CustomStatusEditor from './CustomStatusEditor'
+
+interface DayEntryModalProps {
+  isOpen: boolean
+  onClose: () => void
+  habit: HabitWithEntries | null
+  date: string | null
+  onSave: (habitId: string, date: string, entry: HabitEntryData | null) => void
+  onAddStatus: (habitId: string, status: HabitStatusData) => Promise<void>
+  onDeleteStatus: (habitId: string, statusId: string) => void
+}
+
+type StatusOption = { status: HabitEntry['status']; label: string; color: string }
+
+const buildOptions: StatusOption[] = [
+  { status: 'done', label: 'Done', color: 'var(--accent-500)' },
+  { status: 'skipped', label: 'Rest day', color: '#9ca3af' },
+  { status: 'missed', label: 'Missed', color: '#ef4444' },
+]
+
+// A clean day only needs an entry when it carries a note
+const breakOptions: StatusOption[] = [
+  { status: 'done', label: 'Clean', color: 'var(--accent-500)' },
+  { status: 'missed', label: 'Relapse', color: '#ef4444' },
+]
+
+export default function DayEntryModal({
+  isOpen,
+  onClose,
+  habit,
+  date,
+  onSave,
+  onAddStatus,
+  onDeleteStatus,
+}: DayEntryModalProps) {
+  // Keyed by habit and date in the parent, so state starts from the day's entry
+  const entry = habit?.entries.find((e) => e.date === date)
+  const [status, setStatus] = useState<HabitEntry['status'] | null>(entry?.status ?? null)
+  const [statusId, setStatusId] = useState<string | null>(entry?.status_id ?? null)
+  const [isEditingStatuses, setIsEditingStatuses] = useState(false)
+  const [valueText, setValueText] = useState(
+    entry?.value !== null && entry?.value !== undefined ? String(entry.value) : ''
+  )
+  const [note, setNote] = useState(entry?.note || '')
+
+  if (!isOpen || !habit || !date) return null
+
+  const isBreak = habit.kind === 'break'
+  const isCounter = !isBreak && habit.is_counter && !!habit.target_value
+  const isMeasured = !isBreak && !!habit.target_value && !isCounter
+  const checkins = isCounter ? getCheckinsOn(habit, date) : []
+  const customStatuses = getHabitStatuses(habit)
+  const options = isBreak ? breakOptions : buildOptions
+  const canSkip = canSkipOnDate(habit, date)
+
+  // Logging a value sets the status like the inline value editor does
+  const handleValueChange = (text: string) => {
+    setValueText(text)
+    const parsed = parseFloat(text)
+    if (!isNaN(parsed) && parsed >= 0) {
+      setStatus(parsed > 0 ? 'done' : 'missed')
+      setStatusId(null)
+    }
+  }
+
+  const handleSave = () => {
+    const trimmedNote = note.trim() || null
+    const parsed = parseFloat(valueText)
+    const value = isMeasured && status === 'done' && !isNaN(parsed) && parsed >= 0 ? parsed : null
+    // Break habits are clean without an entry
+    const nextStatus = status ?? (isBreak ? 'done' : null)
+
+    if (isCounter) {
+      // Counter days follow their check-ins like the database trigger does, so only the note changes here
+      onSave(habit.id, date, checkins.length > 0
+        ? { status: 'done', status_id: null, value: checkins.length, note: trimmedNote }
+        : trimmedNote ? { status: null, status_id: null, value: null, note: trimmedNote } : null)
+    } else if (!trimmedNote && (!nextStatus || (isBreak && nextStatus === 'done' && !statusId))) {
+      onSave(habit.id, date, null)
+    } else {
+      // A day without a status keeps just its note
+      onSave(habit.id, date, { status: nextStatus, status_id: statusId, value, note: trimmedNote })
+    }
+    onClose()
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={onClose}
+      />
+      <div className="relative glass-card p-6 w-full max-w-sm max-h-[90vh] overflow-y-auto animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="flex items-center gap-1.5 mb-1">
+          <div
+            className="w-2 h-2 rounded-full flex-shrink-0"
+            style={{ backgroundColor: habit.color }}
+          />
+          <h2 className="text-lg font-bold text-[var(--foreground)] truncate">
+            {habit.name}
+          </h2>
+        </div>
+        <p className="text-[var(--muted)] text-sm mb-5">
+          {format(parseISO(date), 'EEEE, MMM d, yyyy')}
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">
+              Status
+            </label>
+            <div className="flex gap-2">
+              {options.map((option) => {
+                const disabled = isCounter || (option.status === 'skipped' && !canSkip && status !== 'skipped')
+                const selected = !statusId && (status === option.status || (isBreak && option.status === 'done' && !status))
+                return (
+                  <button
+                    key={option.status}
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => {
+                      setStatus(option.status)
+                      setStatusId(null)
+                    }}
+                    className={`pill-button flex-1 py-2 text-xs font-medium transition-colors disabled:opacity-40 ${
+                      selected ? 'text-white' : 'bg-[var(--card-bg)] text-[var(--muted)] hover:bg-[var(--card-border)]'
+                    }`}
+                    style={{ backgroundColor: selected ? option.color : undefined }}
+                    title={isCounter ? 'Set by the check-ins' : disabled ? (hasFlexibleFrequency(habit) ? 'Monthly and interval habits have no rest days' : 'No rest days left this week') : undefined}
+                  >
+                    {option.label}
+                  </button>
+                )
+              })}
+            </div>
+            {customStatuses.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {customStatuses.map((custom) => {
+                  const selected = statusId === custom.id
+                  return (
+                    <button
+                      key={custom.id}
+                      type="button"
+                      disabled={isCounter}
+                      onClick={() => {
+                        setStatus(getBaseStatus(custom.streak_behavior))
+                        setStatusId(custom.id)
+                      }}
+                      className={`pill-button flex items-center gap-1 px-3 py-1.5 text-xs font-medium transition-colors disabled:opacity-40 ${
+                        selected ? 'text-white' : 'bg-[var(--card-bg)] text-[var(--muted)] hover:bg-[var(--card-border)]'
+                      }`}
+                      style={{ backgroundColor: selected ? custom.color : undefined }}
+                      title={`${custom.points} points`}
+                    >
+                      <span>{custom.icon}</span>
+                      {custom.label}
+                    </button>
+                  )
+                })}
+              </div>
+            )}
+            <div className="flex items-center gap-3 mt-1.5">
+              {!isBreak && !isCounter && status && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStatus(null)
+                    setStatusId(null)
+                  }}
+                  className="text-[10px] text-[var(--muted-light)] hover:text-[var(--muted)]"
+                >
+                  Clear day
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsEditingStatuses(!isEditingStatuses)}
+                className="text-[10px] text-[var(--muted-light)] hover:text-[var(--muted)]"
+              >
+                {isEditingStatuses ? 'Done editing statuses' : 'Custom statuses...'}
+              </button>
+            </div>
+            {isEditingStatuses && (
+              <div className="mt-2">
+                <CustomStatusEditor
+                  statuses={customStatuses}
+                  onAdd={(data) => onAddStatus(habit.id, data)}
+                  onDelete={(id) => {
+                    if (statusId === id) setStatusId(null)
+                    onDeleteStatus(habit.id, id)
+                  }}
+                />
+              </div>
+            )}
+          </div>
+
+          {isMeasured && (
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                Amount
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={valueText}
+                  onChange={(e) => handleValueChange(e.target.value)}
+                  placeholder="0"
+                  className="w-24 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+                />
+                <span className="text-sm text-[var(--muted)] truncate">
+                  / {habit.target_value} {habit.unit}
+                </span>
+              </div>
+            </div>
+          )}
+
+          {isCounter && (
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                Check-ins <span className="text-[var(--muted-light)] normal-case">{checkins.length} / {habit.target_value} {habit.unit || 'times'}</span>
+              </label>
+              {checkins.length === 0 ? (
+                <p className="text-sm text-[var(--muted-light)]">No check-ins yet - the day is done once there are</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5">
+                  {checkins.map((checkin) => (
+                    <span
+                      key={checkin.id}
+                      className="px-2 py-0.5 rounded-lg bg-[var(--card-bg)] text-xs text-[var(--foreground)]"
+                    >
+                      {format(parseISO(checkin.checked_at), 'HH:mm')}
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Note
+            </label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleSave()
+              }}
+              placeholder={status === 'missed' ? (isBreak ? 'What happened?' : 'Why missed?') : 'Add a note...'}
+              maxLength={100}
+              className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+            />
+          </div>
+
+          <div className="flex gap-2 pt-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="pill-button flex-1 bg-[var(--card-bg)] hover:bg-[var(--card-border)] text-[var(--foreground)] font-medium py-2.5 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              className="pill-button flex-1 bg-[var(--accent-500)] hover:bg-[var(--accent-400)] text-white font-medium py-2.5 transition-colors text-sm"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
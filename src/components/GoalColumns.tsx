@@ -0,0 +1,530 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X, Check, Circle, CheckCircle2, ChevronLeft, ChevronRight, CloudOff, Link2, Repeat, CornerDownRight } from 'lucide-react'
+import { formatGoalPeriod, getNewGoalPeriod, GoalPeriodFields, GoalProgress } from '@/lib/goalProgress'
+import { Goal, GoalMetric, GoalType, HabitWithEntries, KeyResult, KeyResultData, KeyResultUpdate, Quarter } from '@/types/database'
+import KeyResultList from './KeyResultList'
+
+export interface GoalColumn {
+  type: GoalType
+  title: string
+  subtitle: string
+  periodStart?: string // Day, week start or month start for daily, weekly and monthly goals
+  onNavigate?: (delta: number) => void
+}
+
+// Linked habits and the threshold that completes the goal
+export type GoalLink = Pick<Goal, 'habit_ids' | 'metric' | 'threshold'>
+
+// What the add-goal form collects
+export interface NewGoalDraft {
+  title: string
+  link: GoalLink | null
+  parentId: string | null
+}
+
+// Fixed class names so Tailwind picks them up
+const gridColumns: Record<number, string> = {
+  1: 'grid-cols-1',
+  2: 'grid-cols-2',
+  3: 'grid-cols-3',
+  4: 'grid-cols-2 sm:grid-cols-4',
+  5: 'grid-cols-2 sm:grid-cols-5',
+}
+
+// Only quarterly and yearly goals can be linked to habits or hold key results
+export const isLongTermGoal = (type: GoalType) => type === 'quarterly' || type === 'yearly'
+
+interface GoalColumnsProps {
+  columns: GoalColumn[]
+  quarter: Quarter
+  year: number
+  habits: HabitWithEntries[]
+  goalsById: Map<string, Goal>
+  loading: boolean
+  reviewCount: number // Unfinished weekly goals waiting for the review
+  getColumnGoals: (column: GoalColumn) => Goal[]
+  getProgress: (goal: Goal) => GoalProgress | null | undefined
+  isGoalComplete: (goal: Goal) => boolean
+  canTick: (goal: Goal) => boolean
+  isPending: (goal: Goal) => boolean
+  getParentOptions: (child: GoalPeriodFields) => Goal[]
+  getCarryCount: (goal: Goal) => number
+  onOpenReview: () => void
+  onAddGoal: (type: GoalType, periodStart: string | undefined, draft: NewGoalDraft) => void
+  onToggle: (goalId: string) => void
+  onDelete: (goalId: string) => void
+  onSetParent: (goal: Goal, parentId: string | null) => void
+  onSetLink: (goal: Goal, link: GoalLink | null) => void
+  onAddKeyResult: (goal: Goal, data: KeyResultData) => Promise<void>
+  onUpdateKeyResult: (goalId: string, keyResult: KeyResult, value: number) => void
+  onEditKeyResult: (keyResult: KeyResult, data: KeyResultData) => Promise<void>
+  onEditKeyResultUpdate: (keyResult: KeyResult, update: KeyResultUpdate, value: number) => void
+  onDeleteKeyResultUpdate: (keyResult: KeyResult, update: KeyResultUpdate) => void
+  onDeleteKeyResult: (keyResult: KeyResult) => void
+}
+
+// One column of goals per visible horizon, each with its own add form
+export default function GoalColumns({
+  columns,
+  quarter,
+  year,
+  habits,
+  goalsById,
+  loading,
+  reviewCount,
+  getColumnGoals,
+  getProgress,
+  isGoalComplete,
+  canTick,
+  isPending,
+  getParentOptions,
+  getCarryCount,
+  onOpenReview,
+  onAddGoal,
+  onToggle,
+  onDelete,
+  onSetParent,
+  onSetLink,
+  onAddKeyResult,
+  onUpdateKeyResult,
+  onEditKeyResult,
+  onEditKeyResultUpdate,
+  onDeleteKeyResultUpdate,
+  onDeleteKeyResult,
+}: GoalColumnsProps) {
+  const [addingTo, setAddingTo] = useState<GoalType | null>(null)
+  const [newGoalTitle, setNewGoalTitle] = useState('')
+  const [isLinking, setIsLinking] = useState(false)
+  const [linkHabitIds, setLinkHabitIds] = useState<string[]>([])
+  const [linkMetric, setLinkMetric] = useState<GoalMetric>('count')
+  const [linkThreshold, setLinkThreshold] = useState('')
+  const [newGoalParentId, setNewGoalParentId] = useState('')
+  const [editingParentOf, setEditingParentOf] = useState<string | null>(null)
+  // The link fields are shared by the add form and editing an existing goal's link, one open at a time
+  const [editingLinkOf, setEditingLinkOf] = useState<string | null>(null)
+  const linkableHabits = habits.filter((h) => !h.archived)
+
+  // A link needs at least one habit and a threshold (percentages up to 100)
+  const parsedThreshold = parseFloat(linkThreshold)
+  const isLinkValid = linkHabitIds.length > 0 && parsedThreshold > 0 && (linkMetric === 'count' || parsedThreshold <= 100)
+  const canSubmit = !!newGoalTitle.trim() && (!isLinking || isLinkValid)
+
+  const resetNewGoal = () => {
+    setNewGoalTitle('')
+    setAddingTo(null)
+    setIsLinking(false)
+    setLinkHabitIds([])
+    setLinkMetric('count')
+    setLinkThreshold('')
+    setNewGoalParentId('')
+    setEditingLinkOf(null)
+  }
+
+  const startEditingLink = (goal: Goal) => {
+    resetNewGoal()
+    setEditingLinkOf(goal.id)
+    setLinkHabitIds(goal.habit_ids ?? [])
+    setLinkMetric(goal.metric ?? 'count')
+    setLinkThreshold(goal.threshold ? String(goal.threshold) : '')
+  }
+
+  const saveLink = (goal: Goal, link: GoalLink | null) => {
+    onSetLink(goal, link)
+    resetNewGoal()
+  }
+
+  const handleSubmit = (column: GoalColumn) => {
+    if (!canSubmit) return
+    onAddGoal(column.type, column.periodStart, {
+      title: newGoalTitle.trim(),
+      link: isLinking ? { habit_ids: linkHabitIds, metric: linkMetric, threshold: parsedThreshold } : null,
+      parentId: newGoalParentId || null,
+    })
+    // Clear input immediately for better UX
+    resetNewGoal()
+  }
+
+  return (
+    <div className={`grid ${gridColumns[columns.length]} gap-3`}>
+      {columns.map((column) => {
+        const columnGoals = getColumnGoals(column)
+        const parentOptions = addingTo === column.type ? getParentOptions(getNewGoalPeriod(column.type, column.periodStart, quarter, year)) : []
+        return (
+          <div
+            key={column.type}
+            className="flex flex-col"
+          >
+            {/* Column Header */}
+            <div className="mb-2">
+              <h3 className="font-semibold text-[var(--foreground)] text-xs">
+                {column.title}
+              </h3>
+              {column.onNavigate ? (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => column.onNavigate?.(-1)}
+                    className="p-0.5 hover:bg-[var(--card-bg)] rounded transition-colors"
+                  >
+                    <ChevronLeft size={12} className="text-[var(--muted)]" />
+                  </button>
+                  <p className="text-[10px] text-[var(--muted)] flex-1 text-center">{column.subtitle}</p>
+                  <button
+                    onClick={() => column.onNavigate?.(1)}
+                    className="p-0.5 hover:bg-[var(--card-bg)] rounded transition-colors"
+                  >
+                    <ChevronRight size={12} className="text-[var(--muted)]" />
+                  </button>
+                </div>
+              ) : (
+                <p className="text-[10px] text-[var(--muted)]">{column.subtitle}</p>
+              )}
+              {column.type === 'weekly' && reviewCount > 0 && (
+                <button
+                  onClick={onOpenReview}
+                  className="mt-1 w-full flex items-center justify-center gap-1 text-[10px] text-amber-500 bg-amber-500/10 hover:bg-amber-500/20 rounded-md py-0.5 transition-colors"
+                >
+                  <Repeat size={10} />
+                  Review {reviewCount} unfinished
+                </button>
+              )}
+            </div>
+
+            {/* Goals List */}
+            <div className="space-y-1 min-h-[40px]">
+              {loading ? (
+                <div className="h-4 bg-[var(--card-border)] rounded-full animate-pulse" />
+              ) : (
+                <>
+                  {columnGoals.map((goal) => {
+                    const progress = getProgress(goal)
+                    const isComplete = isGoalComplete(goal)
+                    return (
+                    <div
+                      key={goal.id}
+                      className="group flex items-start gap-1.5 p-1.5 rounded-lg hover:bg-[var(--card-bg)] transition-colors"
+                    >
+                      <button
+                        onClick={() => onToggle(goal.id)}
+                        disabled={!canTick(goal)}
+                        className="shrink-0 mt-0.5 enabled:hover:scale-110 transition-transform"
+                        title={
+                          !progress ? undefined
+                            : goal.key_results?.length ? 'Completes when every key result reaches its target'
+                            : goal.habit_ids?.length ? 'Completes automatically from linked habits'
+                            : 'Completes when all its sub-goals are done - or tick it yourself'
+                        }
+                      >
+                        {isComplete ? (
+                          <CheckCircle2
+                            size={14}
+                            className="text-[var(--accent-500)]"
+                          />
+                        ) : (
+                          <Circle
+                            size={14}
+                            className="text-[var(--muted-light)] hover:text-[var(--accent-500)]"
+                          />
+                        )}
+                      </button>
+                      <div className="flex-1 min-w-0">
+                        <span
+                          className={`block text-xs leading-tight ${
+                            isComplete
+                              ? 'text-[var(--muted-light)] line-through'
+                              : 'text-[var(--foreground)]'
+                          }`}
+                        >
+                          {goal.title}
+                        </span>
+                        {editingParentOf === goal.id ? (
+                          <select
+                            value={goal.parent_id ?? ''}
+                            onChange={(e) => {
+                              setEditingParentOf(null)
+                              onSetParent(goal, e.target.value || null)
+                            }}
+                            onBlur={() => setEditingParentOf(null)}
+                            onKeyDown={(e) => e.key === 'Escape' && setEditingParentOf(null)}
+                            autoFocus
+                            className="w-full mt-0.5 bg-transparent border border-[var(--card-border)] rounded-md text-[10px] text-[var(--foreground)] outline-none py-0.5 px-1"
+                          >
+                            <option value="">No parent goal</option>
+                            {getParentOptions(goal).map((parent) => (
+                              <option key={parent.id} value={parent.id}>
+                                {formatGoalPeriod(parent)} · {parent.title}
+                              </option>
+                            ))}
+                          </select>
+                        ) : goal.parent_id && goalsById.has(goal.parent_id) ? (
+                          <button
+                            onClick={() => setEditingParentOf(goal.id)}
+                            disabled={goal.id.startsWith('temp-')}
+                            className="flex items-center gap-0.5 max-w-full text-[9px] text-[var(--muted-light)] hover:text-[var(--accent-text)] transition-colors"
+                            title="Change parent goal"
+                          >
+                            <CornerDownRight size={8} className="shrink-0" />
+                            <span className="truncate">{goalsById.get(goal.parent_id)!.title}</span>
+                          </button>
+                        ) : null}
+                        {progress && (
+                          <div
+                            className="mt-1"
+                            title={goal.key_results?.length || !goal.habit_ids?.length ? undefined : `Linked to ${habits.filter((h) => goal.habit_ids?.includes(h.id)).map((h) => h.name).join(', ')}`}
+                          >
+                            <div className="h-1 rounded-full bg-[var(--card-border)] overflow-hidden">
+                              <div
+                                className="h-full rounded-full bg-[var(--accent-500)] transition-all"
+                                style={{ width: `${progress.fraction * 100}%` }}
+                              />
+                            </div>
+                            <span className="text-[9px] text-[var(--muted)]">{progress.label}</span>
+                          </div>
+                        )}
+                        {editingLinkOf === goal.id && (
+                          <div className="mt-1 bg-[var(--card-bg)] rounded-lg">
+                            <GoalLinkFields
+                              habits={habits.filter((h) => !h.archived || goal.habit_ids?.includes(h.id))}
+                              habitIds={linkHabitIds}
+                              metric={linkMetric}
+                              threshold={linkThreshold}
+                              onHabitIdsChange={setLinkHabitIds}
+                              onMetricChange={setLinkMetric}
+                              onThresholdChange={setLinkThreshold}
+                            />
+                            <div className="flex items-center justify-end gap-1 px-1 pb-1">
+                              {!!goal.habit_ids?.length && (
+                                <button
+                                  onClick={() => saveLink(goal, null)}
+                                  className="mr-auto text-[10px] text-[var(--muted-light)] hover:text-red-400 transition-colors"
+                                >
+                                  Unlink habits
+                                </button>
+                              )}
+                              <button
+                                onClick={() => saveLink(goal, { habit_ids: linkHabitIds, metric: linkMetric, threshold: parsedThreshold })}
+                                disabled={!isLinkValid}
+                                className="p-0.5 enabled:hover:bg-[var(--accent-bg)] disabled:opacity-40 rounded transition-colors"
+                                title="Save linked habits"
+                              >
+                                <Check size={12} className="text-[var(--accent-text)]" />
+                              </button>
+                              <button
+                                onClick={resetNewGoal}
+                                className="p-0.5 hover:bg-red-500/20 rounded transition-colors"
+                                title="Cancel"
+                              >
+                                <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
+                              </button>
+                            </div>
+                          </div>
+                        )}
+                        {/* Key results for quarterly and yearly goals not already linked to habits */}
+                        {isLongTermGoal(goal.type) && !goal.habit_ids?.length && (
+                          <KeyResultList
+                            keyResults={goal.key_results ?? []}
+                            canAdd={!goal.id.startsWith('temp-')}
+                            onAdd={(data) => onAddKeyResult(goal, data)}
+                            onUpdateValue={(keyResult, value) => onUpdateKeyResult(goal.id, keyResult, value)}
+                            onEdit={onEditKeyResult}
+                            onEditUpdate={onEditKeyResultUpdate}
+                            onDeleteUpdate={onDeleteKeyResultUpdate}
+                            onDelete={onDeleteKeyResult}
+                          />
+                        )}
+                      </div>
+                      {goal.carried_from && (
+                        <span
+                          className="shrink-0 mt-0.5 flex items-center gap-0.5 text-[9px] text-amber-500"
+                          title={goal.type === 'weekly' ? `Pushed ${getCarryCount(goal)} week(s)` : 'Moved from an unfinished weekly goal'}
+                        >
+                          <Repeat size={9} />
+                          {goal.type === 'weekly' && getCarryCount(goal)}
+                        </span>
+                      )}
+                      {isPending(goal) && (
+                        <span className="shrink-0 mt-0.5" title="Waiting to sync">
+                          <CloudOff size={10} className="text-[var(--muted-light)]" />
+                        </span>
+                      )}
+                      {isLongTermGoal(goal.type) && !goal.key_results?.length && editingLinkOf !== goal.id &&
+                        !goal.id.startsWith('temp-') && (linkableHabits.length > 0 || !!goal.habit_ids?.length) && (
+                        <button
+                          onClick={() => startEditingLink(goal)}
+                          className="shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity p-0.5 hover:bg-[var(--accent-bg)] rounded"
+                          title={goal.habit_ids?.length ? 'Change linked habits' : 'Link to habits'}
+                        >
+                          <Link2 size={12} className="text-[var(--muted-light)] hover:text-[var(--accent-text)]" />
+                        </button>
+                      )}
+                      {!(goal.parent_id && goalsById.has(goal.parent_id)) && editingParentOf !== goal.id &&
+                        !goal.id.startsWith('temp-') && getParentOptions(goal).length > 0 && (
+                        <button
+                          onClick={() => setEditingParentOf(goal.id)}
+                          className="shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity p-0.5 hover:bg-[var(--accent-bg)] rounded"
+                          title="Set parent goal"
+                        >
+                          <CornerDownRight size={12} className="text-[var(--muted-light)] hover:text-[var(--accent-text)]" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onDelete(goal.id)}
+                        className="shrink-0 opacity-40 hover:opacity-100 transition-opacity p-0.5 hover:bg-red-500/20 rounded"
+                        title="Delete goal"
+                      >
+                        <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
+                      </button>
+                    </div>
+                    )
+                  })}
+
+                  {/* Add Goal Input or Button */}
+                  {addingTo === column.type ? (
+                    <div className="p-1 bg-[var(--card-bg)] rounded-lg">
+                    <div className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        value={newGoalTitle}
+                        onChange={(e) => setNewGoalTitle(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter' && canSubmit) {
+                            handleSubmit(column)
+                          }
+                          if (e.key === 'Escape') {
+                            resetNewGoal()
+                          }
+                        }}
+                        placeholder="Type goal and press Enter..."
+                        autoFocus
+                        className="flex-1 bg-transparent text-xs text-[var(--foreground)] placeholder-[var(--muted-light)] outline-none py-1 px-1"
+                      />
+                      {isLongTermGoal(column.type) && linkableHabits.length > 0 && (
+                        <button
+                          onClick={() => setIsLinking(!isLinking)}
+                          className={`p-1 rounded transition-colors ${isLinking ? 'bg-[var(--accent-bg)]' : 'hover:bg-[var(--card-border)]'}`}
+                          title="Link to habits"
+                        >
+                          <Link2 size={12} className={isLinking ? 'text-[var(--accent-text)]' : 'text-[var(--muted-light)]'} />
+                        </button>
+                      )}
+                      <button
+                        onClick={resetNewGoal}
+                        className="p-1 hover:bg-red-500/20 rounded transition-colors"
+                        title="Cancel"
+                      >
+                        <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
+                      </button>
+                    </div>
+
+                    {/* Progress from linked habits, e.g. "Run 40 times" or "80% meditation" */}
+                    {isLinking && (
+                      <GoalLinkFields
+                        habits={linkableHabits}
+                        habitIds={linkHabitIds}
+                        metric={linkMetric}
+                        threshold={linkThreshold}
+                        onHabitIdsChange={setLinkHabitIds}
+                        onMetricChange={setLinkMetric}
+                        onThresholdChange={setLinkThreshold}
+                      />
+                    )}
+
+                    {/* Longer-term goal this one breaks down */}
+                    {parentOptions.length > 0 && (
+                      <select
+                        value={newGoalParentId}
+                        onChange={(e) => setNewGoalParentId(e.target.value)}
+                        className="w-full mt-1 bg-transparent border border-[var(--card-border)] rounded-md text-[10px] text-[var(--foreground)] outline-none py-0.5 px-1"
+                      >
+                        <option value="">No parent goal</option>
+                        {parentOptions.map((parent) => (
+                          <option key={parent.id} value={parent.id}>
+                            {formatGoalPeriod(parent)} · {parent.title}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    </div>
+                  ) : (
+                    <button
+                      onClick={() => {
+                        resetNewGoal()
+                        setAddingTo(column.type)
+                      }}
+                      className="flex items-center gap-0.5 text-[10px] text-[var(--muted-light)] hover:text-[var(--accent-text)] p-1 rounded-lg transition-colors"
+                    >
+                      <Plus size={10} />
+                      Add
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface GoalLinkFieldsProps {
+  habits: HabitWithEntries[]
+  habitIds: string[]
+  metric: GoalMetric
+  threshold: string
+  onHabitIdsChange: (habitIds: string[]) => void
+  onMetricChange: (metric: GoalMetric) => void
+  onThresholdChange: (threshold: string) => void
+}
+
+// Habits to link, and how many completions (or what share of their target) complete the goal
+function GoalLinkFields({ habits, habitIds, metric, threshold, onHabitIdsChange, onMetricChange, onThresholdChange }: GoalLinkFieldsProps) {
+  return (
+    <div className="space-y-1.5 px-1 pt-1.5 pb-1">
+      <div className="flex flex-wrap gap-1">
+        {habits.map((habit) => {
+          const selected = habitIds.includes(habit.id)
+          return (
+            <button
+              key={habit.id}
+              onClick={() =>
+                onHabitIdsChange(selected ? habitIds.filter((id) => id !== habit.id) : [...habitIds, habit.id])
+              }
+              className={`px-1.5 py-0.5 rounded-md text-[10px] transition-colors ${
+                selected ? 'text-white' : 'bg-[var(--card-border)] text-[var(--muted)]'
+              }`}
+              style={{ backgroundColor: selected ? habit.color : undefined }}
+            >
+              {habit.name}
+            </button>
+          )
+        })}
+      </div>
+      <div className="flex items-center gap-1">
+        <div className="flex bg-[var(--card-border)] rounded-md p-0.5">
+          {(['count', 'percentage'] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => onMetricChange(value)}
+              className={`px-1.5 py-0.5 rounded text-[10px] font-medium transition-colors ${
+                metric === value ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+              }`}
+            >
+              {value === 'count' ? 'Times' : '% of target'}
+            </button>
+          ))}
+        </div>
+        <input
+          type="number"
+          min="1"
+          max={metric === 'percentage' ? 100 : undefined}
+          value={threshold}
+          onChange={(e) => onThresholdChange(e.target.value)}
+          placeholder={metric === 'count' ? '40' : '80'}
+          className="w-12 min-w-0 bg-transparent border border-[var(--card-border)] rounded-md text-[10px] text-[var(--foreground)] placeholder-[var(--muted-light)] outline-none py-0.5 px-1"
+        />
+      </div>
+    </div>
+  )
+}
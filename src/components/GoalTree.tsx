@@ -0,0 +1,90 @@
+'use client'
+
+import { Circle, CheckCircle2 } from 'lucide-react'
+import { formatGoalPeriod, getChildGoals, GoalProgress } from '@/lib/goalProgress'
+import { Goal, GOAL_TYPES } from '@/types/database'
+
+interface GoalTreeProps {
+  goals: Goal[]
+  roots: Goal[]
+  unlinkedCount: number // Shorter-term goals in view without a parent
+  getProgress: (goal: Goal) => GoalProgress | null | undefined
+  isComplete: (goal: Goal) => boolean
+}
+
+// Longest horizon first, then in date order
+function sortGoals(goals: Goal[]): Goal[] {
+  const periodKey = (g: Goal) => g.date ?? g.week_start ?? g.month_start ?? g.quarter ?? ''
+  return [...goals].sort((a, b) =>
+    GOAL_TYPES.indexOf(b.type) - GOAL_TYPES.indexOf(a.type) ||
+    periodKey(a).localeCompare(periodKey(b)) ||
+    a.created_at.localeCompare(b.created_at)
+  )
+}
+
+// How yearly and quarterly goals break down into shorter-term goals
+export default function GoalTree({ goals, roots, unlinkedCount, getProgress, isComplete }: GoalTreeProps) {
+  const renderGoal = (goal: Goal, seen: Set<string>) => {
+    const progress = getProgress(goal)
+    const complete = isComplete(goal)
+    const children = seen.has(goal.id) ? [] : sortGoals(getChildGoals(goal, goals))
+    const childSeen = new Set(seen).add(goal.id)
+
+    return (
+      <div key={goal.id}>
+        <div className="flex items-start gap-1.5 py-1">
+          {complete ? (
+            <CheckCircle2 size={14} className="shrink-0 mt-0.5 text-[var(--accent-500)]" />
+          ) : (
+            <Circle size={14} className="shrink-0 mt-0.5 text-[var(--muted-light)]" />
+          )}
+          <div className="flex-1 min-w-0">
+            <div className="flex items-baseline gap-1.5">
+              <span
+                className={`text-xs leading-tight truncate ${
+                  complete ? 'text-[var(--muted-light)] line-through' : 'text-[var(--foreground)]'
+                }`}
+              >
+                {goal.title}
+              </span>
+              <span className="shrink-0 text-[9px] text-[var(--muted)]">{formatGoalPeriod(goal)}</span>
+            </div>
+            {progress && (
+              <div className="flex items-center gap-1.5 mt-0.5">
+                <div className="w-24 h-1 rounded-full bg-[var(--card-border)] overflow-hidden">
+                  <div
+                    className="h-full rounded-full bg-[var(--accent-500)] transition-all"
+                    style={{ width: `${progress.fraction * 100}%` }}
+                  />
+                </div>
+                <span className="text-[9px] text-[var(--muted)]">{progress.label}</span>
+              </div>
+            )}
+          </div>
+        </div>
+        {children.length > 0 && (
+          <div className="ml-[7px] pl-3 border-l border-[var(--card-border)]">
+            {children.map((child) => renderGoal(child, childSeen))}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      {roots.length === 0 ? (
+        <p className="text-xs text-[var(--muted-light)] py-2">
+          No yearly or quarterly goals yet - add one, then pick it as the parent of shorter-term goals
+        </p>
+      ) : (
+        sortGoals(roots).map((goal) => renderGoal(goal, new Set()))
+      )}
+      {unlinkedCount > 0 && (
+        <p className="text-[10px] text-[var(--muted-light)] mt-2">
+          {unlinkedCount} shorter-term {unlinkedCount === 1 ? "goal isn't" : "goals aren't"} linked to a parent yet
+        </p>
+      )}
+    </div>
+  )
+}
@@ -1,32 +1,68 @@
 'use client'
 
-import { useState, useMemo, useCallback, useEffect } from 'react'
-import { Plus, X, Circle, CheckCircle2, ChevronLeft, ChevronRight, ChevronDown, Target } from 'lucide-react'
-import { format, startOfWeek, endOfWeek, addWeeks, subWeeks } from 'date-fns'
+import { useState, useMemo, useCallback, useEffect, useRef } from 'react'
+import { createPortal } from 'react-dom'
+import { ChevronDown, Target, ListTree, Columns3 } from 'lucide-react'
+import { format, startOfWeek, endOfWeek, startOfMonth, addDays, addWeeks, addMonths, subWeeks, parseISO, getQuarter } from 'date-fns'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
-import { Goal, GoalType, Quarter, getQuarterDates } from '@/types/database'
+import { useUndo } from '@/context/UndoContext'
+import { useSync } from '@/context/SyncContext'
+import { goalKey, keyResultKey } from '@/lib/offlineQueue'
+import { getTodayKey } from '@/lib/dayBoundary'
+import { subscribeToChanges, applyRowChange, applyKeyResultChange, applyKeyResultUpdateChange } from '@/lib/realtime'
+import { getGoalProgress, getGoalPeriod, canBeParentGoal, getNewGoalPeriod, isGoalCompleted, getKeyResultCurrentValue, GoalPeriodFields } from '@/lib/goalProgress'
+import { getGoalsToReview, getCarryCount } from '@/lib/goalReview'
+import { Goal, GoalReviewOutcome, GoalType, HabitWithEntries, KeyResult, KeyResultData, KeyResultUpdate, Quarter, getQuarterDates, GOAL_TYPES, DEFAULT_GOAL_HORIZONS } from '@/types/database'
+import GoalColumns, { GoalColumn, GoalLink, NewGoalDraft, isLongTermGoal } from './GoalColumns'
+import WeeklyReviewModal from './WeeklyReviewModal'
+import GoalTree from './GoalTree'
 
-interface GoalColumn {
-  type: GoalType
-  title: string
-  subtitle: string
-  weekStart?: string
+// Goals that pointed at a deleted goal - the database unlinks them, so undo links them back
+interface GoalLinks {
+  childIds: string[] // parent_id
+  carriedIds: string[] // carried_from
+}
+
+// Change one key result's update history, keeping its current value in step the way the trigger does
+function withKeyResultHistory(
+  goals: Goal[],
+  keyResultId: string,
+  change: (updates: KeyResultUpdate[]) => KeyResultUpdate[]
+): Goal[] {
+  return goals.map((g) =>
+    g.key_results?.some((kr) => kr.id === keyResultId)
+      ? {
+          ...g,
+          key_results: g.key_results.map((kr) => {
+            if (kr.id !== keyResultId) return kr
+            const updates = change(kr.updates ?? [])
+            return { ...kr, updates, current_value: getKeyResultCurrentValue({ ...kr, updates }) }
+          }),
+        }
+      : g
+  )
 }
 
 interface GoalsSectionProps {
   quarter: Quarter
   year: number
+  habits: HabitWithEntries[] // For goals linked to habits
 }
 
-export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
-  const { user } = useAuth()
+export default function GoalsSection({ quarter, year, habits }: GoalsSectionProps) {
+  const { user, profile } = useAuth()
+  const todayKey = getTodayKey(profile)
+  const { pushAction } = useUndo()
+  const { pendingKeys, lastSyncedAt, runMutation } = useSync()
   const userId = user?.id
   const [goals, setGoals] = useState<Goal[]>([])
   const [loading, setLoading] = useState(true)
-  const [addingTo, setAddingTo] = useState<GoalType | null>(null)
-  const [newGoalTitle, setNewGoalTitle] = useState('')
+  const [dayOffset, setDayOffset] = useState(0)
   const [weekOffset, setWeekOffset] = useState(0)
+  const [monthOffset, setMonthOffset] = useState(0)
+  const [isReviewOpen, setIsReviewOpen] = useState(false)
+  const [isTreeView, setIsTreeView] = useState(false)
   const [isExpanded, setIsExpanded] = useState(() => {
     if (typeof window !== 'undefined') {
       const saved = localStorage.getItem('goals-section-expanded')
@@ -42,61 +78,89 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
 
   const supabase = useMemo(() => createClient(), [])
 
+  // Goals with key results, linked habits or sub-goals complete themselves instead of being ticked
+  const progressById = useMemo(
+    () => new Map(goals.map((goal) => [goal.id, getGoalProgress(goal, habits, todayKey, goals)])),
+    [goals, habits, todayKey]
+  )
+  const isGoalComplete = (goal: Goal) => isGoalCompleted(goal, progressById.get(goal.id))
+  // Goals whose progress comes from sub-goals can still be ticked by hand
+  const canTickGoal = (goal: Goal) => {
+    const progress = progressById.get(goal.id)
+    return !progress || progress.source === 'sub_goals'
+  }
+  const goalsToReview = useMemo(() => getGoalsToReview(goals, habits, todayKey), [goals, habits, todayKey])
+  const goalsById = useMemo(() => new Map(goals.map((g) => [g.id, g])), [goals])
+
   // Get the quarter dates
   const quarterDates = useMemo(() => getQuarterDates(year, quarter), [year, quarter])
 
-  // Calculate the current week within the selected quarter
-  const currentWeek = useMemo(() => {
-    const today = new Date()
-    const quarterStart = quarterDates.start
-    const quarterEnd = quarterDates.end
+  // Today if we're in the selected quarter, otherwise its nearest end
+  const baseDate = useMemo(() => {
+    const today = parseISO(todayKey)
+    if (today < quarterDates.start) return quarterDates.start
+    if (today > quarterDates.end) return quarterDates.end
+    return today
+  }, [quarterDates, todayKey])
 
-    // If we're in the selected quarter, use current week
-    // Otherwise, use the first week of the quarter
-    let baseDate: Date
-    if (today >= quarterStart && today <= quarterEnd) {
-      baseDate = today
-    } else if (today < quarterStart) {
-      baseDate = quarterStart
-    } else {
-      baseDate = quarterEnd
-    }
+  // The day, week and month shown, each moved separately from the base date
+  const currentDay = useMemo(() => addDays(baseDate, dayOffset), [baseDate, dayOffset])
 
-    // Apply week offset
-    const offsetDate = weekOffset === 0 ? baseDate : addWeeks(baseDate, weekOffset)
-
-    // Clamp to quarter bounds
+  const currentWeek = useMemo(() => {
+    const offsetDate = addWeeks(baseDate, weekOffset)
     const weekStart = startOfWeek(offsetDate, { weekStartsOn: 1 })
     const weekEnd = endOfWeek(offsetDate, { weekStartsOn: 1 })
 
     return { weekStart, weekEnd }
-  }, [quarterDates, weekOffset])
+  }, [baseDate, weekOffset])
 
-  // Reset week offset when quarter changes
+  const currentMonth = useMemo(() => startOfMonth(addMonths(baseDate, monthOffset)), [baseDate, monthOffset])
+
+  // Reset offsets when quarter changes
   useEffect(() => {
+    setDayOffset(0)
     setWeekOffset(0)
+    setMonthOffset(0)
   }, [quarter, year])
 
+  const horizons = profile?.goal_horizons?.length ? profile.goal_horizons : DEFAULT_GOAL_HORIZONS
+
   const columns = useMemo<GoalColumn[]>(() => {
-    return [
-      {
-        type: 'weekly' as GoalType,
+    const allColumns: Record<GoalType, GoalColumn> = {
+      daily: {
+        type: 'daily',
+        title: 'Day',
+        subtitle: format(currentDay, 'EEE, MMM d'),
+        periodStart: format(currentDay, 'yyyy-MM-dd'),
+        onNavigate: (delta) => setDayOffset((prev) => prev + delta),
+      },
+      weekly: {
+        type: 'weekly',
         title: 'Week',
         subtitle: `${format(currentWeek.weekStart, 'MMM d')} - ${format(currentWeek.weekEnd, 'MMM d')}`,
-        weekStart: format(currentWeek.weekStart, 'yyyy-MM-dd'),
+        periodStart: format(currentWeek.weekStart, 'yyyy-MM-dd'),
+        onNavigate: (delta) => setWeekOffset((prev) => prev + delta),
       },
-      {
-        type: 'quarterly' as GoalType,
+      monthly: {
+        type: 'monthly',
+        title: 'Month',
+        subtitle: format(currentMonth, 'MMMM yyyy'),
+        periodStart: format(currentMonth, 'yyyy-MM-dd'),
+        onNavigate: (delta) => setMonthOffset((prev) => prev + delta),
+      },
+      quarterly: {
+        type: 'quarterly',
         title: 'Quarter',
         subtitle: `${quarter} ${year}`,
       },
-      {
-        type: 'yearly' as GoalType,
+      yearly: {
+        type: 'yearly',
         title: 'Year',
         subtitle: year.toString(),
       },
-    ]
-  }, [quarter, year, currentWeek])
+    }
+    return GOAL_TYPES.filter((type) => horizons.includes(type)).map((type) => allColumns[type])
+  }, [quarter, year, currentDay, currentWeek, currentMonth, horizons])
 
   const fetchGoals = useCallback(async () => {
     if (!userId) {
@@ -117,7 +181,7 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
     try {
       const { data, error } = await supabase
         .from('goals')
-        .select('*')
+        .select('*, key_results:goal_key_results(*, updates:key_result_updates(*))')
         .eq('user_id', userId)
         .order('created_at', { ascending: true })
 
@@ -142,26 +206,51 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
     fetchGoals()
   }, [fetchGoals])
 
-  const handleAddGoal = async (type: GoalType, weekStart?: string) => {
-    const title = newGoalTitle.trim()
-    if (!userId || !title) return
+  // Live updates from other tabs and devices
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToChanges(
+      supabase,
+      `goals-${userId}`,
+      // RLS limits key results and their updates to the user's own goals
+      [
+        { table: 'goals', filter: `user_id=eq.${userId}` },
+        { table: 'goal_key_results' },
+        { table: 'key_result_updates' },
+      ],
+      (change) => {
+        if (change.table === 'goal_key_results') {
+          setGoals((prev) => applyKeyResultChange(prev, change))
+        } else if (change.table === 'key_result_updates') {
+          setGoals((prev) => applyKeyResultUpdateChange(prev, change))
+        } else {
+          setGoals((prev) => applyRowChange(prev, change))
+        }
+      }
+    )
+  }, [userId, supabase])
+
+  // Pick up server IDs once queued offline changes have synced
+  useEffect(() => {
+    if (lastSyncedAt) fetchGoals()
+  }, [lastSyncedAt, fetchGoals])
+
+  const handleAddGoal = async (type: GoalType, periodStart: string | undefined, { title, link, parentId }: NewGoalDraft) => {
+    if (!userId) return
 
+    const period = getNewGoalPeriod(type, periodStart, quarter, year)
     const tempId = `temp-${Date.now()}`
     const newGoal: Goal = {
       id: tempId,
       user_id: userId,
       title,
-      type,
       completed: false,
       created_at: new Date().toISOString(),
-      quarter: type === 'quarterly' || type === 'weekly' ? quarter : null,
-      year: year,
-      week_start: type === 'weekly' ? weekStart : null,
+      ...period,
+      parent_id: parentId,
+      ...link,
     }
 
-    // Clear input immediately for better UX
-    setNewGoalTitle('')
-    setAddingTo(null)
     setGoals((prev) => [...prev, newGoal])
 
     const insertData: Record<string, unknown> = {
@@ -169,45 +258,69 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
       title,
       type,
       completed: false,
-      year: year,
+      year: period.year,
+    }
+
+    // Add quarter for all but yearly goals
+    if (type !== 'yearly') {
+      insertData.quarter = period.quarter
     }
 
-    // Add quarter for quarterly and weekly goals
-    if (type === 'quarterly' || type === 'weekly') {
-      insertData.quarter = quarter
+    // Key daily, weekly and monthly goals to their day, week or month
+    if (type === 'weekly' && periodStart) {
+      insertData.week_start = periodStart
+    }
+    if (type === 'monthly' && periodStart) {
+      insertData.month_start = periodStart
+    }
+    if (type === 'daily' && periodStart) {
+      insertData.date = periodStart
+    }
+
+    // The longer-term goal this one breaks down
+    if (parentId) {
+      insertData.parent_id = parentId
     }
 
-    // Add week_start for weekly goals
-    if (type === 'weekly' && weekStart) {
-      insertData.week_start = weekStart
+    // Linked habits and the threshold that completes the goal
+    if (link) {
+      Object.assign(insertData, link)
     }
 
-    const { data, error } = await supabase
-      .from('goals')
-      .insert(insertData)
-      .select()
-      .single()
+    const { data, error } = await runMutation({
+      type: 'insert',
+      table: 'goals',
+      key: goalKey(tempId),
+      values: insertData,
+      tempId,
+    })
 
     if (error) {
       console.error('Error adding goal:', error.message, error.details, error.hint, error.code)
       setGoals((prev) => prev.filter((g) => g.id !== tempId))
     } else if (data) {
-      setGoals((prev) => prev.map((g) => (g.id === tempId ? data : g)))
+      // The realtime insert may have arrived first
+      setGoals((prev) =>
+        prev.filter((g) => g.id !== data.id).map((g) => (g.id === tempId ? (data as unknown as Goal) : g))
+      )
     }
   }
 
   const handleToggleGoal = async (goalId: string) => {
     const goal = goals.find((g) => g.id === goalId)
-    if (!goal) return
+    if (!goal || !canTickGoal(goal)) return
 
     setGoals((prev) =>
       prev.map((g) => (g.id === goalId ? { ...g, completed: !g.completed } : g))
     )
 
-    const { error } = await supabase
-      .from('goals')
-      .update({ completed: !goal.completed })
-      .eq('id', goalId)
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goals',
+      key: goalKey(goalId),
+      values: { completed: !goal.completed },
+      match: { id: goalId },
+    })
 
     if (error) {
       console.error('Error toggling goal:', error)
@@ -217,21 +330,572 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
     }
   }
 
-  const handleDeleteGoal = async (goalId: string) => {
-    const deletedGoal = goals.find((g) => g.id === goalId)
-    setGoals((prev) => prev.filter((g) => g.id !== goalId))
+  // Move a goal under a longer-term goal, or detach it (null)
+  const handleSetParentGoal = async (goal: Goal, parentId: string | null) => {
+    if (parentId === (goal.parent_id ?? null)) return
+
+    setGoals((prev) =>
+      prev.map((g) => (g.id === goal.id ? { ...g, parent_id: parentId } : g))
+    )
+
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goals',
+      key: goalKey(goal.id),
+      values: { parent_id: parentId },
+      match: { id: goal.id },
+    })
+
+    if (error) {
+      console.error('Error setting parent goal:', error)
+      setGoals((prev) =>
+        prev.map((g) => (g.id === goal.id ? { ...g, parent_id: goal.parent_id } : g))
+      )
+    }
+  }
+
+  // Link a goal to habits (or unlink it, back to being ticked by hand) - progress then follows their entries
+  const handleSetGoalLink = async (goal: Goal, link: GoalLink | null) => {
+    const values: GoalLink = link ?? { habit_ids: null, metric: null, threshold: null }
+    const previous: GoalLink = { habit_ids: goal.habit_ids, metric: goal.metric, threshold: goal.threshold }
+
+    setGoals((prev) =>
+      prev.map((g) => (g.id === goal.id ? { ...g, ...values } : g))
+    )
+
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goals',
+      key: goalKey(goal.id),
+      values: { ...values },
+      match: { id: goal.id },
+    })
+
+    if (error) {
+      console.error('Error linking goal to habits:', error)
+      setGoals((prev) =>
+        prev.map((g) => (g.id === goal.id ? { ...g, ...previous } : g))
+      )
+    }
+  }
 
-    const { error } = await supabase.from('goals').delete().eq('id', goalId)
+  // Resolves to whether the goal was deleted
+  const removeGoal = useCallback(async (goal: Goal): Promise<boolean> => {
+    setGoals((prev) => prev.filter((g) => g.id !== goal.id))
+
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'goals',
+      key: goalKey(goal.id),
+      match: { id: goal.id },
+    })
 
     if (error) {
       console.error('Error deleting goal:', error)
-      if (deletedGoal) {
-        setGoals((prev) => [...prev, deletedGoal])
+      setGoals((prev) => [...prev, goal])
+      return false
+    }
+    return true
+  }, [runMutation])
+
+  // Carrying over adds the goal to this week and converting adds it to this quarter, both linked back
+  // to the original; the original is marked so it isn't reviewed again. Returns the follow-up, or null if it failed
+  const reviewGoal = useCallback(async (goal: Goal, outcome: GoalReviewOutcome): Promise<{ followUp: Goal | null } | null> => {
+    if (!userId) return null
+
+    const today = parseISO(todayKey)
+    const period: GoalPeriodFields = {
+      type: outcome === 'carried' ? 'weekly' : 'quarterly',
+      quarter: `Q${getQuarter(today)}` as Quarter,
+      year: today.getFullYear(),
+      week_start: outcome === 'carried' ? format(startOfWeek(today, { weekStartsOn: 1 }), 'yyyy-MM-dd') : null,
+    }
+    // The parent stays only if it covers the new period, e.g. a converted goal can only stay under a yearly one
+    const parent = goal.parent_id ? goalsById.get(goal.parent_id) : undefined
+    const followUp = outcome === 'dropped' ? null : {
+      user_id: userId,
+      title: goal.title,
+      ...period,
+      completed: false,
+      carried_from: goal.id,
+      parent_id: parent && canBeParentGoal(parent, period) ? parent.id : null,
+    }
+    const tempId = `temp-${Date.now()}`
+
+    let followUpGoal: Goal | null = followUp ? { id: tempId, created_at: new Date().toISOString(), ...followUp } : null
+
+    // Optimistic update
+    setGoals((prev) => [
+      ...prev.map((g) => (g.id === goal.id ? { ...g, review_outcome: outcome } : g)),
+      ...(followUpGoal ? [followUpGoal] : []),
+    ])
+
+    // Add the follow-up first so a failure can't lose the goal
+    if (followUp) {
+      const { data, error } = await runMutation({
+        type: 'insert',
+        table: 'goals',
+        key: goalKey(tempId),
+        values: followUp,
+        tempId,
+      })
+      if (error) {
+        console.error('Error carrying goal over:', error)
+        fetchGoals() // Revert on error
+        return null
+      }
+      if (data) {
+        followUpGoal = data as unknown as Goal
+        setGoals((prev) =>
+          prev.filter((g) => g.id !== data.id).map((g) => (g.id === tempId ? followUpGoal! : g))
+        )
+      }
+    }
+
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goals',
+      key: goalKey(goal.id),
+      values: { review_outcome: outcome },
+      match: { id: goal.id },
+    })
+
+    if (error) {
+      console.error('Error reviewing goal:', error)
+      fetchGoals() // Revert on error
+      return null
+    }
+    return { followUp: followUpGoal }
+  }, [userId, todayKey, goalsById, runMutation, fetchGoals])
+
+  // Put a reviewed goal back into the review and remove its follow-up
+  const unreviewGoal = useCallback(async (goal: Goal, followUp: Goal | null): Promise<boolean> => {
+    if (followUp && !(await removeGoal(followUp))) return false
+    setGoals((prev) => prev.map((g) => (g.id === goal.id ? { ...g, review_outcome: null } : g)))
+
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goals',
+      key: goalKey(goal.id),
+      values: { review_outcome: null },
+      match: { id: goal.id },
+    })
+
+    if (error) {
+      console.error('Error undoing goal review:', error)
+      fetchGoals() // Revert on error
+      return false
+    }
+    return true
+  }, [removeGoal, runMutation, fetchGoals])
+
+  const handleReviewGoal = async (goal: Goal, outcome: GoalReviewOutcome) => {
+    const result = await reviewGoal(goal, outcome)
+    if (!result) return
+
+    // Redo adds a new follow-up, which the next undo has to remove
+    let followUp = result.followUp
+    pushAction({
+      label: outcome === 'carried' ? `Carried over "${goal.title}"`
+        : outcome === 'dropped' ? `Dropped "${goal.title}"`
+        : `Made "${goal.title}" a quarterly goal`,
+      undo: () => unreviewGoal(goal, followUp),
+      redo: async () => {
+        const redone = await reviewGoal(goal, outcome)
+        if (redone) followUp = redone.followUp
+        return redone !== null
+      },
+    })
+  }
+
+  // Re-insert key results and then their update history (the trigger replays current values in order)
+  // Resolves to whether everything was saved
+  const insertKeyResults = useCallback(async (goalId: string, keyResults: KeyResult[]): Promise<boolean> => {
+    // Unsaved temp rows get a fresh ID
+    const withoutTempId = <T extends { id: string }>({ id, ...row }: T) => (id.startsWith('temp-') ? row : { id, ...row })
+    const savedKeyResults = keyResults.filter((kr) => !kr.id.startsWith('temp-'))
+    const children = [
+      { table: 'goal_key_results' as const, rows: keyResults.map((kr) => {
+        const row = { ...kr }
+        delete row.updates
+        return withoutTempId(row)
+      }) },
+      {
+        table: 'key_result_updates' as const,
+        rows: savedKeyResults
+          .flatMap((kr) => kr.updates ?? [])
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .map(withoutTempId),
+      },
+    ]
+
+    for (const { table, rows } of children) {
+      if (rows.length === 0) continue
+      const { error } = await runMutation({
+        type: 'insert',
+        table,
+        key: goalKey(goalId),
+        values: rows,
+      })
+      if (error) {
+        console.error(`Error restoring ${table}:`, error)
+        fetchGoals()
+        return false
+      }
+    }
+    return true
+  }, [runMutation, fetchGoals])
+
+  // Point goals back at a restored goal
+  const relinkGoals = useCallback(async (goalId: string, links: GoalLinks) => {
+    const updates = [
+      ...links.childIds.map((id) => ({ id, values: { parent_id: goalId } })),
+      ...links.carriedIds.map((id) => ({ id, values: { carried_from: goalId } })),
+    ]
+    setGoals((prev) =>
+      prev.map((g) =>
+        links.childIds.includes(g.id) ? { ...g, parent_id: goalId }
+          : links.carriedIds.includes(g.id) ? { ...g, carried_from: goalId }
+          : g
+      )
+    )
+
+    for (const { id, values } of updates) {
+      const { error } = await runMutation({
+        type: 'update',
+        table: 'goals',
+        key: goalKey(id),
+        values,
+        match: { id },
+      })
+      if (error) {
+        console.error('Error re-linking goal:', error)
+        fetchGoals()
+        return
       }
     }
+  }, [runMutation, fetchGoals])
+
+  // Re-create a deleted goal with its original ID. Resolves to whether the goal itself came back
+  const restoreGoal = useCallback(async (goal: Goal, links: GoalLinks): Promise<boolean> => {
+    const { key_results = [], ...goalRow } = goal
+    setGoals((prev) => (prev.some((g) => g.id === goal.id) ? prev : [...prev, goal]))
+
+    const { error } = await runMutation({
+      type: 'insert',
+      table: 'goals',
+      key: goalKey(goal.id),
+      values: goalRow,
+    })
+
+    if (error) {
+      console.error('Error restoring goal:', error)
+      setGoals((prev) => prev.filter((g) => g.id !== goal.id))
+      return false
+    }
+    await insertKeyResults(goal.id, key_results)
+    await relinkGoals(goal.id, links)
+    return true
+  }, [runMutation, insertKeyResults, relinkGoals])
+
+  const handleDeleteGoal = async (goalId: string) => {
+    const deletedGoal = goals.find((g) => g.id === goalId)
+    if (!deletedGoal) return
+
+    const links: GoalLinks = {
+      childIds: goals.filter((g) => g.parent_id === goalId).map((g) => g.id),
+      carriedIds: goals.filter((g) => g.carried_from === goalId).map((g) => g.id),
+    }
+    pushAction({
+      label: `Deleted goal "${deletedGoal.title}"`,
+      undo: () => restoreGoal(deletedGoal, links),
+      redo: () => removeGoal(deletedGoal),
+    })
+    await removeGoal(deletedGoal)
+  }
+
+  // Apply a change to one goal's key results
+  const updateKeyResults = (goalId: string, update: (keyResults: KeyResult[]) => KeyResult[]) => {
+    setGoals((prev) =>
+      prev.map((g) => (g.id === goalId ? { ...g, key_results: update(g.key_results ?? []) } : g))
+    )
+  }
+
+  // Server ids of key results and updates added this session, keyed by their temp id - resolves to the
+  // temp id itself while the insert is queued offline (a queued write is remapped on replay), or null if it failed
+  const savedIdsRef = useRef(new Map<string, Promise<string | null>>())
+
+  // The id to write against, waiting for the insert of a key result or update that was only just added
+  const resolveSavedId = useCallback(async (id: string): Promise<string | null> => {
+    const pending = savedIdsRef.current.get(id)
+    return pending ? pending : id
+  }, [])
+
+  const handleAddKeyResult = async (goal: Goal, keyResultData: KeyResultData) => {
+    const tempId = `temp-${Date.now()}`
+    const position = (goal.key_results ?? []).reduce((max, kr) => Math.max(max, kr.position), -1) + 1
+
+    // Optimistic update
+    const keyResult: KeyResult = {
+      id: tempId,
+      goal_id: goal.id,
+      current_value: keyResultData.start_value,
+      position,
+      created_at: new Date().toISOString(),
+      updates: [],
+      ...keyResultData,
+    }
+    updateKeyResults(goal.id, (keyResults) => [...keyResults, keyResult])
+
+    const inserted = runMutation({
+      type: 'insert',
+      table: 'goal_key_results',
+      key: keyResultKey(goal.id, tempId),
+      values: { goal_id: goal.id, current_value: keyResultData.start_value, position, ...keyResultData },
+      tempId,
+    })
+    savedIdsRef.current.set(tempId, inserted.then(({ data, error, queued }) =>
+      error ? null : data ? (data.id as string) : queued ? tempId : null
+    ))
+    const { data, error } = await inserted
+
+    if (error) {
+      updateKeyResults(goal.id, (keyResults) => keyResults.filter((kr) => kr.id !== tempId))
+      throw new Error(error.message)
+    }
+    if (data) {
+      // The realtime insert may have arrived first, and updates may have been logged in the meantime
+      const saved = data as unknown as KeyResult
+      updateKeyResults(goal.id, (keyResults) =>
+        keyResults
+          .filter((kr) => kr.id !== saved.id)
+          .map((kr) => {
+            if (kr.id !== tempId) return kr
+            const updates = kr.updates ?? []
+            return { ...saved, updates, current_value: getKeyResultCurrentValue({ ...saved, updates }) }
+          })
+      )
+    }
+  }
+
+  // Change a key result's title, start and target values or unit
+  const handleEditKeyResult = async (keyResult: KeyResult, keyResultData: KeyResultData) => {
+    const previous: KeyResultData = {
+      title: keyResult.title,
+      start_value: keyResult.start_value,
+      target_value: keyResult.target_value,
+      unit: keyResult.unit,
+    }
+    // Only the changed fields are put back on error, so updates logged in the meantime survive
+    const applyFields = (fields: KeyResultData) =>
+      updateKeyResults(keyResult.goal_id, (keyResults) =>
+        keyResults.map((kr) =>
+          kr.id === keyResult.id ? { ...kr, ...fields, current_value: getKeyResultCurrentValue({ ...kr, ...fields }) } : kr
+        )
+      )
+
+    // Optimistic update
+    applyFields(keyResultData)
+
+    const id = await resolveSavedId(keyResult.id)
+    if (!id) {
+      applyFields(previous)
+      throw new Error('The key result was never saved')
+    }
+
+    // The trigger only runs for updates, so a key result without any takes its new start value here
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'goal_key_results',
+      key: keyResultKey(keyResult.goal_id, id),
+      values: keyResult.updates?.length ? { ...keyResultData } : { ...keyResultData, current_value: keyResultData.start_value },
+      match: { id },
+    })
+
+    if (error) {
+      applyFields(previous)
+      throw new Error(error.message)
+    }
+  }
+
+  // Each update is kept so the key result's history shows how it moved over the period
+  const handleUpdateKeyResult = async (goalId: string, keyResult: KeyResult, value: number) => {
+    const tempId = `temp-${Date.now()}`
+    const update: KeyResultUpdate = { id: tempId, key_result_id: keyResult.id, value, created_at: new Date().toISOString() }
+
+    // Optimistic update
+    setGoals((prev) => withKeyResultHistory(prev, keyResult.id, (updates) => [...updates, update]))
+
+    // A key result added moments ago may still be on its way to the server
+    const keyResultId = await resolveSavedId(keyResult.id)
+    // Roll back just this update, so the current value falls back to whatever is latest now
+    const removeUpdate = () =>
+      setGoals((prev) => withKeyResultHistory(prev, keyResultId ?? keyResult.id, (updates) => updates.filter((u) => u.id !== tempId)))
+    if (!keyResultId) {
+      removeUpdate()
+      return
+    }
+
+    const inserted = runMutation({
+      type: 'insert',
+      table: 'key_result_updates',
+      key: keyResultKey(goalId, keyResultId),
+      values: { key_result_id: keyResultId, value },
+      tempId,
+    })
+    savedIdsRef.current.set(tempId, inserted.then(({ data, error, queued }) =>
+      error ? null : data ? (data.id as string) : queued ? tempId : null
+    ))
+    const { data, error } = await inserted
+
+    if (error) {
+      console.error('Error updating key result:', error)
+      removeUpdate()
+    } else if (data) {
+      const saved = data as unknown as KeyResultUpdate
+      setGoals((prev) =>
+        withKeyResultHistory(prev, keyResultId, (updates) =>
+          updates.filter((u) => u.id !== saved.id).map((u) => (u.id === tempId ? saved : u))
+        )
+      )
+    }
+  }
+
+  // Correct the value of an update in the history - the trigger recalculates the current value
+  const handleEditKeyResultUpdate = async (keyResult: KeyResult, update: KeyResultUpdate, value: number) => {
+    const setValue = (newValue: number) =>
+      setGoals((prev) =>
+        withKeyResultHistory(prev, keyResult.id, (updates) => updates.map((u) => (u.id === update.id ? { ...u, value: newValue } : u)))
+      )
+
+    // Optimistic update
+    setValue(value)
+
+    const id = await resolveSavedId(update.id)
+    const { error } = id
+      ? await runMutation({
+          type: 'update',
+          table: 'key_result_updates',
+          key: keyResultKey(keyResult.goal_id, keyResult.id),
+          values: { value },
+          match: { id },
+        })
+      : { error: { message: 'The update was never saved' } }
+
+    if (error) {
+      console.error('Error editing key result update:', error)
+      setValue(update.value)
+    }
+  }
+
+  // Resolves to whether the update was deleted
+  const removeKeyResultUpdate = useCallback(async (keyResult: KeyResult, update: KeyResultUpdate): Promise<boolean> => {
+    setGoals((prev) => withKeyResultHistory(prev, keyResult.id, (updates) => updates.filter((u) => u.id !== update.id)))
+
+    const id = await resolveSavedId(update.id)
+    if (!id) return true // Its insert failed, so there is nothing to delete
+
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'key_result_updates',
+      key: keyResultKey(keyResult.goal_id, keyResult.id),
+      match: { id },
+    })
+
+    if (error) {
+      console.error('Error deleting key result update:', error)
+      fetchGoals() // Revert on error
+      return false
+    }
+    return true
+  }, [resolveSavedId, runMutation, fetchGoals])
+
+  // Re-create a deleted update with its original ID and time, so it takes its old place in the history
+  const restoreKeyResultUpdate = useCallback(async (keyResult: KeyResult, update: KeyResultUpdate): Promise<boolean> => {
+    const id = await resolveSavedId(update.id)
+    const keyResultId = await resolveSavedId(keyResult.id)
+    if (!id || !keyResultId) return false
+
+    const restored = { ...update, id, key_result_id: keyResultId }
+    setGoals((prev) =>
+      withKeyResultHistory(prev, keyResultId, (updates) => (updates.some((u) => u.id === id) ? updates : [...updates, restored]))
+    )
+
+    const { error } = await runMutation({
+      type: 'insert',
+      table: 'key_result_updates',
+      key: keyResultKey(keyResult.goal_id, keyResultId),
+      values: { ...restored },
+    })
+
+    if (error) {
+      console.error('Error restoring key result update:', error)
+      fetchGoals() // Revert on error
+      return false
+    }
+    return true
+  }, [resolveSavedId, runMutation, fetchGoals])
+
+  const handleDeleteKeyResultUpdate = async (keyResult: KeyResult, update: KeyResultUpdate) => {
+    pushAction({
+      label: `Deleted an update of "${keyResult.title}"`,
+      undo: () => restoreKeyResultUpdate(keyResult, update),
+      redo: () => removeKeyResultUpdate(keyResult, update),
+    })
+    await removeKeyResultUpdate(keyResult, update)
+  }
+
+  const removeKeyResult = useCallback(async (keyResult: KeyResult): Promise<boolean> => {
+    const withoutKeyResult = (id: string) =>
+      setGoals((prev) =>
+        prev.map((g) =>
+          g.id === keyResult.goal_id ? { ...g, key_results: (g.key_results ?? []).filter((kr) => kr.id !== id) } : g
+        )
+      )
+    withoutKeyResult(keyResult.id)
+
+    const id = await resolveSavedId(keyResult.id)
+    if (!id) return true // Its insert failed, so there is nothing to delete
+    // The insert may have swapped in the saved key result in the meantime
+    if (id !== keyResult.id) withoutKeyResult(id)
+
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'goal_key_results',
+      key: keyResultKey(keyResult.goal_id, id),
+      match: { id },
+    })
+
+    if (error) {
+      console.error('Error deleting key result:', error)
+      fetchGoals() // Revert on error
+      return false
+    }
+    return true
+  }, [resolveSavedId, runMutation, fetchGoals])
+
+  // Re-create a deleted key result with its original ID and history
+  const restoreKeyResult = useCallback(async (keyResult: KeyResult) => {
+    setGoals((prev) =>
+      prev.map((g) =>
+        g.id === keyResult.goal_id && !(g.key_results ?? []).some((kr) => kr.id === keyResult.id)
+          ? { ...g, key_results: [...(g.key_results ?? []), keyResult] }
+          : g
+      )
+    )
+    return insertKeyResults(keyResult.goal_id, [keyResult])
+  }, [insertKeyResults])
+
+  const handleDeleteKeyResult = async (keyResult: KeyResult) => {
+    pushAction({
+      label: `Deleted key result "${keyResult.title}"`,
+      undo: () => restoreKeyResult(keyResult),
+      redo: () => removeKeyResult(keyResult),
+    })
+    await removeKeyResult(keyResult)
   }
 
-  const getGoalsByType = (type: GoalType, weekStart?: string) => {
+  const getGoalsByType = (type: GoalType, periodStart?: string) => {
     return goals.filter((g) => {
       if (g.type !== type) return false
 
@@ -245,16 +909,45 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
       }
 
       if (type === 'weekly') {
-        return g.week_start === weekStart
+        return g.week_start === periodStart
+      }
+
+      if (type === 'monthly') {
+        return g.month_start === periodStart
+      }
+
+      if (type === 'daily') {
+        return g.date === periodStart
       }
 
       return true
     })
   }
 
-  // Calculate total goals and completed count for summary
-  const totalGoals = goals.length
-  const completedGoals = goals.filter(g => g.completed).length
+  // Goals with a longer horizon whose period covers the child's, longest horizon first and then most recent
+  // (including hidden horizons and other periods than the ones in view)
+  const getParentOptions = (child: GoalPeriodFields) =>
+    goals
+      .filter((g) => canBeParentGoal(g, child) && !g.review_outcome && !g.id.startsWith('temp-'))
+      .sort((a, b) =>
+        GOAL_TYPES.indexOf(b.type) - GOAL_TYPES.indexOf(a.type) ||
+        (getGoalPeriod(b)?.start ?? '').localeCompare(getGoalPeriod(a)?.start ?? '')
+      )
+
+  // Tree roots: this year's goals and this quarter's goals that don't sit under one
+  const treeRoots = goals.filter((g) =>
+    !g.review_outcome && !(g.parent_id && goalsById.has(g.parent_id)) &&
+    ((g.type === 'yearly' && g.year === year) || (g.type === 'quarterly' && g.year === year && g.quarter === quarter))
+  )
+  const unlinkedCount = goals.filter((g) =>
+    !g.review_outcome && !(g.parent_id && goalsById.has(g.parent_id)) &&
+    !isLongTermGoal(g.type) && g.year === year && g.quarter === quarter
+  ).length
+
+  // Calculate total goals and completed count for summary (hidden horizons left out)
+  const visibleGoals = goals.filter((g) => horizons.includes(g.type))
+  const totalGoals = visibleGoals.length
+  const completedGoals = visibleGoals.filter(isGoalComplete).length
 
   if (!userId) return null
 
@@ -283,135 +976,71 @@ export default function GoalsSection({ quarter, year }: GoalsSectionProps) {
       {/* Collapsible Content */}
       {isExpanded && (
         <div className="px-3 pb-3 pt-0">
-          <div className="grid grid-cols-3 gap-3">
-            {columns.map((column) => {
-              const columnGoals = getGoalsByType(column.type, column.weekStart)
-              return (
-                <div
-                  key={column.type}
-                  className="flex flex-col"
-                >
-                  {/* Column Header */}
-                  <div className="mb-2">
-                    <h3 className="font-semibold text-[var(--foreground)] text-xs">
-                      {column.title}
-                    </h3>
-                    {column.type === 'weekly' ? (
-                      <div className="flex items-center gap-1">
-                        <button
-                          onClick={() => setWeekOffset(prev => prev - 1)}
-                          className="p-0.5 hover:bg-[var(--card-bg)] rounded transition-colors"
-                        >
-                          <ChevronLeft size={12} className="text-[var(--muted)]" />
-                        </button>
-                        <p className="text-[10px] text-[var(--muted)] flex-1 text-center">{column.subtitle}</p>
-                        <button
-                          onClick={() => setWeekOffset(prev => prev + 1)}
-                          className="p-0.5 hover:bg-[var(--card-bg)] rounded transition-colors"
-                        >
-                          <ChevronRight size={12} className="text-[var(--muted)]" />
-                        </button>
-                      </div>
-                    ) : (
-                      <p className="text-[10px] text-[var(--muted)]">{column.subtitle}</p>
-                    )}
-                  </div>
-
-                  {/* Goals List */}
-                  <div className="space-y-1 min-h-[40px]">
-                    {loading ? (
-                      <div className="h-4 bg-[var(--card-border)] rounded-full animate-pulse" />
-                    ) : (
-                      <>
-                        {columnGoals.map((goal) => (
-                          <div
-                            key={goal.id}
-                            className="group flex items-start gap-1.5 p-1.5 rounded-lg hover:bg-[var(--card-bg)] transition-colors"
-                          >
-                            <button
-                              onClick={() => handleToggleGoal(goal.id)}
-                              className="shrink-0 mt-0.5 hover:scale-110 transition-transform"
-                            >
-                              {goal.completed ? (
-                                <CheckCircle2
-                                  size={14}
-                                  className="text-[var(--accent-500)]"
-                                />
-                              ) : (
-                                <Circle
-                                  size={14}
-                                  className="text-[var(--muted-light)] hover:text-[var(--accent-500)]"
-                                />
-                              )}
-                            </button>
-                            <span
-                              className={`flex-1 text-xs leading-tight ${
-                                goal.completed
-                                  ? 'text-[var(--muted-light)] line-through'
-                                  : 'text-[var(--foreground)]'
-                              }`}
-                            >
-                              {goal.title}
-                            </span>
-                            <button
-                              onClick={() => handleDeleteGoal(goal.id)}
-                              className="shrink-0 opacity-40 hover:opacity-100 transition-opacity p-0.5 hover:bg-red-500/20 rounded"
-                              title="Delete goal"
-                            >
-                              <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
-                            </button>
-                          </div>
-                        ))}
-
-                        {/* Add Goal Input or Button */}
-                        {addingTo === column.type ? (
-                          <div className="flex items-center gap-1 p-1 bg-[var(--card-bg)] rounded-lg">
-                            <input
-                              type="text"
-                              value={newGoalTitle}
-                              onChange={(e) => setNewGoalTitle(e.target.value)}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter' && newGoalTitle.trim()) {
-                                  handleAddGoal(column.type, column.weekStart)
-                                }
-                                if (e.key === 'Escape') {
-                                  setAddingTo(null)
-                                  setNewGoalTitle('')
-                                }
-                              }}
-                              placeholder="Type goal and press Enter..."
-                              autoFocus
-                              className="flex-1 bg-transparent text-xs text-[var(--foreground)] placeholder-[var(--muted-light)] outline-none py-1 px-1"
-                            />
-                            <button
-                              onClick={() => {
-                                setAddingTo(null)
-                                setNewGoalTitle('')
-                              }}
-                              className="p-1 hover:bg-red-500/20 rounded transition-colors"
-                              title="Cancel"
-                            >
-                              <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
-                            </button>
-                          </div>
-                        ) : (
-                          <button
-                            onClick={() => setAddingTo(column.type)}
-                            className="flex items-center gap-0.5 text-[10px] text-[var(--muted-light)] hover:text-[var(--accent-text)] p-1 rounded-lg transition-colors"
-                          >
-                            <Plus size={10} />
-                            Add
-                          </button>
-                        )}
-                      </>
-                    )}
-                  </div>
-                </div>
-              )
-            })}
+          {/* View switch: columns per horizon, or how long-term goals break down */}
+          <div className="flex justify-end mb-1">
+            <button
+              onClick={() => setIsTreeView(!isTreeView)}
+              className="flex items-center gap-1 text-[10px] text-[var(--muted)] hover:text-[var(--accent-text)] px-1.5 py-0.5 rounded-md hover:bg-[var(--card-bg)] transition-colors"
+            >
+              {isTreeView ? <Columns3 size={11} /> : <ListTree size={11} />}
+              {isTreeView ? 'Columns' : 'Tree'}
+            </button>
           </div>
+
+          {isTreeView ? (
+            <GoalTree
+              goals={goals}
+              roots={treeRoots}
+              unlinkedCount={unlinkedCount}
+              getProgress={(goal) => progressById.get(goal.id)}
+              isComplete={isGoalComplete}
+            />
+          ) : (
+            <GoalColumns
+              columns={columns}
+              quarter={quarter}
+              year={year}
+              habits={habits}
+              goalsById={goalsById}
+              loading={loading}
+              reviewCount={goalsToReview.length}
+              getColumnGoals={(column) => getGoalsByType(column.type, column.periodStart)}
+              getProgress={(goal) => progressById.get(goal.id)}
+              isGoalComplete={isGoalComplete}
+              canTick={canTickGoal}
+              isPending={(goal) => pendingKeys.has(goalKey(goal.id)) || !!goal.key_results?.some((kr) => pendingKeys.has(keyResultKey(goal.id, kr.id)))}
+              getParentOptions={getParentOptions}
+              getCarryCount={(goal) => getCarryCount(goal, goalsById)}
+              onOpenReview={() => setIsReviewOpen(true)}
+              onAddGoal={handleAddGoal}
+              onToggle={handleToggleGoal}
+              onDelete={handleDeleteGoal}
+              onSetParent={handleSetParentGoal}
+              onSetLink={handleSetGoalLink}
+              onAddKeyResult={handleAddKeyResult}
+              onUpdateKeyResult={handleUpdateKeyResult}
+              onEditKeyResult={handleEditKeyResult}
+              onEditKeyResultUpdate={handleEditKeyResultUpdate}
+              onDeleteKeyResultUpdate={handleDeleteKeyResultUpdate}
+              onDeleteKeyResult={handleDeleteKeyResult}
+            />
+          )}
         </div>
       )}
+
+      {/* Portalled out of the card, whose backdrop blur would clip a fixed overlay */}
+      {isReviewOpen && createPortal(
+        <WeeklyReviewModal
+          isOpen={isReviewOpen}
+          onClose={() => setIsReviewOpen(false)}
+          goals={goalsToReview}
+          getCarryCount={(goal) => getCarryCount(goal, goalsById)}
+          onCarry={(goal) => handleReviewGoal(goal, 'carried')}
+          onDrop={(goal) => handleReviewGoal(goal, 'dropped')}
+          onConvert={(goal) => handleReviewGoal(goal, 'converted')}
+        />,
+        document.body
+      )}
     </div>
   )
 }
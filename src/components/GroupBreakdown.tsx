@@ -0,0 +1,43 @@
+'use client'
+
+import { GroupScore } from '@/lib/habitScoring'
+
+interface GroupBreakdownProps {
+  groups: GroupScore[]
+}
+
+// Per-group progress bars for the monthly and quarterly comparisons
+export default function GroupBreakdown({ groups }: GroupBreakdownProps) {
+  if (groups.length === 0) return null
+
+  return (
+    <div className="border-t border-[var(--card-border)] pt-3 mb-3">
+      <p className="text-xs text-[var(--muted)] text-center mb-2">
+        Per Group:
+      </p>
+      <div className="space-y-2">
+        {groups.map((group) => (
+          <div key={group.groupName} className="flex items-center gap-2">
+            <span className="text-[10px] font-medium text-[var(--foreground)] truncate flex-1" title={group.groupName}>
+              {group.groupName}
+            </span>
+            <div className="w-16 h-3 bg-[var(--card-border)]/50 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${
+                  group.percentage >= 80 ? 'bg-emerald-500' :
+                  group.percentage >= 60 ? 'bg-amber-500' :
+                  group.percentage >= 40 ? 'bg-blue-500' :
+                  'bg-gray-400'
+                }`}
+                style={{ width: `${group.percentage}%` }}
+              />
+            </div>
+            <span className="text-[9px] text-[var(--muted)] w-12 text-right">
+              {group.percentage}%
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
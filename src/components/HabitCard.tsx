@@ -1,19 +1,53 @@
 'use client'
 
 import { useMemo, memo, useState, useRef, useEffect } from 'react'
-import { Trash2, Edit2, Check, MessageSquare } from 'lucide-react'
-import { HabitWithEntries, HabitEntry, Quarter, getQuarterDates } from '@/types/database'
+import { Archive, Edit2, Check, MessageSquare, CloudOff, Trophy, Pause } from 'lucide-react'
+import { HabitWithEntries, HabitEntry, HabitStatus, Quarter, getQuarterDates } from '@/types/database'
+import { getEntryCompletion, isScheduledDay, isPausedOn, canSkipOnDate, getHabitStartDate, hasFlexibleFrequency } from '@/lib/weeklyCalculations'
+import { scoreHabit, getScorePercentage, getDailyStreak, getPeriodStreak } from '@/lib/habitScoring'
+import { getFrequencyPeriod, formatInterval } from '@/lib/habitFrequency'
+import { getDueStatus, DueState } from '@/lib/habitDueStatus'
+import { getCustomStatus } from '@/lib/customStatuses'
 import HabitGrid from './HabitGrid'
-import { format, eachDayOfInterval, subDays, parseISO, startOfWeek, endOfWeek, addDays } from 'date-fns'
+import { format, eachDayOfInterval, parseISO, startOfWeek, addDays } from 'date-fns'
+
+const SCHEDULE_DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+// Due status colors for monthly and interval habits
+const DUE_STATE_CLASSES: Record<DueState, string> = {
+  done: 'text-[var(--accent-text)]',
+  upcoming: 'text-[var(--muted)]',
+  due: 'text-amber-500',
+  overdue: 'text-red-400',
+}
+
+// Circumference of the check-in progress ring (r = 10.5)
+const RING_CIRCUMFERENCE = 2 * Math.PI * 10.5
+
+// e.g. "Mon/Wed/Fri" - Monday first to match the week row
+function formatSchedule(days: number[]): string {
+  return [...days]
+    .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+    .map((d) => SCHEDULE_DAY_LABELS[d])
+    .join('/')
+}
 
 interface HabitCardProps {
   habit: HabitWithEntries
   quarter: Quarter
   year: number
+  today?: string // Owner's date key for today, defaults to the browser's date
   onDayClick?: (habitId: string, date: string) => void
   onNoteUpdate?: (habitId: string, date: string, note: string | null) => void
+  onValueUpdate?: (habitId: string, date: string, value: number | null) => void
+  onRestDayToggle?: (habitId: string, date: string) => void
+  onCheckin?: (habitId: string, date: string) => void
+  onRemoveCheckin?: (habitId: string, date: string) => void
+  onDayOpen?: (habitId: string, date: string) => void
+  onRecordsOpen?: (habitId: string) => void
   onEdit?: (habit: HabitWithEntries) => void
-  onDelete?: (habitId: string) => void
+  onArchive?: (habitId: string) => void
+  isPending?: boolean
   readonly?: boolean
 }
 
@@ -25,31 +59,81 @@ function DayButton({
   color,
   isToday,
   canSkip,
+  isScheduled,
+  isInactive,
+  isPaused,
+  isBreak,
+  isClean,
+  completion,
+  unitLabel,
+  counterTarget,
+  customStatus,
   onClick,
+  onLongPress,
 }: {
   date: string
   label: string
   entry?: HabitEntry
+  customStatus?: HabitStatus
   color: string
   isToday: boolean
   canSkip: boolean
+  isScheduled: boolean
+  isInactive: boolean
+  isPaused: boolean
+  isBreak: boolean
+  isClean: boolean
+  completion: number
+  unitLabel?: string
+  counterTarget?: number // Check-ins per day for counter habits
   onClick: (date: string) => void
+  onLongPress?: (date: string) => void
 }) {
   const [isAnimating, setIsAnimating] = useState(false)
-  const isDone = entry?.status === 'done'
-  const isSkipped = entry?.status === 'skipped'
-  const isMissed = entry?.status === 'missed'
+  const longPressTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const didLongPress = useRef(false)
+  // Custom statuses replace the built-in look with their own colour and icon
+  const isDone = !customStatus && entry?.status === 'done'
+  const isPartial = isDone && completion < 1
+  const isSkipped = !customStatus && entry?.status === 'skipped'
+  const isMissed = !customStatus && entry?.status === 'missed'
   const hasNote = !!entry?.note
+  const isCounter = counterTarget !== undefined
+  const count = isDone ? entry?.value ?? 0 : 0
 
   const handleClick = () => {
+    // The click that ends a long press doesn't count as a tap
+    if (didLongPress.current) {
+      didLongPress.current = false
+      return
+    }
     setIsAnimating(true)
     onClick(date)
     setTimeout(() => setIsAnimating(false), 300)
   }
 
+  // Holding the button fires onLongPress (e.g. remove the last check-in)
+  const startLongPress = () => {
+    if (!onLongPress) return
+    didLongPress.current = false
+    longPressTimer.current = setTimeout(() => {
+      didLongPress.current = true
+      onLongPress(date)
+    }, 500)
+  }
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current) clearTimeout(longPressTimer.current)
+    longPressTimer.current = null
+  }
+
   // Determine background and border colors
   const getColors = () => {
+    if (customStatus) return { bg: customStatus.color, border: customStatus.color }
+    if (isPartial && isCounter) return { bg: undefined, border: 'transparent' }
+    if (isPartial) return { bg: undefined, border: color }
     if (isDone) return { bg: color, border: color }
+    if (isClean) return { bg: `${color}66`, border: color }
     if (isSkipped) return { bg: '#9ca3af', border: '#9ca3af' } // gray-400 (rest day)
     if (isMissed) return { bg: '#ef4444', border: '#ef4444' } // red-500
     return { bg: undefined, border: undefined }
@@ -59,6 +143,23 @@ function DayButton({
   // Get tooltip text based on whether skipping is allowed
   const getTooltip = () => {
     const dayLabel = isToday ? 'Today' : label
+    if (customStatus) return `${dayLabel} - ${customStatus.label} (click to change)`
+    if (isBreak) {
+      if (isMissed) return `${dayLabel} - relapse (click to clear)`
+      return isClean
+        ? `${dayLabel} - clean (click to log relapse)`
+        : `${dayLabel} - click to log relapse`
+    }
+    if (isCounter) {
+      return `${dayLabel} - ${count}/${counterTarget} ${unitLabel} (click to check in, hold to remove one)`
+    }
+    if (unitLabel) {
+      if (isSkipped) return `${dayLabel} - rest day (click to change)`
+      if (entry?.value !== null && entry?.value !== undefined) {
+        return `${dayLabel} - ${entry.value} ${unitLabel} (click to edit)`
+      }
+      return `${dayLabel} - click to log ${unitLabel}`
+    }
     if (isDone) {
       return canSkip
         ? `${dayLabel} - done (click for rest day)`
@@ -69,6 +170,36 @@ function DayButton({
     return `${dayLabel} - click to mark done`
   }
 
+  // Unscheduled days, and days before the habit started or after it ended, are shown but can't be tracked
+  if (!isScheduled || isInactive) {
+    return (
+      <div className="flex flex-col items-center gap-0.5 opacity-40">
+        <span className="text-[9px] font-semibold text-[var(--muted-light)]">
+          {label}
+        </span>
+        <div
+          className="w-6 h-6 rounded-full border border-dashed border-[var(--muted-light)]/40"
+          title={`${isToday ? 'Today' : label} - ${isInactive ? 'not active' : 'not scheduled'}`}
+        />
+      </div>
+    )
+  }
+
+  // Paused days are frozen - shown but can't be tracked
+  if (isPaused) {
+    return (
+      <div className="flex flex-col items-center gap-0.5">
+        <span className="text-[9px] font-semibold text-[var(--muted-light)]">
+          {label}
+        </span>
+        <div
+          className="w-6 h-6 rounded-full border border-[var(--muted-light)]/40 paused-day"
+          title={`${isToday ? 'Today' : label} - paused`}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className="group flex flex-col items-center gap-0.5">
       {/* Day label */}
@@ -79,6 +210,10 @@ function DayButton({
       {/* Clickable circle */}
       <button
         onClick={handleClick}
+        onPointerDown={startLongPress}
+        onPointerUp={cancelLongPress}
+        onPointerLeave={cancelLongPress}
+        onContextMenu={(e) => onLongPress && e.preventDefault()}
         className="relative"
         title={getTooltip()}
       >
@@ -87,7 +222,7 @@ function DayButton({
             relative w-6 h-6 rounded-full flex items-center justify-center
             transition-all duration-200 ease-out cursor-pointer
             ${isAnimating ? 'scale-90' : 'scale-100 hover:scale-110'}
-            ${isDone || isSkipped || isMissed
+            ${isDone || isSkipped || isMissed || isClean || customStatus
               ? 'shadow-sm'
               : 'border-2 border-[var(--muted-light)]/30 group-hover:border-[var(--accent-400)] bg-[var(--muted-light)]/10 group-hover:bg-[var(--accent-bg)]'
             }
@@ -95,9 +230,34 @@ function DayButton({
           style={{
             backgroundColor: colors.bg,
             borderColor: colors.border,
+            // Partial progress fills the circle like a pie toward the daily target
+            backgroundImage: isPartial && !isCounter
+              ? `conic-gradient(${color} ${completion * 360}deg, ${color}33 0deg)`
+              : undefined,
           }}
         >
-          {isDone && (
+          {/* Counter habits fill a ring toward the daily count */}
+          {isPartial && isCounter && (
+            <svg className="absolute inset-0 -rotate-90" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="10.5" fill="none" stroke={color} strokeOpacity={0.2} strokeWidth="3" />
+              <circle
+                cx="12"
+                cy="12"
+                r="10.5"
+                fill="none"
+                stroke={color}
+                strokeWidth="3"
+                strokeLinecap="round"
+                strokeDasharray={`${completion * RING_CIRCUMFERENCE} ${RING_CIRCUMFERENCE}`}
+              />
+            </svg>
+          )}
+          {isPartial && (
+            <span className={`relative text-[8px] font-bold ${isCounter ? 'text-[var(--foreground)]' : 'text-white drop-shadow-sm'}`}>
+              {isCounter ? count : Math.round(completion * 100)}
+            </span>
+          )}
+          {(isClean || (isDone && !isPartial)) && (
             <Check
               size={12}
               className={`text-white transition-all duration-200 ${isAnimating ? 'scale-125' : 'scale-100'}`}
@@ -110,9 +270,12 @@ function DayButton({
           {isMissed && (
             <span className="text-white text-[10px] font-bold">✕</span>
           )}
+          {customStatus && (
+            <span className="text-white text-[10px] font-bold leading-none">{customStatus.icon}</span>
+          )}
 
           {/* Ripple effect */}
-          {isAnimating && !isDone && !isSkipped && !isMissed && (
+          {isAnimating && !isDone && !isSkipped && !isMissed && !isClean && !customStatus && (
             <div
               className="absolute inset-0 rounded-full animate-ping opacity-30"
               style={{ backgroundColor: color }}
@@ -134,23 +297,24 @@ function DayButton({
 
 // Full week row showing all 7 days (Monday to Sunday)
 function FullWeekRow({
-  entries,
-  color,
-  targetPerWeek,
+  habit,
+  todayStr,
   onDayClick,
+  onDayLongPress,
 }: {
-  entries: HabitEntry[]
-  color: string
-  targetPerWeek: number
+  habit: HabitWithEntries
+  todayStr: string
   onDayClick: (date: string) => void
+  onDayLongPress?: (date: string) => void
 }) {
-  const allowedRestDays = 7 - targetPerWeek
+  const { entries, color } = habit
+  const isBreak = habit.kind === 'break'
+  const startDate = getHabitStartDate(habit)
+  const endDate = habit.end_date
   const dayLabels = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']
 
   const weekDays = useMemo(() => {
-    const today = new Date()
-    const todayStr = format(today, 'yyyy-MM-dd')
-    const weekStart = startOfWeek(today, { weekStartsOn: 1 })
+    const weekStart = startOfWeek(parseISO(todayStr), { weekStartsOn: 1 })
 
     return dayLabels.map((label, index) => {
       const date = addDays(weekStart, index)
@@ -162,23 +326,10 @@ function FullWeekRow({
         isToday: dateStr === todayStr,
       }
     })
-  }, [])
+  }, [todayStr])
 
   const getEntry = (date: string) => entries.find(e => e.date === date)
 
-  const canSkipForDate = (dateStr: string) => {
-    if (allowedRestDays <= 0) return false
-    const weekStartStr = weekDays[0].date
-    const weekEndStr = weekDays[6].date
-    const skippedInWeek = entries.filter(e =>
-      e.status === 'skipped' &&
-      e.date >= weekStartStr &&
-      e.date <= weekEndStr &&
-      e.date !== dateStr
-    ).length
-    return skippedInWeek < allowedRestDays
-  }
-
   return (
     <div className="flex items-center justify-between gap-1">
       {weekDays.map((day) => (
@@ -187,10 +338,20 @@ function FullWeekRow({
           date={day.date}
           label={day.label}
           entry={getEntry(day.date)}
+          customStatus={getCustomStatus(habit, getEntry(day.date))}
           color={color}
           isToday={day.isToday}
-          canSkip={canSkipForDate(day.date)}
+          canSkip={canSkipOnDate(habit, day.date)}
+          isScheduled={isScheduledDay(habit, day.dateObj)}
+          isInactive={day.date < startDate || (!!endDate && day.date > endDate)}
+          isPaused={isPausedOn(habit, day.date)}
+          isBreak={isBreak}
+          isClean={isBreak && day.date >= startDate && day.date <= todayStr && !getEntry(day.date)}
+          completion={getEntryCompletion(getEntry(day.date), habit)}
+          unitLabel={habit.target_value ? habit.unit || (habit.is_counter ? 'times' : 'units') : undefined}
+          counterTarget={habit.is_counter && habit.target_value ? habit.target_value : undefined}
           onClick={onDayClick}
+          onLongPress={onDayLongPress}
         />
       ))}
     </div>
@@ -202,18 +363,30 @@ const HabitCard = memo(function HabitCard({
   habit,
   quarter,
   year,
+  today: todayStr = format(new Date(), 'yyyy-MM-dd'),
   onDayClick,
   onNoteUpdate,
+  onValueUpdate,
+  onRestDayToggle,
+  onCheckin,
+  onRemoveCheckin,
+  onDayOpen,
+  onRecordsOpen,
   onEdit,
-  onDelete,
+  onArchive,
+  isPending = false,
   readonly = false,
 }: HabitCardProps) {
   const [isEditingNote, setIsEditingNote] = useState(false)
   const [noteText, setNoteText] = useState('')
   const noteInputRef = useRef<HTMLInputElement>(null)
+  const [editingValueDate, setEditingValueDate] = useState<string | null>(null)
+  const [valueText, setValueText] = useState('')
+  const isBreak = habit.kind === 'break'
+  const isCounter = !isBreak && habit.is_counter && !!habit.target_value
+  const isMeasured = !isBreak && !!habit.target_value && !isCounter
 
   // Get today's entry
-  const todayStr = format(new Date(), 'yyyy-MM-dd')
   const todayEntry = useMemo(() => {
     return habit.entries.find(e => e.date === todayStr)
   }, [habit.entries, todayStr])
@@ -240,94 +413,98 @@ const HabitCard = memo(function HabitCard({
     setIsEditingNote(false)
   }
 
-  // Calculate weekly score (completed this week vs target)
-  const weeklyScore = useMemo(() => {
-    const today = new Date()
-    const weekStart = startOfWeek(today, { weekStartsOn: 1 }) // Monday
-    const weekEnd = endOfWeek(today, { weekStartsOn: 1 }) // Sunday
-    const weekStartStr = format(weekStart, 'yyyy-MM-dd')
-    const weekEndStr = format(weekEnd, 'yyyy-MM-dd')
+  // Measured habits log a value instead of cycling through statuses
+  const handleDayClick = (date: string) => {
+    if (isCounter) {
+      onCheckin?.(habit.id, date)
+      return
+    }
+    if (!isMeasured) {
+      onDayClick?.(habit.id, date)
+      return
+    }
+    const entry = habit.entries.find(e => e.date === date)
+    setValueText(entry?.value !== null && entry?.value !== undefined ? String(entry.value) : '')
+    setEditingValueDate(date)
+  }
 
-    const completedThisWeek = habit.entries.filter(
-      (e) => e.status === 'done' &&
-             e.date >= weekStartStr &&
-             e.date <= weekEndStr
-    ).length
+  const editingEntry = editingValueDate ? habit.entries.find(e => e.date === editingValueDate) : undefined
+  const isEditingRestDay = editingEntry?.status === 'skipped' && !editingEntry.status_id
+
+  // Save logged value (empty input clears the day)
+  const handleSaveValue = () => {
+    if (onValueUpdate && editingValueDate) {
+      const trimmed = valueText.trim()
+      const parsed = parseFloat(trimmed)
+      if (trimmed === '') {
+        onValueUpdate(habit.id, editingValueDate, null)
+      } else if (!isNaN(parsed) && parsed >= 0) {
+        onValueUpdate(habit.id, editingValueDate, parsed)
+      }
+    }
+    setEditingValueDate(null)
+  }
 
-    const target = habit.target_per_week ?? 7
+  // Pause covering today, if any
+  const currentPause = useMemo(
+    () => habit.pauses?.find(p => todayStr >= p.start_date && todayStr <= p.end_date),
+    [habit.pauses, todayStr]
+  )
+
+  // Calculate the score for the current week, month or interval (completed vs target)
+  const periodScore = useMemo(() => {
+    const period = getFrequencyPeriod(habit, parseISO(todayStr))
+
+    // Rest days are neutral, and a period the habit started partway through has a prorated target
+    const { completed, expected } = scoreHabit(
+      habit,
+      eachDayOfInterval({ start: parseISO(period.start), end: parseISO(period.end) }),
+      todayStr
+    )
 
     return {
-      completed: completedThisWeek,
-      target,
-      isComplete: completedThisWeek >= target,
-    }
-  }, [habit.entries, habit.target_per_week])
-
-  // Calculate streak (consecutive days ending today or yesterday)
-  const streak = useMemo(() => {
-    const today = new Date()
-    const todayStr = format(today, 'yyyy-MM-dd')
-    const yesterdayStr = format(subDays(today, 1), 'yyyy-MM-dd')
-
-    // Sort entries by date descending
-    const sortedDoneEntries = habit.entries
-      .filter((e) => e.status === 'done')
-      .map((e) => e.date)
-      .sort((a, b) => b.localeCompare(a))
-
-    if (sortedDoneEntries.length === 0) return 0
-
-    // Check if streak is active (completed today or yesterday)
-    const lastDate = sortedDoneEntries[0]
-    if (lastDate !== todayStr && lastDate !== yesterdayStr) return 0
-
-    let count = 1
-    let currentDate = parseISO(lastDate)
-
-    for (let i = 1; i < sortedDoneEntries.length; i++) {
-      const expectedPrev = format(subDays(currentDate, 1), 'yyyy-MM-dd')
-      if (sortedDoneEntries[i] === expectedPrev) {
-        count++
-        currentDate = parseISO(sortedDoneEntries[i])
-      } else {
-        break
-      }
+      label: habit.frequency_type === 'monthly' ? 'This month'
+        : habit.frequency_type === 'interval'
+          ? `${format(parseISO(period.start), 'MMM d')} – ${format(parseISO(period.end), 'MMM d')}`
+          : 'This week',
+      completed,
+      target: expected,
+      isComplete: expected > 0 && completed >= expected,
+      percentage: getScorePercentage({ completed, expected }),
     }
+  }, [habit, todayStr])
 
-    return count
-  }, [habit.entries])
+  // When a monthly or interval habit is next due
+  const dueStatus = useMemo(() => getDueStatus(habit, todayStr), [habit, todayStr])
+
+  // Daily streak steps over allowed rest days; break habits count clean days since the last relapse
+  // (monthly and interval habits aren't due daily, so they only keep a period streak)
+  const streak = useMemo(
+    () => (hasFlexibleFrequency(habit) ? 0 : getDailyStreak([habit], todayStr)),
+    [habit, todayStr]
+  )
+
+  // Consecutive weeks (or months, or intervals) the target was met
+  const periodStreak = useMemo(() => getPeriodStreak(habit, todayStr), [habit, todayStr])
 
   const stats = useMemo(() => {
     const { start, end } = getQuarterDates(year, quarter)
-    const today = new Date()
+    const today = parseISO(todayStr)
     const effectiveEnd = end > today ? today : end
 
     if (start > today) {
       return { completed: 0, total: 0, percentage: 0 }
     }
 
-    const daysInRange = eachDayOfInterval({
-      start,
-      end: effectiveEnd
-    })
-
-    const completed = habit.entries.filter(
-      (e) => e.status === 'done' &&
-             e.date >= format(start, 'yyyy-MM-dd') &&
-             e.date <= format(effectiveEnd, 'yyyy-MM-dd')
-    ).length
+    // Measured against the weekly target, prorated for the part of the quarter so far
+    const score = scoreHabit(habit, eachDayOfInterval({ start, end: effectiveEnd }))
 
     return {
-      completed,
-      total: daysInRange.length,
-      percentage: daysInRange.length > 0
-        ? Math.round((completed / daysInRange.length) * 100)
-        : 0,
+      completed: score.completed,
+      total: score.expected,
+      percentage: getScorePercentage(score),
     }
-  }, [habit.entries, quarter, year])
-
-  // Calculate weekly completion percentage
-  const weeklyPercentage = Math.round((weeklyScore.completed / weeklyScore.target) * 100)
+  }, [habit, quarter, year, todayStr])
 
   return (
     <div className="glass-card p-3 transition-all hover:scale-[1.005]">
@@ -341,9 +518,41 @@ const HabitCard = memo(function HabitCard({
           <h3 className="font-medium text-[var(--foreground)] text-sm truncate">
             {habit.name}
           </h3>
+          {isPending && (
+            <span title="Changes waiting to sync">
+              <CloudOff size={12} className="text-[var(--muted-light)] flex-shrink-0" />
+            </span>
+          )}
+          {habit.end_date && habit.end_date < todayStr ? (
+            <span className="text-[10px] text-[var(--muted)] flex-shrink-0">
+              Ended {format(parseISO(habit.end_date), 'MMM d')}
+            </span>
+          ) : getHabitStartDate(habit) > todayStr && (
+            <span className="text-[10px] text-[var(--muted)] flex-shrink-0">
+              Starts {format(parseISO(getHabitStartDate(habit)), 'MMM d')}
+            </span>
+          )}
+          {currentPause && (
+            <span
+              className="flex items-center gap-0.5 text-[10px] text-[var(--muted)] flex-shrink-0"
+              title={currentPause.reason || 'Paused'}
+            >
+              <Pause size={10} />
+              until {format(parseISO(currentPause.end_date), 'MMM d')}
+            </span>
+          )}
         </div>
         <span className="text-[10px] text-[var(--muted)] flex-shrink-0">
-          {habit.target_per_week ?? 7}x/week
+          {(isMeasured || isCounter) && `${habit.target_value} ${habit.unit || (isCounter ? 'times' : '')} · `}
+          {isBreak
+            ? 'Breaking'
+            : habit.schedule_days && habit.schedule_days.length > 0
+              ? formatSchedule(habit.schedule_days)
+              : habit.frequency_type === 'monthly'
+                ? `${habit.target_per_month ?? 1}x/month`
+                : habit.frequency_type === 'interval'
+                  ? formatInterval(habit.interval_days ?? 1)
+                  : `${habit.target_per_week ?? 7}x/week`}
         </span>
       </div>
 
@@ -353,10 +562,10 @@ const HabitCard = memo(function HabitCard({
           {/* Week row */}
           <div className="flex-1">
             <FullWeekRow
-              entries={habit.entries}
-              color={habit.color}
-              targetPerWeek={habit.target_per_week ?? 7}
-              onDayClick={(date) => onDayClick(habit.id, date)}
+              habit={habit}
+              todayStr={todayStr}
+              onDayClick={handleDayClick}
+              onDayLongPress={isCounter && onRemoveCheckin ? (date) => onRemoveCheckin(habit.id, date) : undefined}
             />
           </div>
 
@@ -364,23 +573,77 @@ const HabitCard = memo(function HabitCard({
           <div
             className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0"
             style={{
-              backgroundColor: weeklyScore.isComplete ? habit.color : 'var(--muted-light)',
-              opacity: weeklyScore.isComplete ? 1 : 0.2,
+              backgroundColor: periodScore.isComplete ? habit.color : 'var(--muted-light)',
+              opacity: periodScore.isComplete ? 1 : 0.2,
             }}
-            title={`This week: ${weeklyScore.completed}/${weeklyScore.target}`}
+            title={`${periodScore.label}: ${periodScore.completed}/${periodScore.target}`}
           >
-            <span className={`text-xs font-bold ${weeklyScore.isComplete ? 'text-white' : 'text-[var(--foreground)]'}`}>
-              {weeklyPercentage}%
+            <span className={`text-xs font-bold ${periodScore.isComplete ? 'text-white' : 'text-[var(--foreground)]'}`}>
+              {periodScore.percentage}%
             </span>
           </div>
         </div>
       )}
 
+      {/* Value input for measured habits */}
+      {!readonly && editingValueDate && (
+        <div className="flex items-center gap-2 mb-3 text-xs">
+          <span className="text-[var(--muted)] flex-shrink-0">
+            {editingValueDate === todayStr ? 'Today' : format(parseISO(editingValueDate), 'EEE, MMM d')}
+          </span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={valueText}
+            onChange={(e) => setValueText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSaveValue()
+              if (e.key === 'Escape') setEditingValueDate(null)
+            }}
+            onBlur={handleSaveValue}
+            autoFocus
+            className="w-16 px-2 py-1 rounded-lg bg-[var(--card-bg)] border border-[var(--card-border)] focus:border-[var(--accent-400)] focus:outline-none text-[var(--foreground)]"
+          />
+          <span className="text-[var(--muted)] truncate">
+            / {habit.target_value} {habit.unit}
+          </span>
+          {onRestDayToggle && (isEditingRestDay || canSkipOnDate(habit, editingValueDate)) && (
+            <button
+              // Keep the input focused so its blur doesn't save the value first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onRestDayToggle(habit.id, editingValueDate)
+                setEditingValueDate(null)
+              }}
+              className="ml-auto flex-shrink-0 px-2 py-1 rounded-lg text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--accent-bg)] transition-colors"
+            >
+              {isEditingRestDay ? 'Clear rest day' : 'Rest day'}
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Stats row - minimal */}
       <div className="flex items-center gap-2 mb-2 text-[10px]">
+        {dueStatus && (
+          <span className={`font-medium ${DUE_STATE_CLASSES[dueStatus.state]}`} title={dueStatus.detail}>
+            {dueStatus.label}
+          </span>
+        )}
         {streak > 0 && (
           <span className="text-[var(--accent-text)]">
-            {streak}d streak
+            {streak}d {isBreak ? 'clean' : 'streak'}
+          </span>
+        )}
+        {periodStreak > 0 && (
+          <span
+            className="text-[var(--accent-text)]"
+            title={habit.frequency_type === 'monthly' ? 'Months in a row the monthly target was met'
+              : habit.frequency_type === 'interval' ? 'Intervals in a row the habit was done'
+              : 'Weeks in a row the weekly target was met'}
+          >
+            {periodStreak}{habit.frequency_type === 'monthly' ? 'mo' : habit.frequency_type === 'interval' ? '×' : 'w'}
           </span>
         )}
         <span className="text-[var(--muted)]">
@@ -391,16 +654,16 @@ const HabitCard = memo(function HabitCard({
       {/* Calendar Grid */}
       <div className="mb-2">
         <HabitGrid
-          entries={habit.entries}
-          color={habit.color}
+          habit={habit}
           quarter={quarter}
           year={year}
-          onDayClick={readonly ? undefined : (date) => onDayClick?.(habit.id, date)}
+          today={todayStr}
+          onDayClick={readonly ? undefined : onDayOpen ? (date) => onDayOpen(habit.id, date) : handleDayClick}
           readonly={readonly}
         />
       </div>
 
-      {/* Footer: Note input + Edit/Delete buttons */}
+      {/* Footer: Note input + Edit/Archive buttons */}
       {!readonly && (
         <div className="pt-2 border-t border-[var(--card-border)]">
           {/* Note section - show if today has any entry (done or missed) */}
@@ -447,8 +710,15 @@ const HabitCard = memo(function HabitCard({
             </div>
           )}
 
-          {/* Edit/Delete Buttons */}
+          {/* Records/Edit/Archive Buttons */}
           <div className="flex items-center justify-end gap-1">
+            <button
+              onClick={() => onRecordsOpen?.(habit.id)}
+              className="pill-button p-1.5 text-[var(--muted-light)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+              title="Personal records"
+            >
+              <Trophy size={12} />
+            </button>
             <button
               onClick={() => onEdit?.(habit)}
               className="pill-button p-1.5 text-[var(--muted-light)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
@@ -457,11 +727,11 @@ const HabitCard = memo(function HabitCard({
               <Edit2 size={12} />
             </button>
             <button
-              onClick={() => onDelete?.(habit.id)}
-              className="pill-button p-1.5 text-[var(--muted-light)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
-              title="Delete habit"
+              onClick={() => onArchive?.(habit.id)}
+              className="pill-button p-1.5 text-[var(--muted-light)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+              title="Archive habit"
             >
-              <Trash2 size={12} />
+              <Archive size={12} />
             </button>
           </div>
         </div>
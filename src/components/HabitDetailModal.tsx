@@ -0,0 +1,99 @@
+'use client'
+
+import { X, Trophy } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+import { getHabitRecords, PeriodRecord } from '@/lib/habitRecords'
+import { getDailyStreak, getPeriodStreak } from '@/lib/habitScoring'
+import { getHabitStartDate, hasFlexibleFrequency } from '@/lib/weeklyCalculations'
+
+interface HabitDetailModalProps {
+  isOpen: boolean
+  onClose: () => void
+  habit: HabitWithEntries | null
+  today: string
+}
+
+// Shown for a record, e.g. "Week of Mar 3"
+function formatPeriod(record: PeriodRecord | null, pattern: string): string {
+  return record ? format(parseISO(record.start), pattern) : '—'
+}
+
+export default function HabitDetailModal({ isOpen, onClose, habit, today }: HabitDetailModalProps) {
+  if (!isOpen || !habit) return null
+
+  const records = getHabitRecords(habit, today)
+  const periodStreak = getPeriodStreak(habit, today)
+  const periodName = habit.frequency_type === 'monthly' ? 'month' : habit.frequency_type === 'interval' ? 'interval' : 'week'
+  const periodStreakLabel = `${periodStreak} ${periodName}${periodStreak === 1 ? '' : 's'}`
+  const isBreak = habit.kind === 'break'
+
+  // Monthly and interval habits aren't due daily, so like the habit card they only keep a period streak
+  const currentStreak = hasFlexibleFrequency(habit)
+    ? { label: 'Current streak', value: periodStreakLabel, detail: 'On target in a row' }
+    : { label: isBreak ? 'Current clean run' : 'Current streak', value: `${getDailyStreak([habit], today)}d`, detail: `${periodStreakLabel} on target` }
+
+  const stats = [
+    currentStreak,
+    { label: 'Longest streak', value: `${records.longestStreak}d`, detail: `${records.streaks.length} streak${records.streaks.length === 1 ? '' : 's'} so far` },
+    { label: 'Best week', value: records.bestWeek?.completed ?? 0, detail: formatPeriod(records.bestWeek, "'Week of' MMM d, yyyy") },
+    { label: 'Best month', value: records.bestMonth?.completed ?? 0, detail: formatPeriod(records.bestMonth, 'MMMM yyyy') },
+    { label: 'Best quarter', value: records.bestQuarter?.completed ?? 0, detail: formatPeriod(records.bestQuarter, 'QQQ yyyy') },
+    { label: isBreak ? 'Clean days' : 'Total completions', value: records.totalCompletions, detail: `Since ${format(parseISO(getHabitStartDate(habit)), 'MMM d, yyyy')}` },
+  ]
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={onClose}
+      />
+      <div className="relative glass-card p-6 w-full max-w-md animate-slideUp max-h-[85vh] overflow-y-auto">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <div className="flex items-center gap-2 mb-1">
+          <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: habit.color }} />
+          <h2 className="text-lg font-bold text-[var(--foreground)] truncate">{habit.name}</h2>
+        </div>
+        <p className="text-[var(--muted)] text-sm mb-5">Personal records</p>
+
+        {/* Records */}
+        <div className="grid grid-cols-2 gap-2 mb-5">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl p-3">
+              <div className="text-[10px] font-medium text-[var(--muted)] uppercase tracking-wide">{stat.label}</div>
+              <div className="text-xl font-bold" style={{ color: habit.color }}>{stat.value}</div>
+              <div className="text-[10px] text-[var(--muted-light)] truncate">{stat.detail}</div>
+            </div>
+          ))}
+        </div>
+
+        {/* Streak history */}
+        <h3 className="text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">Streak history</h3>
+        {records.streaks.length === 0 ? (
+          <p className="text-sm text-[var(--muted-light)]">No streaks yet</p>
+        ) : (
+          <div className="space-y-1">
+            {records.streaks.map((run) => (
+              <div key={run.start} className="flex items-center justify-between gap-2 text-sm">
+                <span className="text-[var(--foreground)]">
+                  {format(parseISO(run.start), 'MMM d, yyyy')}
+                  {run.end !== run.start && ` – ${format(parseISO(run.end), 'MMM d, yyyy')}`}
+                </span>
+                <span className="flex items-center gap-1 text-[var(--muted)] flex-shrink-0">
+                  {run.length === records.longestStreak && <Trophy size={12} className="text-amber-500" />}
+                  {run.length}d
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -2,13 +2,15 @@
 
 import { useMemo, memo } from 'react'
 import { format, eachDayOfInterval, startOfMonth, endOfMonth, getDay, addMonths } from 'date-fns'
-import { HabitEntry, Quarter, getQuarterDates } from '@/types/database'
+import { HabitEntry, HabitWithEntries, Quarter, getQuarterDates } from '@/types/database'
+import { getEntryCompletion, isScheduledDay, isPausedOn, getHabitStartDate } from '@/lib/weeklyCalculations'
+import { getCustomStatus } from '@/lib/customStatuses'
 
 interface HabitGridProps {
-  entries: HabitEntry[]
-  color: string
+  habit: HabitWithEntries
   quarter: Quarter
   year: number
+  today?: string // Owner's date key for today
   onDayClick?: (date: string) => void
   readonly?: boolean
 }
@@ -17,19 +19,20 @@ const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Se
 
 // Memoized to prevent expensive re-renders of calendar grid
 const HabitGrid = memo(function HabitGrid({
-  entries,
-  color,
+  habit,
   quarter,
   year,
+  today = format(new Date(), 'yyyy-MM-dd'),
   onDayClick,
   readonly = false,
 }: HabitGridProps) {
+  const { color } = habit
   const { months, entryMap } = useMemo(() => {
     const { start, end } = getQuarterDates(year, quarter)
 
     // Create entry map for quick lookup
     const entryMap = new Map<string, HabitEntry>()
-    entries.forEach((entry) => {
+    habit.entries.forEach((entry) => {
       entryMap.set(entry.date, entry)
     })
 
@@ -76,10 +79,12 @@ const HabitGrid = memo(function HabitGrid({
     }
 
     return { months, entryMap }
-  }, [entries, quarter, year])
+  }, [habit.entries, quarter, year])
 
-  const today = format(new Date(), 'yyyy-MM-dd')
   const { start: quarterStart, end: quarterEnd } = getQuarterDates(year, quarter)
+  const isBreak = habit.kind === 'break'
+  const startDate = getHabitStartDate(habit)
+  const endDate = habit.end_date
 
   return (
     <div className="w-full">
@@ -108,25 +113,53 @@ const HabitGrid = memo(function HabitGrid({
 
                     const dateStr = format(day, 'yyyy-MM-dd')
                     const entry = entryMap.get(dateStr)
+                    const customStatus = getCustomStatus(habit, entry)
                     const isToday = dateStr === today
                     const isFuture = dateStr > today
                     const isInQuarter = dateStr >= format(quarterStart, 'yyyy-MM-dd') &&
                                        dateStr <= format(quarterEnd, 'yyyy-MM-dd')
+                    const isScheduled = isScheduledDay(habit, day)
+                    const isPaused = isPausedOn(habit, dateStr)
+                    // Before the habit started or after it ended
+                    const isInactive = dateStr < startDate || (!!endDate && dateStr > endDate)
+                    const isClickable = !readonly && !isFuture && isScheduled && !isPaused && !isInactive
 
                     let bgStyle = 'bg-[var(--foreground)]/[0.06]'
                     let customBg: string | undefined
+                    let opacity: number | undefined
+                    // Break habits are clean on every elapsed day without a relapse
+                    const isClean = isBreak && !entry && isScheduled && !isPaused && !isFuture && !isInactive
 
-                    if (entry) {
-                      if (entry.status === 'done') {
+                    if (isInactive) {
+                      bgStyle = 'bg-[var(--foreground)]/[0.02]'
+                    } else if (isPaused) {
+                      // Frozen days don't count, whatever was logged on them
+                      bgStyle = 'paused-day'
+                    } else if (isClean) {
+                      bgStyle = ''
+                      customBg = color
+                      opacity = 0.6
+                    } else if (entry?.status) {
+                      if (customStatus) {
+                        bgStyle = ''
+                        customBg = customStatus.color
+                      } else if (entry.status === 'done') {
                         bgStyle = ''
                         customBg = color
+                        // Fade partially completed days toward the daily target
+                        const completion = getEntryCompletion(entry, habit)
+                        if (completion < 1) opacity = 0.3 + completion * 0.7
                       } else if (entry.status === 'missed') {
+                        // Missed, or a relapse for break habits
                         bgStyle = ''
                         customBg = '#ef4444' // red-500
                       } else if (entry.status === 'skipped') {
                         bgStyle = ''
                         customBg = '#9ca3af' // gray-400 (rest day)
                       }
+                    } else if (!isScheduled) {
+                      // Non-applicable day for a fixed-schedule habit
+                      bgStyle = 'border border-dashed border-[var(--foreground)]/[0.1]'
                     } else if (isFuture) {
                       bgStyle = 'bg-[var(--foreground)]/[0.03]'
                     } else if (!isInQuarter) {
@@ -136,16 +169,28 @@ const HabitGrid = memo(function HabitGrid({
                     return (
                       <button
                         key={dateStr}
-                        onClick={() => !readonly && !isFuture && onDayClick?.(dateStr)}
-                        disabled={readonly || isFuture}
+                        onClick={() => isClickable && onDayClick?.(dateStr)}
+                        disabled={!isClickable}
                         className={`w-3 h-3 rounded-[4px] transition-all ${
-                          !readonly && !isFuture ? 'hover:scale-[1.3] hover:z-10 cursor-pointer' : ''
+                          isClickable ? 'hover:scale-[1.3] hover:z-10 cursor-pointer' : ''
                         } ${isToday ? 'ring-1.5 ring-[var(--accent-500)] ring-offset-1 ring-offset-[var(--glass-bg)]' : ''} ${bgStyle}`}
                         style={{
                           backgroundColor: customBg,
-                          boxShadow: entry?.status === 'done' ? `0 1px 3px ${color}40` : undefined,
+                          opacity,
+                          boxShadow: entry?.status === 'done' && !customStatus && !isPaused && !isInactive ? `0 1px 3px ${color}40` : undefined,
                         }}
-                        title={`${format(day, 'EEE, MMM d')}${entry ? ` - ${entry.status}` : ''}`}
+                        title={`${format(day, 'EEE, MMM d')}${
+                          isInactive ? ' - not active'
+                            : isPaused ? ' - paused'
+                            : isClean ? ' - clean'
+                            : customStatus ? ` - ${customStatus.label}`
+                            : entry?.status ? ` - ${isBreak && entry.status === 'missed' ? 'relapse' : entry.status}`
+                            : !isScheduled ? ' - not scheduled' : ''
+                        }${
+                          habit.target_value && entry?.value !== null && entry?.value !== undefined
+                            ? ` (${entry.value}/${habit.target_value} ${habit.unit || ''})`
+                            : ''
+                        }`}
                       />
                     )
                   })}
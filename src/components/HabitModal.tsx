@@ -2,13 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { X, AlertCircle } from 'lucide-react'
-import { Habit } from '@/types/database'
+import { Habit, HabitFrequency, HabitKind } from '@/types/database'
+import { getHabitStartDate } from '@/lib/weeklyCalculations'
+import { formatInterval } from '@/lib/habitFrequency'
 
 interface HabitModalProps {
   isOpen: boolean
   onClose: () => void
-  onSave: (habit: { name: string; description: string; color: string; target_per_week: number; goal_metric: string | null }) => Promise<void>
+  onSave: (habit: { name: string; description: string; color: string; kind: HabitKind; frequency_type: HabitFrequency; target_per_week: number; target_per_month: number | null; interval_days: number | null; schedule_days: number[] | null; target_value: number | null; unit: string | null; group_name: string | null; start_date: string | null; end_date: string | null; is_counter: boolean }) => Promise<void>
   habit?: Habit | null
+  groupNames?: string[]
+  today: string // Default start date for new habits
 }
 
 const colorOptions = [
@@ -22,10 +26,35 @@ const colorOptions = [
   '#34d399', // sea green
 ]
 
-const getFrequencyLabel = (value: number): string => {
-  if (value === 7) return 'Daily'
-  if (value === 1) return '1x per week'
-  return `${value}x per week`
+// Monday-first display order, values match date-fns getDay (0 = Sunday)
+const weekdayOptions = [
+  { value: 1, label: 'M' },
+  { value: 2, label: 'T' },
+  { value: 3, label: 'W' },
+  { value: 4, label: 'T' },
+  { value: 5, label: 'F' },
+  { value: 6, label: 'S' },
+  { value: 0, label: 'S' },
+]
+
+// Fixed weekdays are stored as a weekly habit with schedule_days
+type FrequencyMode = 'weekly' | 'schedule' | 'monthly' | 'interval'
+
+const frequencyModes: { value: FrequencyMode; label: string }[] = [
+  { value: 'weekly', label: 'Per week' },
+  { value: 'schedule', label: 'Days' },
+  { value: 'monthly', label: 'Per month' },
+  { value: 'interval', label: 'Interval' },
+]
+
+const getFrequencyLabel = (value: number, per: 'week' | 'month' = 'week'): string => {
+  if (per === 'week' && value === 7) return 'Daily'
+  return `${value}x per ${per}`
+}
+
+const getFrequencyMode = (habit: Habit): FrequencyMode => {
+  if (habit.frequency_type === 'monthly' || habit.frequency_type === 'interval') return habit.frequency_type
+  return habit.schedule_days && habit.schedule_days.length > 0 ? 'schedule' : 'weekly'
 }
 
 export default function HabitModal({
@@ -33,12 +62,24 @@ export default function HabitModal({
   onClose,
   onSave,
   habit,
+  groupNames = [],
+  today,
 }: HabitModalProps) {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
-  const [goalMetric, setGoalMetric] = useState('')
+  const [groupName, setGroupName] = useState('')
+  const [targetValue, setTargetValue] = useState('')
+  const [unit, setUnit] = useState('')
+  const [isCounter, setIsCounter] = useState(false)
   const [color, setColor] = useState(colorOptions[0])
+  const [kind, setKind] = useState<HabitKind>('build')
   const [targetPerWeek, setTargetPerWeek] = useState(7)
+  const [frequencyMode, setFrequencyMode] = useState<FrequencyMode>('weekly')
+  const [targetPerMonth, setTargetPerMonth] = useState(2)
+  const [intervalDays, setIntervalDays] = useState('10')
+  const [scheduleDays, setScheduleDays] = useState<number[]>([])
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
@@ -46,30 +87,91 @@ export default function HabitModal({
     if (habit) {
       setName(habit.name)
       setDescription(habit.description || '')
-      setGoalMetric(habit.goal_metric || '')
+      setGroupName(habit.group_name || '')
+      setTargetValue(habit.target_value ? String(habit.target_value) : '')
+      setUnit(habit.unit || '')
+      setIsCounter(habit.is_counter)
       setColor(habit.color)
+      setKind(habit.kind || 'build')
       setTargetPerWeek(habit.target_per_week || 7)
+      setFrequencyMode(getFrequencyMode(habit))
+      setTargetPerMonth(habit.target_per_month || 2)
+      setIntervalDays(String(habit.interval_days || 10))
+      setScheduleDays(habit.schedule_days || [])
+      setStartDate(getHabitStartDate(habit))
+      setEndDate(habit.end_date || '')
     } else {
       setName('')
       setDescription('')
-      setGoalMetric('')
+      setGroupName('')
+      setTargetValue('')
+      setUnit('')
+      setIsCounter(false)
       setColor(colorOptions[0])
+      setKind('build')
       setTargetPerWeek(7)
+      setFrequencyMode('weekly')
+      setTargetPerMonth(2)
+      setIntervalDays('10')
+      setScheduleDays([])
+      setStartDate(today)
+      setEndDate('')
     }
     setError(null)
-  }, [habit, isOpen])
+  }, [habit, isOpen, today])
 
   if (!isOpen) return null
 
+  const toggleScheduleDay = (day: number) => {
+    setScheduleDays((prev) =>
+      prev.includes(day) ? prev.filter((d) => d !== day) : [...prev, day].sort()
+    )
+  }
+
+  const isBreak = kind === 'break'
+  const hasSchedule = !isBreak && frequencyMode === 'schedule' && scheduleDays.length > 0
+  const frequencyType: HabitFrequency = isBreak || frequencyMode === 'schedule' ? 'weekly' : frequencyMode
+  const parsedInterval = parseInt(intervalDays)
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     if (!name.trim()) return
+    if (startDate && endDate && endDate < startDate) {
+      setError('End date must be on or after the start date')
+      return
+    }
+    if (frequencyType === 'interval' && !(parsedInterval >= 2)) {
+      setError('Repeat every 2 days or more')
+      return
+    }
 
     setLoading(true)
     setError(null)
 
+    // Empty or non-positive target means a simple done/missed habit
+    const parsedTarget = parseFloat(targetValue)
+    const dailyTarget = !isBreak && parsedTarget > 0 ? parsedTarget : null
+
     try {
-      await onSave({ name: name.trim(), description: description.trim(), color, target_per_week: targetPerWeek, goal_metric: goalMetric.trim() || null })
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        color,
+        kind,
+        // A fixed schedule implies its own weekly target; break habits are tracked every day
+        frequency_type: frequencyType,
+        target_per_week: isBreak ? 7 : hasSchedule ? scheduleDays.length : targetPerWeek,
+        target_per_month: frequencyType === 'monthly' ? targetPerMonth : null,
+        interval_days: frequencyType === 'interval' ? parsedInterval : null,
+        schedule_days: hasSchedule ? scheduleDays : null,
+        target_value: dailyTarget,
+        unit: dailyTarget ? unit.trim() || (isCounter ? 'times' : null) : null,
+        group_name: groupName.trim() || null,
+        start_date: startDate || null,
+        end_date: endDate || null,
+        // Counting check-ins needs a daily count to fill up to
+        is_counter: !!dailyTarget && isCounter,
+      })
       onClose()
     } catch (err) {
       console.error('Failed to save habit:', err)
@@ -85,7 +187,7 @@ export default function HabitModal({
         className="absolute inset-0 bg-black/50 backdrop-blur-md"
         onClick={onClose}
       />
-      <div className="relative glass-card p-6 w-full max-w-sm animate-slideUp">
+      <div className="relative glass-card p-6 w-full max-w-sm max-h-[90vh] overflow-y-auto animate-slideUp">
         <button
           onClick={onClose}
           className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
@@ -134,17 +236,134 @@ export default function HabitModal({
 
           <div>
             <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
-              Goal Metric <span className="text-[var(--muted-light)] normal-case">(optional)</span>
+              Group <span className="text-[var(--muted-light)] normal-case">(optional)</span>
             </label>
             <input
               type="text"
-              value={goalMetric}
-              onChange={(e) => setGoalMetric(e.target.value)}
-              placeholder="e.g., 10k steps, 7hrs sleep, 2hr work"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              placeholder="e.g., Health, Work, Mind"
+              list="habit-group-names"
               className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
             />
+            <datalist id="habit-group-names">
+              {groupNames.map((group) => (
+                <option key={group} value={group} />
+              ))}
+            </datalist>
+          </div>
+
+          {/* Days outside these dates don't count toward any statistic */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                Starts
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-3 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                Ends <span className="text-[var(--muted-light)] normal-case">(optional)</span>
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate || undefined}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-3 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">
+              Type
+            </label>
+            <div className="flex bg-[var(--card-bg)] rounded-xl p-1">
+              <button
+                type="button"
+                onClick={() => setKind('build')}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  !isBreak ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                }`}
+              >
+                Build a habit
+              </button>
+              <button
+                type="button"
+                onClick={() => setKind('break')}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                  isBreak ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                }`}
+              >
+                Break a habit
+              </button>
+            </div>
+            {isBreak && (
+              <p className="text-[10px] text-[var(--muted-light)] mt-1">
+                Every day counts as clean until you log a relapse
+              </p>
+            )}
           </div>
 
+          {!isBreak && (
+            <div>
+              <div className="flex items-center justify-between mb-1.5">
+                <label className="block text-xs font-medium text-[var(--muted)] uppercase tracking-wide">
+                  Daily Target <span className="text-[var(--muted-light)] normal-case">(optional)</span>
+                </label>
+                <div className="flex bg-[var(--card-bg)] rounded-lg p-0.5">
+                  <button
+                    type="button"
+                    onClick={() => setIsCounter(false)}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                      !isCounter ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                    }`}
+                  >
+                    Amount
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setIsCounter(true)}
+                    className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                      isCounter ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                    }`}
+                  >
+                    Check-ins
+                  </button>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={targetValue}
+                  onChange={(e) => setTargetValue(e.target.value)}
+                  placeholder={isCounter ? 'e.g., 3' : 'e.g., 8'}
+                  className="w-24 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+                />
+                <input
+                  type="text"
+                  value={unit}
+                  onChange={(e) => setUnit(e.target.value)}
+                  placeholder={isCounter ? 'e.g., times, glasses' : 'e.g., glasses, minutes, km'}
+                  className="flex-1 min-w-0 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+                />
+              </div>
+              <p className="text-[10px] text-[var(--muted-light)] mt-1">
+                {isCounter
+                  ? 'Each tap adds a check-in, hold to remove the last one'
+                  : 'Log an amount each day instead of a simple check'}
+              </p>
+            </div>
+          )}
+
           <div>
             <label className="block text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">
               Color
@@ -164,32 +383,123 @@ export default function HabitModal({
             </div>
           </div>
 
-          <div>
-            <label className="block text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">
-              Frequency
-            </label>
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-semibold text-[var(--foreground)]">
-                  {getFrequencyLabel(targetPerWeek)}
-                </span>
-                <span className="pill-button px-2 py-0.5 text-[10px] font-medium bg-[var(--accent-bg)] text-[var(--accent-text)]">
-                  {targetPerWeek}/7
-                </span>
+          {!isBreak && (
+            <div>
+              <div className="flex items-center justify-between mb-2">
+                <label className="block text-xs font-medium text-[var(--muted)] uppercase tracking-wide">
+                  Frequency
+                </label>
+                <div className="flex bg-[var(--card-bg)] rounded-lg p-0.5">
+                  {frequencyModes.map((mode) => (
+                    <button
+                      key={mode.value}
+                      type="button"
+                      onClick={() => setFrequencyMode(mode.value)}
+                      className={`px-2 py-0.5 rounded-md text-[10px] font-medium transition-colors ${
+                        frequencyMode === mode.value ? 'bg-[var(--accent-500)] text-white' : 'text-[var(--muted)]'
+                      }`}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
               </div>
-              <input
-                type="range"
-                min="1"
-                max="7"
-                value={targetPerWeek}
-                onChange={(e) => setTargetPerWeek(parseInt(e.target.value))}
-                className="w-full h-2 bg-[var(--card-border)] rounded-full appearance-none cursor-pointer"
-                style={{
-                  background: `linear-gradient(to right, var(--accent-500) 0%, var(--accent-500) ${((targetPerWeek - 1) / 6) * 100}%, var(--card-border) ${((targetPerWeek - 1) / 6) * 100}%, var(--card-border) 100%)`
-                }}
-              />
+              {frequencyMode === 'monthly' ? (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-[var(--foreground)]">
+                      {getFrequencyLabel(targetPerMonth, 'month')}
+                    </span>
+                    <span className="pill-button px-2 py-0.5 text-[10px] font-medium bg-[var(--accent-bg)] text-[var(--accent-text)]">
+                      any days
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max="28"
+                    value={targetPerMonth}
+                    onChange={(e) => setTargetPerMonth(parseInt(e.target.value))}
+                    className="w-full h-2 bg-[var(--card-border)] rounded-full appearance-none cursor-pointer"
+                    style={{
+                      background: `linear-gradient(to right, var(--accent-500) 0%, var(--accent-500) ${((targetPerMonth - 1) / 27) * 100}%, var(--card-border) ${((targetPerMonth - 1) / 27) * 100}%, var(--card-border) 100%)`
+                    }}
+                  />
+                </div>
+              ) : frequencyMode === 'interval' ? (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-[var(--muted)]">Every</span>
+                    <input
+                      type="number"
+                      min="2"
+                      step="1"
+                      value={intervalDays}
+                      onChange={(e) => setIntervalDays(e.target.value)}
+                      className="w-20 bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2 px-3 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+                    />
+                    <span className="text-sm text-[var(--muted)]">days</span>
+                  </div>
+                  <p className="text-[10px] text-[var(--muted-light)]">
+                    {parsedInterval >= 2
+                      ? `${formatInterval(parsedInterval)}, counted from the last time it was done`
+                      : 'e.g. 10 for every 10 days, 42 for every 6 weeks'}
+                  </p>
+                </div>
+              ) : frequencyMode === 'schedule' ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between gap-1">
+                    {weekdayOptions.map((day) => (
+                      <button
+                        key={day.value}
+                        type="button"
+                        onClick={() => toggleScheduleDay(day.value)}
+                        className={`w-8 h-8 rounded-full text-xs font-semibold transition-colors ${
+                          scheduleDays.includes(day.value)
+                            ? 'bg-[var(--accent-500)] text-white'
+                            : 'bg-[var(--card-bg)] text-[var(--muted)] hover:bg-[var(--card-border)]'
+                        }`}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-[var(--muted-light)]">
+                    {scheduleDays.length > 0
+                      ? `${scheduleDays.length}x per week on the selected days`
+                      : 'Pick the days this habit belongs on'}
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-semibold text-[var(--foreground)]">
+                      {getFrequencyLabel(targetPerWeek)}
+                    </span>
+                    <span className="pill-button px-2 py-0.5 text-[10px] font-medium bg-[var(--accent-bg)] text-[var(--accent-text)]">
+                      {targetPerWeek}/7
+                    </span>
+                  </div>
+                  <input
+                    type="range"
+                    min="1"
+                    max="7"
+                    value={targetPerWeek}
+                    onChange={(e) => setTargetPerWeek(parseInt(e.target.value))}
+                    className="w-full h-2 bg-[var(--card-border)] rounded-full appearance-none cursor-pointer"
+                    style={{
+                      background: `linear-gradient(to right, var(--accent-500) 0%, var(--accent-500) ${((targetPerWeek - 1) / 6) * 100}%, var(--card-border) ${((targetPerWeek - 1) / 6) * 100}%, var(--card-border) 100%)`
+                    }}
+                  />
+                  {habit && targetPerWeek !== habit.target_per_week && (
+                    <p className="text-[10px] text-[var(--muted-light)]">
+                      Applies from this week - earlier weeks keep their target
+                    </p>
+                  )}
+                </div>
+              )}
             </div>
-          </div>
+          )}
 
           <div className="flex gap-2 pt-3">
             <button
@@ -1,12 +1,22 @@
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import dynamic from 'next/dynamic'
-import { Plus, LogOut, Settings, Target, Sparkles, Lock, Unlock, Pencil, Flame, Calendar, User } from 'lucide-react'
-import { format, getDayOfYear, startOfQuarter, differenceInDays, parseISO, subDays, startOfWeek, endOfWeek } from 'date-fns'
+import { Plus, LogOut, Settings, Target, Sparkles, Lock, Unlock, Pencil, Flame, Calendar, User, Archive, CloudOff, RefreshCw, Trophy, X, ChevronDown, ChevronUp, GripHorizontal, Pause } from 'lucide-react'
+import { format, getDayOfYear, startOfQuarter, differenceInDays, parseISO, subDays } from 'date-fns'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
-import { HabitWithEntries, Quarter, getCurrentQuarter, Habit } from '@/types/database'
+import { useUndo } from '@/context/UndoContext'
+import { useSync } from '@/context/SyncContext'
+import { HabitWithEntries, HabitEntry, HabitEntryData, HabitKind, HabitFrequency, HabitPause, HabitTargetChange, HabitCheckin, HabitStatus, HabitStatusData, Quarter, getCurrentQuarter, Habit } from '@/types/database'
+import { entryKey, habitKey, pauseKey, targetChangeKey, checkinKey, statusKey, isNetworkError } from '@/lib/offlineQueue'
+import { subscribeToChanges, getHabitChildSubscriptions, applyHabitChange, applyEntryChange, applyPauseChange, applyTargetChange, applyCheckinChange, applyStatusChange } from '@/lib/realtime'
+import { getToday, getTodayKey } from '@/lib/dayBoundary'
+import { getDailyStreak, getWeeklyStreak } from '@/lib/habitScoring'
+import { getHabitRecords, getNewRecords } from '@/lib/habitRecords'
+import { sortHabits, groupHabits, getGroupNames, moveHabit } from '@/lib/habitOrder'
+import { getCheckinsOn, withDayCheckins } from '@/lib/checkins'
+import { canSkipOnDate, isScheduledDay, isPausedOn, isHabitActiveOn, getTargetChangeRows } from '@/lib/weeklyCalculations'
 import HabitCard from './HabitCard'
 import QuarterSelector from './QuarterSelector'
 import ThemeToggle from './ThemeToggle'
@@ -15,19 +25,54 @@ import GoalsSection from './GoalsSection'
 // Lazy load components that aren't immediately visible
 const HabitModal = dynamic(() => import('./HabitModal'), { ssr: false })
 const ProfileModal = dynamic(() => import('./ProfileModal'), { ssr: false })
+const ArchivedHabitsModal = dynamic(() => import('./ArchivedHabitsModal'), { ssr: false })
+const DayEntryModal = dynamic(() => import('./DayEntryModal'), { ssr: false })
+const HabitDetailModal = dynamic(() => import('./HabitDetailModal'), { ssr: false })
+const PauseModal = dynamic(() => import('./PauseModal'), { ssr: false })
+const YearHeatmap = dynamic(() => import('./YearHeatmap'), { ssr: false })
 const PartnerSection = dynamic(() => import('./PartnerSection'), { ssr: false })
 const MonthlyComparison = dynamic(() => import('./MonthlyComparison'), { ssr: false })
 const QuarterlyComparison = dynamic(() => import('./QuarterlyComparison'), { ssr: false })
 export default function HabitTracker() {
   const { user, profile, loading: authLoading, setShowAuthModal, signOut } = useAuth()
+  const { pushAction } = useUndo()
+  const { isOnline, isSyncing, pendingKeys, lastSyncedAt, runMutation } = useSync()
   const [habits, setHabits] = useState<HabitWithEntries[]>([])
   const [loading, setLoading] = useState(true)
-  const [quarter, setQuarter] = useState<Quarter>(getCurrentQuarter())
-  const [year, setYear] = useState(new Date().getFullYear())
+  const [quarter, setQuarter] = useState<Quarter>(() => getCurrentQuarter(getToday(profile)))
+  const [year, setYear] = useState(() => getToday(profile).getFullYear())
   const [showHabitModal, setShowHabitModal] = useState(false)
   const [editingHabit, setEditingHabit] = useState<Habit | null>(null)
   const [showSettings, setShowSettings] = useState(false)
   const [showProfileModal, setShowProfileModal] = useState(false)
+  const [showArchivedModal, setShowArchivedModal] = useState(false)
+  const [showPauseModal, setShowPauseModal] = useState(false)
+  const [editingDay, setEditingDay] = useState<{ habitId: string; date: string } | null>(null)
+  const [recordsHabitId, setRecordsHabitId] = useState<string | null>(null)
+  // Drag-and-drop: a habit only becomes draggable while its grip is held, so inputs inside cards still work
+  const [dragHandleId, setDragHandleId] = useState<string | null>(null)
+  const [draggingHabitId, setDraggingHabitId] = useState<string | null>(null)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null)
+  const [collapsedGroups, setCollapsedGroups] = useState<string[]>(() => {
+    if (typeof window === 'undefined') return []
+    try {
+      return JSON.parse(localStorage.getItem('collapsed-habit-groups') || '[]')
+    } catch {
+      return []
+    }
+  })
+  const [recordToast, setRecordToast] = useState<{ id: number; habitName: string; records: string[] } | null>(null)
+  // "Today" follows the user's timezone and day boundary, not the browser clock
+  const todayKey = getTodayKey(profile)
+
+  // Follow the current quarter when it changes under the user - their profile's timezone loading
+  // after the first render, or the quarter rolling over while the app is open
+  const currentQuarterKey = `${todayKey.slice(0, 4)}-${getCurrentQuarter(parseISO(todayKey))}`
+  useEffect(() => {
+    const [currentYear, currentQuarter] = currentQuarterKey.split('-')
+    setYear(Number(currentYear))
+    setQuarter(currentQuarter as Quarter)
+  }, [currentQuarterKey])
 
   // Mantra state
   const [mantra, setMantra] = useState('')
@@ -68,26 +113,26 @@ export default function HabitTracker() {
 
     setLoading(true)
 
-    // Timeout safety net - don't hang forever (3 seconds)
+    // Timeout safety net - stop the spinner after 3 seconds but keep the habits already shown
     const timeout = setTimeout(() => {
       console.warn('Habits fetch timed out - check if database tables exist')
-      setHabits([])
       setLoading(false)
     }, 3000)
 
     try {
       const { data, error } = await supabase
         .from('habits')
-        .select('*, entries:habit_entries(*)')
+        .select('*, entries:habit_entries(*), pauses:habit_pauses(*), target_changes:habit_target_changes(*), checkins:habit_checkins(*), statuses:habit_statuses(*)')
         .eq('user_id', userId)
-        .eq('archived', false)
+        .order('position', { ascending: true })
         .order('created_at', { ascending: true })
 
       clearTimeout(timeout)
 
       if (error) {
         console.error('Error fetching habits:', error)
-        setHabits([])
+        // Keep what's on screen while offline so queued changes stay visible
+        if (!isNetworkError(error)) setHabits([])
       } else if (data) {
         setHabits(data as HabitWithEntries[])
       } else {
@@ -106,39 +151,198 @@ export default function HabitTracker() {
     fetchHabits()
   }, [fetchHabits])
 
+  // Live updates from other tabs and devices, resubscribing when habits are added or removed
+  // (optimistic habits have no server rows yet)
+  const habitIdsKey = useMemo(
+    () => habits.map((h) => h.id).filter((id) => !id.startsWith('temp-')).join(','),
+    [habits]
+  )
+
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToChanges(
+      supabase,
+      `habits-${userId}`,
+      [
+        { table: 'habits', filter: `user_id=eq.${userId}` },
+        ...getHabitChildSubscriptions(habitIdsKey ? habitIdsKey.split(',') : []),
+      ],
+      (change) => {
+        setHabits((prev) =>
+          change.table === 'habits' ? applyHabitChange(prev, change)
+            : change.table === 'habit_pauses' ? applyPauseChange(prev, change)
+            : change.table === 'habit_target_changes' ? applyTargetChange(prev, change)
+            : change.table === 'habit_checkins' ? applyCheckinChange(prev, change)
+            : change.table === 'habit_statuses' ? applyStatusChange(prev, change)
+            : applyEntryChange(prev, change)
+        )
+      }
+    )
+  }, [userId, habitIdsKey, supabase])
+
+  // Pick up server IDs once queued offline changes have synced
+  useEffect(() => {
+    if (lastSyncedAt) fetchHabits()
+  }, [lastSyncedAt, fetchHabits])
+
+  // Habits with a queued change to the habit itself or any of its entries, pauses or target history
+  const pendingHabitIds = useMemo(() => {
+    const ids = new Set<string>()
+    pendingKeys.forEach((key) => {
+      const [table, id] = key.split(':')
+      if (!['goals', 'goal_key_results', 'partnerships'].includes(table)) ids.add(id)
+    })
+    return ids
+  }, [pendingKeys])
+
+  // Archived habits stay loaded so past comparisons keep their history
+  // Realtime changes can arrive in any order, so sort on read
+  const activeHabits = useMemo(() => sortHabits(habits.filter((h) => !h.archived)), [habits])
+  const archivedHabits = useMemo(() => habits.filter((h) => h.archived), [habits])
+  const habitGroups = useMemo(() => groupHabits(activeHabits), [activeHabits])
+  const hasGroups = habitGroups.some((group) => group.name !== null)
+  const groupNames = useMemo(() => getGroupNames(habits), [habits])
+
+  // Write an entry for any date (null clears the day) - keyed on (habit_id, date) so temp entries are handled too
+  // Resolves to whether the write was saved (or queued while offline)
+  const writeEntry = useCallback(async (habitId: string, date: string, entryData: HabitEntryData | null): Promise<boolean> => {
+    // Optimistic update
+    setHabits((prev) =>
+      prev.map((h) => {
+        if (h.id !== habitId) return h
+        if (!entryData) {
+          return { ...h, entries: h.entries.filter((e) => e.date !== date) }
+        }
+        if (h.entries.some((e) => e.date === date)) {
+          return {
+            ...h,
+            entries: h.entries.map((e) =>
+              e.date === date ? { ...e, ...entryData } : e
+            ),
+          }
+        }
+        return {
+          ...h,
+          entries: [
+            ...h.entries,
+            {
+              id: `temp-${Date.now()}`,
+              habit_id: habitId,
+              date,
+              ...entryData,
+              created_at: new Date().toISOString(),
+            },
+          ],
+        }
+      })
+    )
+
+    // Server update (queued while offline)
+    const key = entryKey(habitId, date)
+    if (!entryData) {
+      const { error } = await runMutation({
+        type: 'delete',
+        table: 'habit_entries',
+        key,
+        match: { habit_id: habitId, date },
+      })
+
+      if (error) {
+        console.error('Error clearing entry:', error.message || error.code || error)
+        fetchHabits()
+        return false
+      }
+      return true
+    }
+
+    const { data, error } = await runMutation({
+      type: 'upsert',
+      table: 'habit_entries',
+      key,
+      values: { habit_id: habitId, date, ...entryData },
+      onConflict: 'habit_id,date',
+    })
+
+    if (error) {
+      console.error('Error saving entry:', error.message || error.code || error)
+      fetchHabits()
+      return false
+    }
+    if (data) {
+      const saved = data as unknown as HabitEntry
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === habitId
+            ? { ...h, entries: h.entries.map((e) => (e.date === date ? saved : e)) }
+            : h
+        )
+      )
+    }
+    return true
+  }, [runMutation, fetchHabits])
+
+  // Record an entry change so undo restores the previous status (built-in or custom), value and note
+  const recordEntryChange = useCallback((
+    habit: HabitWithEntries,
+    date: string,
+    before: HabitEntry | undefined,
+    after: HabitEntryData | null
+  ) => {
+    const previous = before ? { status: before.status, status_id: before.status_id, value: before.value, note: before.note } : null
+    pushAction({
+      label: `${habit.name} · ${format(parseISO(date), 'MMM d')}: ${after ? after.status ?? 'note' : 'cleared'}`,
+      undo: () => writeEntry(habit.id, date, previous),
+      redo: () => writeEntry(habit.id, date, after),
+    })
+  }, [pushAction, writeEntry])
+
+  // Celebrate when a saved check-in beats one of the habit's personal bests
+  // `habit` is the habit as it was before the check-in, whose records are usually cached already
+  const checkForNewRecords = useCallback((habit: HabitWithEntries, date: string, after: HabitEntryData | null) => {
+    const existingEntry = habit.entries.find((e) => e.date === date)
+    const entries = habit.entries.filter((e) => e.date !== date)
+    if (after) {
+      entries.push({
+        id: existingEntry?.id ?? `preview-${date}`,
+        habit_id: habit.id,
+        date,
+        created_at: existingEntry?.created_at ?? new Date().toISOString(),
+        ...after,
+      })
+    }
+
+    const beaten = getNewRecords(getHabitRecords(habit, todayKey), getHabitRecords({ ...habit, entries }, todayKey))
+    if (beaten.length > 0) {
+      setRecordToast({ id: Date.now(), habitName: habit.name, records: beaten })
+    }
+  }, [todayKey])
+
+  // Auto-hide the record celebration
+  useEffect(() => {
+    if (!recordToast) return
+    const timeout = setTimeout(() => setRecordToast(null), 5000)
+    return () => clearTimeout(timeout)
+  }, [recordToast])
+
   const handleDayClick = useCallback(async (habitId: string, date: string) => {
     if (!user) return
 
     const habit = habits.find((h) => h.id === habitId)
     if (!habit) return
 
+    // Unscheduled days are non-applicable for habits with a fixed schedule, paused days are frozen,
+    // and days outside the habit's start and end dates aren't tracked
+    if (!isScheduledDay(habit, date) || isPausedOn(habit, date) || !isHabitActiveOn(habit, date)) return
+
     const existingEntry = habit.entries.find((e) => e.date === date)
 
-    // Calculate allowed rest days per week based on target_per_week
-    // e.g., target_per_week = 6 means 1 rest day allowed (7 - 6 = 1)
-    const targetPerWeek = habit.target_per_week ?? 7
-    const allowedRestDays = 7 - targetPerWeek
-
-    // Get the week bounds for this date (Monday to Sunday)
-    const clickedDate = parseISO(date)
-    const weekStartDate = startOfWeek(clickedDate, { weekStartsOn: 1 })
-    const weekEndDate = endOfWeek(clickedDate, { weekStartsOn: 1 })
-    const weekStartStr = format(weekStartDate, 'yyyy-MM-dd')
-    const weekEndStr = format(weekEndDate, 'yyyy-MM-dd')
-
-    // Count existing skipped entries in this week (excluding current day)
-    const skippedInWeek = habit.entries.filter(e =>
-      e.status === 'skipped' &&
-      e.date >= weekStartStr &&
-      e.date <= weekEndStr &&
-      e.date !== date
-    ).length
-
-    // Can we add another rest day this week?
-    const canSkip = skippedInWeek < allowedRestDays
+    // Can we add another rest day this week? (target_per_week = 6 allows 1 rest day)
+    const canSkip = canSkipOnDate(habit, date)
 
     // Click cycle: Empty → Done → Skipped (if allowed) → Missed → Delete
+    // Break habits are clean by default: Empty → Missed (relapse) → Delete
     const getNextStatus = (currentStatus: string | undefined): 'done' | 'skipped' | 'missed' | null => {
+      if (habit.kind === 'break') return currentStatus ? null : 'missed'
       if (!currentStatus) return 'done'
       if (currentStatus === 'done') {
         // Only allow skipping if there's slack remaining this week
@@ -148,179 +352,342 @@ export default function HabitTracker() {
       return null // missed → delete
     }
 
-    const nextStatus = getNextStatus(existingEntry?.status)
+    const nextStatus = getNextStatus(existingEntry?.status ?? undefined)
+    const nextEntry = nextStatus
+      ? { status: nextStatus, status_id: null, value: existingEntry?.value ?? null, note: existingEntry?.note ?? null }
+      : null
 
-    // Optimistic update
-    const updateEntries = (entries: typeof habit.entries) => {
-      if (existingEntry) {
-        if (nextStatus) {
-          return entries.map((e) =>
-            e.id === existingEntry.id ? { ...e, status: nextStatus } : e
-          )
-        } else {
-          return entries.filter((e) => e.id !== existingEntry.id)
-        }
-      } else {
-        return [
-          ...entries,
-          {
-            id: `temp-${Date.now()}`,
-            habit_id: habitId,
-            date,
-            status: 'done' as const,
-            note: null,
-            created_at: new Date().toISOString(),
-          },
-        ]
-      }
-    }
+    recordEntryChange(habit, date, existingEntry, nextEntry)
+    if (await writeEntry(habitId, date, nextEntry)) checkForNewRecords(habit, date, nextEntry)
+  }, [user, habits, checkForNewRecords, recordEntryChange, writeEntry])
 
-    setHabits((prev) =>
-      prev.map((h) =>
-        h.id === habitId ? { ...h, entries: updateEntries(h.entries) } : h
-      )
-    )
+  // Set an entry for any date directly (null clears the day)
+  const handleSetEntry = useCallback((habitId: string, date: string, entryData: HabitEntryData | null) => {
+    if (!user) return
 
-    // Server update
-    let error = null
-    if (existingEntry && !existingEntry.id.startsWith('temp-')) {
-      if (nextStatus) {
-        const result = await supabase
-          .from('habit_entries')
-          .update({ status: nextStatus })
-          .eq('id', existingEntry.id)
-        error = result.error
-      } else {
-        const result = await supabase
-          .from('habit_entries')
-          .delete()
-          .eq('id', existingEntry.id)
-        error = result.error
-      }
-    } else if (!existingEntry) {
-      const result = await supabase.from('habit_entries').insert({
-        habit_id: habitId,
-        date,
-        status: 'done',
-      }).select().single()
-      error = result.error
+    const habit = habits.find((h) => h.id === habitId)
+    if (!habit) return
 
-      // Update local state with real ID from database
-      if (result.data) {
-        setHabits((prev) =>
-          prev.map((h) =>
-            h.id === habitId
-              ? {
-                  ...h,
-                  entries: h.entries.map((e) =>
-                    e.date === date && e.id.startsWith('temp-') ? result.data : e
-                  ),
-                }
-              : h
-          )
-        )
-      }
-    } else {
-      // Entry has temp ID - refetch to sync with server
-      fetchHabits()
-      return
-    }
+    const existingEntry = habit.entries.find((e) => e.date === date)
+    if (!existingEntry && !entryData) return
 
-    // Revert on error
-    if (error) {
-      console.error('Error updating entry:', error.message || error.code || error)
-      fetchHabits()
-    }
-  }, [user, habits, supabase, fetchHabits])
+    recordEntryChange(habit, date, existingEntry, entryData)
+    writeEntry(habitId, date, entryData).then((saved) => {
+      if (saved) checkForNewRecords(habit, date, entryData)
+    })
+  }, [user, habits, checkForNewRecords, recordEntryChange, writeEntry])
 
   // Update note for a habit entry
-  const handleUpdateNote = useCallback(async (habitId: string, date: string, note: string | null) => {
-    if (!user) return
+  const handleUpdateNote = useCallback((habitId: string, date: string, note: string | null) => {
+    const habit = habits.find((h) => h.id === habitId)
+    const existingEntry = habit?.entries.find((e) => e.date === date)
+    if (!existingEntry) return
+
+    handleSetEntry(habitId, date, {
+      status: existingEntry.status,
+      status_id: existingEntry.status_id,
+      value: existingEntry.value,
+      note,
+    })
+  }, [habits, handleSetEntry])
 
+  // Log a measured value for a quantitative habit (null clears the day)
+  const handleUpdateValue = useCallback((habitId: string, date: string, value: number | null) => {
+    if (value === null) {
+      handleSetEntry(habitId, date, null)
+      return
+    }
+
+    const habit = habits.find((h) => h.id === habitId)
+    const existingEntry = habit?.entries.find((e) => e.date === date)
+
+    // A zero value counts as missed
+    handleSetEntry(habitId, date, {
+      status: value > 0 ? 'done' : 'missed',
+      status_id: null,
+      value,
+      note: existingEntry?.note ?? null,
+    })
+  }, [habits, handleSetEntry])
+
+  // Measured habits log values when a day is tapped, so rest days are toggled separately
+  const handleToggleRestDay = useCallback((habitId: string, date: string) => {
     const habit = habits.find((h) => h.id === habitId)
     if (!habit) return
 
     const existingEntry = habit.entries.find((e) => e.date === date)
-    if (!existingEntry || existingEntry.id.startsWith('temp-')) {
-      // Can't add note to non-existent or temp entry
-      return
+    if (existingEntry?.status === 'skipped' && !existingEntry.status_id) {
+      handleSetEntry(habitId, date, null)
+    } else if (canSkipOnDate(habit, date)) {
+      handleSetEntry(habitId, date, { status: 'skipped', status_id: null, value: null, note: existingEntry?.note ?? null })
     }
+  }, [habits, handleSetEntry])
+
+  // Latest habits for undo actions, which run long after the render that created them
+  const habitsRef = useRef(habits)
+  useEffect(() => {
+    habitsRef.current = habits
+  }, [habits])
+
+  // Server ids of check-ins added this session, keyed by their temp id - resolves to the temp id
+  // itself while the insert is queued offline (a queued delete is remapped on replay), or null if it failed
+  const savedCheckinIdsRef = useRef(new Map<string, Promise<string | null>>())
+
+  // Counter habits: each tap adds a timestamped check-in, and a database trigger keeps the
+  // day's entry in step with the count (mirrored locally so the UI updates right away)
+  // Returns the check-in's temp id so undo can remove exactly this check-in
+  const addCheckin = useCallback((habitId: string, date: string): string | null => {
+    const habit = habitsRef.current.find((h) => h.id === habitId)
+    if (!habit) return null
+
+    const tempId = `temp-${Date.now()}`
+    const checkin: HabitCheckin = {
+      id: tempId,
+      habit_id: habitId,
+      date,
+      checked_at: new Date().toISOString(),
+      created_at: new Date().toISOString(),
+    }
+    const dayCount = getCheckinsOn(habit, date).length + 1
 
     // Optimistic update
-    setHabits((prev) =>
-      prev.map((h) =>
-        h.id === habitId
-          ? {
-              ...h,
-              entries: h.entries.map((e) =>
-                e.id === existingEntry.id ? { ...e, note } : e
-              ),
-            }
-          : h
+    setHabits((prev) => prev.map((h) => (h.id === habitId ? withDayCheckins(h, date, [...getCheckinsOn(h, date), checkin]) : h)))
+
+    const savedId = runMutation({
+      type: 'insert',
+      table: 'habit_checkins',
+      key: checkinKey(habitId, date),
+      values: { habit_id: habitId, date, checked_at: checkin.checked_at },
+      tempId,
+    }).then(({ data, error, queued }) => {
+      if (error) {
+        console.error('Error adding check-in:', error.message || error.code || error)
+        fetchHabits()
+        return null
+      }
+      checkForNewRecords(habit, date, { status: 'done', status_id: null, value: dayCount, note: null })
+      if (!data) return queued ? tempId : null
+
+      const saved = data as unknown as HabitCheckin
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === habitId
+            ? { ...h, checkins: (h.checkins ?? []).filter((c) => c.id !== saved.id).map((c) => (c.id === tempId ? saved : c)) }
+            : h
+        )
       )
-    )
+      return saved.id
+    })
+    savedCheckinIdsRef.current.set(tempId, savedId)
+    return tempId
+  }, [checkForNewRecords, runMutation, fetchHabits])
 
-    // Server update
-    const { error } = await supabase
-      .from('habit_entries')
-      .update({ note })
-      .eq('id', existingEntry.id)
+  // Remove one check-in, waiting for its insert first if it was only just added
+  const removeCheckin = useCallback(async (habitId: string, date: string, checkinId: string) => {
+    const withoutCheckin = (ids: string[]) =>
+      setHabits((prev) =>
+        prev.map((h) => (h.id === habitId ? withDayCheckins(h, date, getCheckinsOn(h, date).filter((c) => !ids.includes(c.id))) : h))
+      )
+
+    // Optimistic update
+    withoutCheckin([checkinId])
+
+    const pending = savedCheckinIdsRef.current.get(checkinId)
+    const id = pending ? await pending : checkinId
+    if (!id) return
+    // The insert may have swapped in the saved check-in in the meantime
+    if (id !== checkinId) withoutCheckin([id])
+
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'habit_checkins',
+      key: checkinKey(habitId, date),
+      match: { id },
+    })
 
     if (error) {
-      console.error('Error updating note:', error.message || error.code || error)
+      console.error('Error removing check-in:', error.message || error.code || error)
       fetchHabits()
     }
-  }, [user, habits, supabase, fetchHabits])
+  }, [runMutation, fetchHabits])
+
+  // Remove the most recent check-in of a day
+  const removeLastCheckin = useCallback((habitId: string, date: string) => {
+    const habit = habitsRef.current.find((h) => h.id === habitId)
+    const last = habit ? getCheckinsOn(habit, date).pop() : undefined
+    if (!last) return
+    removeCheckin(habitId, date, last.id)
+  }, [removeCheckin])
+
+  const handleCheckin = useCallback((habitId: string, date: string) => {
+    const habit = habits.find((h) => h.id === habitId)
+    if (!user || !habit || !isScheduledDay(habit, date) || isPausedOn(habit, date) || !isHabitActiveOn(habit, date)) return
+
+    // Undo takes back the check-in this tap added, even if more were added since
+    let checkinId = addCheckin(habitId, date)
+    pushAction({
+      label: `${habit.name} · ${format(parseISO(date), 'MMM d')}: check-in`,
+      undo: async () => {
+        if (checkinId) await removeCheckin(habitId, date, checkinId)
+      },
+      redo: () => {
+        checkinId = addCheckin(habitId, date)
+      },
+    })
+  }, [user, habits, pushAction, addCheckin, removeCheckin])
+
+  const handleRemoveCheckin = useCallback((habitId: string, date: string) => {
+    const habit = habits.find((h) => h.id === habitId)
+    if (!user || !habit || getCheckinsOn(habit, date).length === 0) return
+
+    // Redo removes the check-in undo put back
+    let restoredId: string | null = null
+    pushAction({
+      label: `${habit.name} · ${format(parseISO(date), 'MMM d')}: check-in removed`,
+      undo: () => {
+        restoredId = addCheckin(habitId, date)
+      },
+      redo: async () => {
+        if (restoredId) await removeCheckin(habitId, date, restoredId)
+      },
+    })
+    removeLastCheckin(habitId, date)
+  }, [user, habits, pushAction, addCheckin, removeCheckin, removeLastCheckin])
 
   const handleSaveHabit = async (habitData: {
     name: string
     description: string
     color: string
+    kind: HabitKind
+    frequency_type: HabitFrequency
     target_per_week: number
-    goal_metric: string | null
+    target_per_month: number | null
+    interval_days: number | null
+    schedule_days: number[] | null
+    target_value: number | null
+    unit: string | null
+    group_name: string | null
+    start_date: string | null
+    end_date: string | null
+    is_counter: boolean
   }) => {
     if (!user) throw new Error('You must be logged in')
 
     if (editingHabit) {
+      // Record target changes so past weeks keep the target they were scored against
+      const existing = habits.find((h) => h.id === editingHabit.id)
+      const targetRows = existing && habitData.frequency_type === 'weekly'
+        ? getTargetChangeRows(existing, habitData.target_per_week, todayKey)
+        : []
+
       // Optimistic update for editing
       setHabits((prev) =>
-        prev.map((h) =>
-          h.id === editingHabit.id
-            ? { ...h, ...habitData }
-            : h
-        )
+        prev.map((h) => {
+          if (h.id !== editingHabit.id) return h
+          if (targetRows.length === 0) return { ...h, ...habitData }
+          const added: HabitTargetChange[] = targetRows.map((row) => ({
+            id: `temp-${Date.now()}-${row.effective_date}`,
+            created_at: new Date().toISOString(),
+            ...row,
+          }))
+          const kept = (h.target_changes ?? []).filter((c) => !added.some((a) => a.effective_date === c.effective_date))
+          return { ...h, ...habitData, target_changes: [...kept, ...added] }
+        })
       )
 
-      const { error } = await supabase
-        .from('habits')
-        .update(habitData)
-        .eq('id', editingHabit.id)
+      // Write the history before the habit, so a saved target always has the history scoring it -
+      // if the habit update fails, the rows written for it are put back the way they were
+      const saveTargetRows = (rows: typeof targetRows) =>
+        Promise.all(
+          rows.map((row) =>
+            runMutation({
+              type: 'upsert',
+              table: 'habit_target_changes',
+              key: targetChangeKey(row.habit_id, row.effective_date),
+              values: row,
+              onConflict: 'habit_id,effective_date',
+            })
+          )
+        )
+      const rollBackTargetRows = () =>
+        Promise.all(
+          targetRows.map((row) => {
+            const previous = existing?.target_changes?.find((c) => c.effective_date === row.effective_date)
+            if (previous) return saveTargetRows([{ ...row, target_per_week: previous.target_per_week }])
+            return runMutation({
+              type: 'delete',
+              table: 'habit_target_changes',
+              key: targetChangeKey(row.habit_id, row.effective_date),
+              match: { habit_id: row.habit_id, effective_date: row.effective_date },
+            })
+          })
+        )
+
+      const failedTarget = (await saveTargetRows(targetRows)).find((result) => result.error)
+      if (failedTarget?.error) {
+        await rollBackTargetRows()
+        fetchHabits() // Revert on error
+        throw new Error(failedTarget.error.message)
+      }
+
+      const { error } = await runMutation({
+        type: 'update',
+        table: 'habits',
+        key: habitKey(editingHabit.id),
+        values: habitData,
+        match: { id: editingHabit.id },
+      })
 
       if (error) {
+        await rollBackTargetRows()
         fetchHabits() // Revert on error
         throw new Error(error.message)
       }
     } else {
       // Optimistic update for creating - add with temp ID
       const tempId = `temp-${Date.now()}`
+      // New habits go to the end of the list
+      const position = habits.reduce((max, h) => Math.max(max, h.position ?? 0), -1) + 1
+      // Store the start day in the user's timezone rather than leaving it to created_at
+      const startDate = habitData.start_date ?? todayKey
       const newHabit: HabitWithEntries = {
         id: tempId,
         user_id: user.id,
         name: habitData.name,
         description: habitData.description,
         color: habitData.color,
+        kind: habitData.kind,
+        frequency_type: habitData.frequency_type,
         target_per_week: habitData.target_per_week,
-        goal_metric: habitData.goal_metric,
+        target_per_month: habitData.target_per_month,
+        interval_days: habitData.interval_days,
+        schedule_days: habitData.schedule_days,
+        goal_metric: null,
+        target_value: habitData.target_value,
+        unit: habitData.unit,
+        position,
+        group_name: habitData.group_name,
+        start_date: startDate,
+        end_date: habitData.end_date,
+        is_counter: habitData.is_counter,
         created_at: new Date().toISOString(),
         archived: false,
+        archived_at: null,
         entries: [],
+        pauses: [],
+        target_changes: [],
+        checkins: [],
+        statuses: [],
       }
       setHabits((prev) => [...prev, newHabit])
 
-      const { data, error } = await supabase.from('habits').insert({
-        ...habitData,
-        user_id: user.id,
-      }).select().single()
+      const { data, error } = await runMutation({
+        type: 'insert',
+        table: 'habits',
+        key: habitKey(tempId),
+        values: { ...habitData, start_date: startDate, position, user_id: user.id },
+        tempId,
+      })
 
       if (error) {
         fetchHabits() // Revert on error
@@ -330,7 +697,10 @@ export default function HabitTracker() {
       // Replace temp habit with real one
       if (data) {
         setHabits((prev) =>
-          prev.map((h) => (h.id === tempId ? { ...data, entries: [] } : h))
+          prev
+            // The realtime insert may have arrived first
+            .filter((h) => h.id !== data.id)
+            .map((h) => (h.id === tempId ? { ...(data as unknown as Habit), entries: [], pauses: [], target_changes: [], checkins: [], statuses: [] } : h))
         )
       }
     }
@@ -338,27 +708,426 @@ export default function HabitTracker() {
     setEditingHabit(null)
   }
 
-  const handleDeleteHabit = async (habitId: string) => {
-    if (!confirm('Are you sure you want to delete this habit?')) return
+  // Pause habits over a date range - one row per habit, keyed on (habit_id, start_date, end_date)
+  const handleAddPause = useCallback(async (habitIds: string[], startDate: string, endDate: string, reason: string | null) => {
+    // Optimistic update
+    setHabits((prev) =>
+      prev.map((h) => {
+        if (!habitIds.includes(h.id)) return h
+        const pause: HabitPause = {
+          id: `temp-${Date.now()}-${h.id}`,
+          habit_id: h.id,
+          start_date: startDate,
+          end_date: endDate,
+          reason,
+          created_at: new Date().toISOString(),
+        }
+        return {
+          ...h,
+          pauses: [...(h.pauses ?? []).filter((p) => p.start_date !== startDate || p.end_date !== endDate), pause],
+        }
+      })
+    )
+
+    const results = await Promise.all(habitIds.map((habitId) =>
+      runMutation({
+        type: 'upsert',
+        table: 'habit_pauses',
+        key: pauseKey(habitId, startDate, endDate),
+        values: { habit_id: habitId, start_date: startDate, end_date: endDate, reason },
+        onConflict: 'habit_id,start_date,end_date',
+      })
+    ))
+
+    const failed = results.find((result) => result.error)
+    if (failed?.error) {
+      fetchHabits() // Revert on error
+      throw new Error(failed.error.message)
+    }
+
+    // Replace temp pauses with the saved rows
+    const saved = results.map((result) => result.data as unknown as HabitPause | null).filter((p): p is HabitPause => !!p)
+    setHabits((prev) =>
+      prev.map((h) => {
+        const pause = saved.find((p) => p.habit_id === h.id)
+        if (!pause) return h
+        return {
+          ...h,
+          pauses: (h.pauses ?? []).map((p) => (p.start_date === startDate && p.end_date === endDate ? pause : p)),
+        }
+      })
+    )
+  }, [runMutation, fetchHabits])
+
+  // Archiving hides a habit but keeps its entries. Restoring pauses the days it was archived
+  // (through yesterday), so they don't count as misses
+  const handleArchiveHabit = useCallback(async (habitId: string, archived: boolean = true) => {
+    const habit = habits.find((h) => h.id === habitId)
+    if (!habit) return
+
+    if (!archived && habit.archived_at) {
+      const archivedDate = format(parseISO(habit.archived_at), 'yyyy-MM-dd')
+      const yesterday = format(subDays(parseISO(todayKey), 1), 'yyyy-MM-dd')
+      if (archivedDate <= yesterday) {
+        try {
+          // Keyed on its dates, so restoring again after a failure reuses the same pause
+          await handleAddPause([habitId], archivedDate, yesterday, 'Archived')
+        } catch (error) {
+          console.error('Error pausing archived days:', error)
+          return
+        }
+      }
+    }
+
+    const archivedAt = archived ? new Date().toISOString() : null
 
     // Optimistic update
-    const deletedHabit = habits.find((h) => h.id === habitId)
-    setHabits((prev) => prev.filter((h) => h.id !== habitId))
+    setHabits((prev) =>
+      prev.map((h) =>
+        h.id === habitId ? { ...h, archived, archived_at: archivedAt } : h
+      )
+    )
+
+    const { error } = await runMutation({
+      type: 'update',
+      table: 'habits',
+      key: habitKey(habitId),
+      values: { archived, archived_at: archivedAt },
+      match: { id: habitId },
+    })
+
+    if (error) {
+      // Revert on error
+      console.error('Error archiving habit:', error)
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === habitId ? { ...h, archived: habit.archived, archived_at: habit.archived_at } : h
+        )
+      )
+    }
+  }, [habits, todayKey, runMutation, handleAddPause])
+
+  // Custom statuses are added per habit from the day popover
+  const handleAddStatus = useCallback(async (habitId: string, statusData: HabitStatusData) => {
+    const habit = habits.find((h) => h.id === habitId)
+    if (!user || !habit) return
+
+    const tempId = `temp-${Date.now()}`
+    const position = (habit.statuses ?? []).reduce((max, s) => Math.max(max, s.position), -1) + 1
+
+    // Optimistic update
+    const status: HabitStatus = { id: tempId, habit_id: habitId, position, created_at: new Date().toISOString(), ...statusData }
+    setHabits((prev) => prev.map((h) => (h.id === habitId ? { ...h, statuses: [...(h.statuses ?? []), status] } : h)))
+
+    const { data, error } = await runMutation({
+      type: 'insert',
+      table: 'habit_statuses',
+      key: statusKey(habitId, tempId),
+      values: { habit_id: habitId, position, ...statusData },
+      tempId,
+    })
+
+    if (error) {
+      fetchHabits() // Revert on error
+      throw new Error(error.message)
+    }
+    if (data) {
+      const saved = data as unknown as HabitStatus
+      setHabits((prev) =>
+        prev.map((h) =>
+          h.id === habitId
+            ? { ...h, statuses: (h.statuses ?? []).filter((s) => s.id !== saved.id).map((s) => (s.id === tempId ? saved : s)) }
+            : h
+        )
+      )
+    }
+  }, [user, habits, runMutation, fetchHabits])
+
+  // Entries with a deleted status keep the built-in status stored alongside it. Resolves to whether it was deleted
+  const removeStatus = useCallback(async (status: HabitStatus): Promise<boolean> => {
+    // Optimistic update
+    setHabits((prev) =>
+      prev.map((h) =>
+        h.id === status.habit_id
+          ? {
+              ...h,
+              statuses: (h.statuses ?? []).filter((s) => s.id !== status.id),
+              entries: h.entries.map((e) => (e.status_id === status.id ? { ...e, status_id: null } : e)),
+            }
+          : h
+      )
+    )
 
-    const { error } = await supabase.from('habits').delete().eq('id', habitId)
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'habit_statuses',
+      key: statusKey(status.habit_id, status.id),
+      match: { id: status.id },
+    })
+
+    if (error) {
+      console.error('Error deleting status:', error.message || error.code || error)
+      fetchHabits() // Revert on error
+      return false
+    }
+    return true
+  }, [runMutation, fetchHabits])
+
+  // Re-create a deleted status with its original ID and point the days that used it back at it
+  const restoreStatus = useCallback(async (status: HabitStatus, dates: string[]): Promise<boolean> => {
+    setHabits((prev) =>
+      prev.map((h) =>
+        h.id === status.habit_id
+          ? {
+              ...h,
+              statuses: (h.statuses ?? []).some((s) => s.id === status.id) ? h.statuses : [...(h.statuses ?? []), status],
+              entries: h.entries.map((e) => (dates.includes(e.date) ? { ...e, status_id: status.id } : e)),
+            }
+          : h
+      )
+    )
+
+    const { error } = await runMutation({
+      type: 'insert',
+      table: 'habit_statuses',
+      key: statusKey(status.habit_id, status.id),
+      values: { ...status },
+    })
+    if (error) {
+      console.error('Error restoring status:', error.message || error.code || error)
+      fetchHabits()
+      return false
+    }
+
+    // Matched on the day rather than the entry ID, which may still be a temp one
+    const results = await Promise.all(
+      dates.map((date) =>
+        runMutation({
+          type: 'update',
+          table: 'habit_entries',
+          key: entryKey(status.habit_id, date),
+          values: { status_id: status.id },
+          match: { habit_id: status.habit_id, date },
+        })
+      )
+    )
+    const failed = results.find((result) => result.error)
+    if (failed?.error) {
+      console.error('Error restoring status days:', failed.error.message || failed.error.code || failed.error)
+      fetchHabits()
+    }
+    return true
+  }, [runMutation, fetchHabits])
+
+  const handleDeleteStatus = useCallback(async (habitId: string, statusId: string) => {
+    const habit = habits.find((h) => h.id === habitId)
+    const status = habit?.statuses?.find((s) => s.id === statusId)
+    if (!habit || !status) return
+
+    const dates = habit.entries.filter((e) => e.status_id === statusId).map((e) => e.date)
+    const usage = dates.length === 0 ? 'No days use it yet.'
+      : `${dates.length} ${dates.length === 1 ? 'day uses' : 'days use'} it and will keep their built-in status.`
+    if (!confirm(`Delete the "${status.label}" status? ${usage}`)) return
+
+    pushAction({
+      label: `Deleted status "${status.label}"`,
+      undo: () => restoreStatus(status, dates),
+      redo: () => removeStatus(status),
+    })
+    await removeStatus(status)
+  }, [habits, pushAction, restoreStatus, removeStatus])
+
+  // Resolves to whether the pauses were removed
+  const removePause = useCallback(async (habitIds: string[], startDate: string, endDate: string): Promise<boolean> => {
+    // Optimistic update
+    setHabits((prev) =>
+      prev.map((h) =>
+        habitIds.includes(h.id)
+          ? { ...h, pauses: (h.pauses ?? []).filter((p) => p.start_date !== startDate || p.end_date !== endDate) }
+          : h
+      )
+    )
+
+    const results = await Promise.all(habitIds.map((habitId) =>
+      runMutation({
+        type: 'delete',
+        table: 'habit_pauses',
+        key: pauseKey(habitId, startDate, endDate),
+        match: { habit_id: habitId, start_date: startDate, end_date: endDate },
+      })
+    ))
+
+    const failed = results.find((result) => result.error)
+    if (failed) {
+      console.error('Error removing pause:', failed.error)
+      fetchHabits() // Revert on error
+      return false
+    }
+    return true
+  }, [runMutation, fetchHabits])
+
+  // Pauses removed together share a date range and reason, so undo adds them back as one
+  const handleRemovePause = useCallback(async (habitIds: string[], startDate: string, endDate: string) => {
+    const removed = habits
+      .filter((h) => habitIds.includes(h.id))
+      .flatMap((h) => (h.pauses ?? []).filter((p) => p.start_date === startDate && p.end_date === endDate))
+    if (removed.length === 0) return
+    const reason = removed[0].reason
+
+    pushAction({
+      label: `Removed pause ${format(parseISO(startDate), 'MMM d')}${startDate === endDate ? '' : ` – ${format(parseISO(endDate), 'MMM d')}`}`,
+      undo: () => handleAddPause(habitIds, startDate, endDate, reason),
+      redo: () => removePause(habitIds, startDate, endDate),
+    })
+    await removePause(habitIds, startDate, endDate)
+  }, [habits, pushAction, handleAddPause, removePause])
+
+  // Reorder by drag-and-drop - dropping on a habit places the dragged one before it,
+  // dropping elsewhere in a group moves it to the end of that group. Archived habits are
+  // renumbered too, so they can't share a position with an active one once restored
+  const handleMoveHabit = useCallback(async (habitId: string, targetId: string | null, groupName: string | null) => {
+    const reordered = moveHabit(habits, habitId, targetId, groupName)
+    const changed = reordered.filter((habit) => {
+      const before = habits.find((h) => h.id === habit.id)
+      return before && (before.position !== habit.position || (before.group_name || null) !== (habit.group_name || null))
+    })
+    if (changed.length === 0) return
+
+    // Optimistic update
+    const changedById = new Map(changed.map((h) => [h.id, h]))
+    setHabits((prev) => prev.map((h) => changedById.get(h.id) ?? h))
+
+    const results = await Promise.all(changed.map((habit) =>
+      runMutation({
+        type: 'update',
+        table: 'habits',
+        key: habitKey(habit.id),
+        values: { position: habit.position, group_name: habit.group_name },
+        match: { id: habit.id },
+      })
+    ))
+
+    const failed = results.find((result) => result.error)
+    if (failed) {
+      console.error('Error reordering habits:', failed.error)
+      fetchHabits() // Revert on error
+    }
+  }, [habits, runMutation, fetchHabits])
+
+  const handleDrop = (targetId: string | null, groupName: string | null) => {
+    if (draggingHabitId) handleMoveHabit(draggingHabitId, targetId, groupName)
+    setDraggingHabitId(null)
+    setDragHandleId(null)
+    setDropTargetId(null)
+  }
+
+  // Move a habit one place up or down within its group, for touch screens that can't drag
+  const handleStepHabit = (groupHabits: HabitWithEntries[], index: number, step: -1 | 1) => {
+    const habit = groupHabits[index]
+    const groupName = habit.group_name || null
+    if (step === -1 && index > 0) {
+      handleMoveHabit(habit.id, groupHabits[index - 1].id, groupName)
+    } else if (step === 1 && index < groupHabits.length - 1) {
+      handleMoveHabit(habit.id, groupHabits[index + 2]?.id ?? null, groupName)
+    }
+  }
+
+  // Collapsed groups are remembered per browser ('' is the ungrouped section)
+  const toggleGroup = (groupKey: string) => {
+    setCollapsedGroups((prev) => {
+      const next = prev.includes(groupKey) ? prev.filter((key) => key !== groupKey) : [...prev, groupKey]
+      localStorage.setItem('collapsed-habit-groups', JSON.stringify(next))
+      return next
+    })
+  }
+
+  const handleRestoreHabit = useCallback((habitId: string) => {
+    handleArchiveHabit(habitId, false)
+  }, [handleArchiveHabit])
+
+  // Delete a habit - its entries cascade in the database. Resolves to whether it was deleted
+  const removeHabit = useCallback(async (habit: HabitWithEntries): Promise<boolean> => {
+    // Optimistic update
+    setHabits((prev) => prev.filter((h) => h.id !== habit.id))
+
+    const { error } = await runMutation({
+      type: 'delete',
+      table: 'habits',
+      key: habitKey(habit.id),
+      match: { id: habit.id },
+    })
 
     if (error) {
       // Revert on error
       console.error('Error deleting habit:', error)
-      if (deletedHabit) {
-        setHabits((prev) => [...prev, deletedHabit])
+      setHabits((prev) => [...prev, habit])
+      return false
+    }
+    return true
+  }, [runMutation])
+
+  // Re-create a deleted habit with its original ID and all of its entries, pauses, target history,
+  // check-ins and custom statuses. Resolves to whether the habit itself came back
+  const restoreHabit = useCallback(async (habit: HabitWithEntries): Promise<boolean> => {
+    const { entries, pauses = [], target_changes = [], checkins = [], statuses = [], ...habitRow } = habit
+    setHabits((prev) => (prev.some((h) => h.id === habit.id) ? prev : [...prev, habit]))
+
+    const { error } = await runMutation({
+      type: 'insert',
+      table: 'habits',
+      key: habitKey(habit.id),
+      values: habitRow,
+    })
+    if (error) {
+      console.error('Error restoring habit:', error)
+      fetchHabits()
+      return false
+    }
+
+    // Unsaved temp rows get a fresh ID
+    const withoutTempId = <T extends { id: string }>({ id, ...row }: T) => (id.startsWith('temp-') ? row : { id, ...row })
+    // Statuses first, since entries refer to them
+    const children = [
+      { table: 'habit_statuses' as const, rows: statuses.map(withoutTempId) },
+      { table: 'habit_entries' as const, rows: entries.map(withoutTempId) },
+      { table: 'habit_pauses' as const, rows: pauses.map(withoutTempId) },
+      { table: 'habit_target_changes' as const, rows: target_changes.map(withoutTempId) },
+      { table: 'habit_checkins' as const, rows: checkins.map(withoutTempId) },
+    ]
+
+    for (const { table, rows } of children) {
+      if (rows.length === 0) continue
+      const { error: rowsError } = await runMutation({
+        type: 'insert',
+        table,
+        key: habitKey(habit.id),
+        values: rows,
+      })
+      if (rowsError) {
+        console.error(`Error restoring ${table}:`, rowsError)
+        fetchHabits()
       }
     }
+    return true
+  }, [runMutation, fetchHabits])
+
+  const handleDeleteHabit = async (habitId: string) => {
+    if (!confirm('Permanently delete this habit and all of its entries?')) return
+
+    const deletedHabit = habits.find((h) => h.id === habitId)
+    if (!deletedHabit) return
+
+    pushAction({
+      label: `Deleted "${deletedHabit.name}"`,
+      undo: () => restoreHabit(deletedHabit),
+      redo: () => removeHabit(deletedHabit),
+    })
+    await removeHabit(deletedHabit)
   }
 
   // Calculate day of year and day of quarter
   const dayProgress = useMemo(() => {
-    const today = new Date()
+    const today = parseISO(todayKey)
     const dayOfYear = getDayOfYear(today)
     const quarterStart = startOfQuarter(today)
     const dayOfQuarter = differenceInDays(today, quarterStart) + 1
@@ -369,64 +1138,42 @@ export default function HabitTracker() {
     const daysInQuarter = currentQuarter === 1 ? (isLeapYear(today.getFullYear()) ? 91 : 90)
                         : currentQuarter === 2 ? 91
                         : 92
-    return { dayOfYear, dayOfQuarter, daysInYear, daysInQuarter }
-  }, [])
-
-  // Calculate tracking streak (consecutive days with at least one habit marked done)
-  const trackingStreak = useMemo(() => {
-    if (habits.length === 0) return 0
-
-    // Get all unique dates with at least one "done" entry
-    const allDoneDates = new Set<string>()
-    habits.forEach(habit => {
-      habit.entries.forEach(entry => {
-        if (entry.status === 'done') {
-          allDoneDates.add(entry.date)
-        }
-      })
-    })
-
-    if (allDoneDates.size === 0) return 0
-
-    // Sort dates descending
-    const sortedDates = Array.from(allDoneDates).sort((a, b) => b.localeCompare(a))
+    return { dayOfYear, dayOfQuarter, daysInYear, daysInQuarter, currentQuarter }
+  }, [todayKey])
 
-    const today = new Date()
-    const todayStr = format(today, 'yyyy-MM-dd')
-    const yesterdayStr = format(subDays(today, 1), 'yyyy-MM-dd')
-
-    // Streak only counts if most recent is today or yesterday
-    const mostRecent = sortedDates[0]
-    if (mostRecent !== todayStr && mostRecent !== yesterdayStr) return 0
-
-    // Count consecutive days
-    let streak = 1
-    let currentDate = parseISO(mostRecent)
-
-    for (let i = 1; i < sortedDates.length; i++) {
-      const expectedPrev = format(subDays(currentDate, 1), 'yyyy-MM-dd')
-      if (sortedDates[i] === expectedPrev) {
-        streak++
-        currentDate = parseISO(sortedDates[i])
-      } else {
-        break
-      }
-    }
-
-    return streak
-  }, [habits])
+  // Calculate tracking streaks - days with at least one habit succeeding (a clean day on a
+  // break habit counts like a done build habit, allowed rest days are neutral), and weeks where
+  // every habit met its weekly target
+  const trackingStreak = useMemo(() => getDailyStreak(activeHabits, todayKey), [activeHabits, todayKey])
+  const weeklyStreak = useMemo(() => getWeeklyStreak(activeHabits, todayKey), [activeHabits, todayKey])
 
   const handleEditHabit = useCallback((habit: HabitWithEntries) => {
     setEditingHabit(habit)
     setShowHabitModal(true)
   }, [])
 
+  const handleOpenDay = useCallback((habitId: string, date: string) => {
+    setEditingDay({ habitId, date })
+  }, [])
+
+  const handleOpenRecords = useCallback((habitId: string) => {
+    setRecordsHabitId(habitId)
+  }, [])
+
   // Memoize quarter change handler
   const handleQuarterChange = useCallback((q: Quarter, y: number) => {
     setQuarter(q)
     setYear(y)
   }, [])
 
+  // Jump from a heatmap day to the quarter grid it belongs to
+  const handleHeatmapSelect = useCallback((date: string) => {
+    const day = parseISO(date)
+    setQuarter(`Q${Math.floor(day.getMonth() / 3) + 1}` as Quarter)
+    setYear(day.getFullYear())
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }, [])
+
   return (
     <div className="min-h-[100dvh] bg-[var(--background)] flex flex-col items-center justify-start py-4 lg:py-6 px-4">
       {/* Main Container */}
@@ -488,6 +1235,17 @@ export default function HabitTracker() {
             <div className="flex items-center gap-2 flex-shrink-0">
               {user ? (
                 <>
+                  {/* Sync status - shown while offline or with changes waiting to sync */}
+                  {(!isOnline || pendingKeys.size > 0) && (
+                    <span
+                      className="pill-button flex items-center gap-1 px-2 py-1 text-[10px] font-medium bg-[var(--card-bg)] text-[var(--muted)]"
+                      title={pendingKeys.size > 0 ? `${pendingKeys.size} change${pendingKeys.size !== 1 ? 's' : ''} waiting to sync` : 'Changes will sync when you reconnect'}
+                    >
+                      {isOnline ? <RefreshCw size={12} className={isSyncing ? 'animate-spin' : ''} /> : <CloudOff size={12} />}
+                      {isOnline ? 'Syncing' : 'Offline'}
+                      {pendingKeys.size > 0 && ` · ${pendingKeys.size}`}
+                    </span>
+                  )}
                   {/* Username display */}
                   <span className="hidden sm:block text-sm text-[var(--muted)] font-medium">
                     {profile?.display_name || user.email?.split('@')[0]}
@@ -533,6 +1291,29 @@ export default function HabitTracker() {
                               <User size={14} className="text-[var(--muted-light)]" />
                             </div>
                           </button>
+                          <button
+                            onClick={() => {
+                              setShowPauseModal(true)
+                              setShowSettings(false)
+                            }}
+                            className="w-full flex items-center gap-2 px-4 py-3 text-sm text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--accent-bg)] transition-colors"
+                          >
+                            <Pause size={16} />
+                            Pause Habits
+                          </button>
+                          <button
+                            onClick={() => {
+                              setShowArchivedModal(true)
+                              setShowSettings(false)
+                            }}
+                            className="w-full flex items-center gap-2 px-4 py-3 text-sm text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--accent-bg)] transition-colors"
+                          >
+                            <Archive size={16} />
+                            Archived Habits
+                            {archivedHabits.length > 0 && (
+                              <span className="ml-auto text-xs text-[var(--muted-light)]">{archivedHabits.length}</span>
+                            )}
+                          </button>
                           {/* Mantra lock toggle in settings */}
                           {mantra && (
                             <button
@@ -587,7 +1368,7 @@ export default function HabitTracker() {
               {/* Quarter Progress */}
               <div className="flex items-center gap-2">
                 <div className="text-sm">
-                  <span className="font-semibold text-[var(--foreground)]">Q{Math.floor(new Date().getMonth() / 3) + 1} Day {dayProgress.dayOfQuarter}</span>
+                  <span className="font-semibold text-[var(--foreground)]">Q{dayProgress.currentQuarter} Day {dayProgress.dayOfQuarter}</span>
                   <span className="text-[var(--muted)]">/{dayProgress.daysInQuarter}</span>
                 </div>
               </div>
@@ -600,6 +1381,11 @@ export default function HabitTracker() {
                     {trackingStreak}
                   </span>
                   <span className="text-[var(--muted)]"> day streak</span>
+                  <span className="text-[var(--muted)]"> · </span>
+                  <span className={`font-semibold ${weeklyStreak > 0 ? "text-orange-500" : "text-[var(--muted)]"}`}>
+                    {weeklyStreak}
+                  </span>
+                  <span className="text-[var(--muted)]"> wk</span>
                 </div>
               </div>
             </div>
@@ -660,7 +1446,7 @@ export default function HabitTracker() {
         {/* Content Area */}
         <main className="space-y-4">
         {/* Goals Section - Collapsible on desktop */}
-        {user && <GoalsSection quarter={quarter} year={year} />}
+        {user && <GoalsSection quarter={quarter} year={year} habits={habits} />}
 
         {/* Habits List */}
         {authLoading ? (
@@ -720,7 +1506,7 @@ export default function HabitTracker() {
               </div>
             ))}
           </div>
-        ) : habits.length === 0 ? (
+        ) : activeHabits.length === 0 ? (
           // Empty state - No habits yet
           <div className="glass-card p-8 text-center">
             <div className="w-14 h-14 mx-auto mb-4 rounded-2xl bg-[var(--accent-bg)] flex items-center justify-center">
@@ -763,25 +1549,138 @@ export default function HabitTracker() {
             </div>
           </div>
         ) : (
-          // Habits list - responsive grid
-          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
-            {habits.map((habit) => (
-              <HabitCard
-                key={habit.id}
-                habit={habit}
-                quarter={quarter}
-                year={year}
-                onDayClick={handleDayClick}
-                onNoteUpdate={handleUpdateNote}
-                onEdit={handleEditHabit}
-                onDelete={handleDeleteHabit}
-              />
-            ))}
+          // Habits list - collapsible sections once any habit has a group, each a responsive grid
+          <div className="space-y-4">
+            {habitGroups.map((group) => {
+              const groupKey = group.name ?? ''
+              const isCollapsed = hasGroups && collapsedGroups.includes(groupKey)
+              const isDropTarget = dropTargetId === `group:${groupKey}`
+
+              return (
+                <section
+                  key={groupKey}
+                  onDragOver={(e) => {
+                    if (!draggingHabitId) return
+                    e.preventDefault()
+                    setDropTargetId(`group:${groupKey}`)
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    handleDrop(null, group.name)
+                  }}
+                  className={`rounded-[var(--radius-card)] transition-colors ${isDropTarget ? 'bg-[var(--accent-bg)]' : ''}`}
+                >
+                  {hasGroups && (
+                    <button
+                      onClick={() => toggleGroup(groupKey)}
+                      className="w-full flex items-center gap-2 px-1 mb-2 text-left"
+                    >
+                      <ChevronDown
+                        size={14}
+                        className={`text-[var(--muted)] transition-transform ${isCollapsed ? '-rotate-90' : ''}`}
+                      />
+                      <span className="text-xs font-semibold text-[var(--foreground)] uppercase tracking-wide">
+                        {group.name ?? 'Other'}
+                      </span>
+                      <span className="text-xs text-[var(--muted)] px-1.5 py-0.5 bg-[var(--card-bg)] rounded-full">
+                        {group.habits.length}
+                      </span>
+                    </button>
+                  )}
+
+                  {!isCollapsed && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                      {group.habits.map((habit, index) => (
+                        <div
+                          key={habit.id}
+                          draggable={dragHandleId === habit.id}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move'
+                            e.dataTransfer.setData('text/plain', habit.id)
+                            setDraggingHabitId(habit.id)
+                          }}
+                          onDragEnd={() => {
+                            setDraggingHabitId(null)
+                            setDragHandleId(null)
+                            setDropTargetId(null)
+                          }}
+                          onDragOver={(e) => {
+                            if (!draggingHabitId) return
+                            e.preventDefault()
+                            e.stopPropagation()
+                            setDropTargetId(habit.id)
+                          }}
+                          onDrop={(e) => {
+                            e.preventDefault()
+                            e.stopPropagation()
+                            handleDrop(habit.id, habit.group_name || null)
+                          }}
+                          className={`relative group/habit rounded-[var(--radius-card)] ${
+                            draggingHabitId === habit.id ? 'opacity-50' : ''
+                          } ${
+                            dropTargetId === habit.id && draggingHabitId !== habit.id ? 'ring-2 ring-[var(--accent-500)]' : ''
+                          }`}
+                        >
+                          <div className="absolute top-0.5 left-1/2 -translate-x-1/2 z-10 flex items-center text-[var(--muted-light)] opacity-0 group-hover/habit:opacity-100 pointer-coarse:opacity-100 transition-opacity">
+                            <button
+                              onClick={() => handleStepHabit(group.habits, index, -1)}
+                              disabled={index === 0}
+                              className="px-1 hover:text-[var(--foreground)] disabled:opacity-30 disabled:hover:text-[var(--muted-light)]"
+                              title="Move up"
+                            >
+                              <ChevronUp size={14} />
+                            </button>
+                            <button
+                              onMouseDown={() => setDragHandleId(habit.id)}
+                              onMouseUp={() => setDragHandleId(null)}
+                              className="px-1 hover:text-[var(--foreground)] cursor-grab active:cursor-grabbing pointer-coarse:hidden"
+                              title="Drag to reorder"
+                            >
+                              <GripHorizontal size={14} />
+                            </button>
+                            <button
+                              onClick={() => handleStepHabit(group.habits, index, 1)}
+                              disabled={index === group.habits.length - 1}
+                              className="px-1 hover:text-[var(--foreground)] disabled:opacity-30 disabled:hover:text-[var(--muted-light)]"
+                              title="Move down"
+                            >
+                              <ChevronDown size={14} />
+                            </button>
+                          </div>
+                          <HabitCard
+                            habit={habit}
+                            quarter={quarter}
+                            year={year}
+                            today={todayKey}
+                            onDayClick={handleDayClick}
+                            onNoteUpdate={handleUpdateNote}
+                            onValueUpdate={handleUpdateValue}
+                            onRestDayToggle={handleToggleRestDay}
+                            onCheckin={handleCheckin}
+                            onRemoveCheckin={handleRemoveCheckin}
+                            onDayOpen={handleOpenDay}
+                            onRecordsOpen={handleOpenRecords}
+                            isPending={pendingHabitIds.has(habit.id)}
+                            onEdit={handleEditHabit}
+                            onArchive={handleArchiveHabit}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </section>
+              )
+            })}
           </div>
         )}
 
+        {/* Year heatmap - archived habits still show for the days they were active */}
+        {user && habits.length > 0 && (
+          <YearHeatmap habits={habits} today={todayKey} initialYear={year} onSelectDate={handleHeatmapSelect} />
+        )}
+
         {/* Partner Section */}
-        {user && <PartnerSection quarter={quarter} year={year} userHabits={habits} />}
+        {user && <PartnerSection quarter={quarter} year={year} userHabits={activeHabits} />}
         {user && <MonthlyComparison quarter={quarter} year={year} userHabits={habits} />}
         {user && <QuarterlyComparison quarter={quarter} year={year} userHabits={habits} />}
         </main>
@@ -796,8 +1695,73 @@ export default function HabitTracker() {
         }}
         onSave={handleSaveHabit}
         habit={editingHabit}
+        groupNames={groupNames}
+        today={todayKey}
+      />
+
+      {/* Archived Habits Modal */}
+      <ArchivedHabitsModal
+        isOpen={showArchivedModal}
+        onClose={() => setShowArchivedModal(false)}
+        habits={archivedHabits}
+        onRestore={handleRestoreHabit}
+        onDelete={handleDeleteHabit}
+      />
+
+      {/* Pause Modal */}
+      <PauseModal
+        key={showPauseModal ? 'open' : 'closed'}
+        isOpen={showPauseModal}
+        onClose={() => setShowPauseModal(false)}
+        habits={habits}
+        today={todayKey}
+        onAdd={handleAddPause}
+        onRemove={handleRemovePause}
+      />
+
+      {/* Day Entry Modal */}
+      <DayEntryModal
+        key={editingDay ? `${editingDay.habitId}-${editingDay.date}` : 'closed'}
+        isOpen={!!editingDay}
+        onClose={() => setEditingDay(null)}
+        habit={habits.find((h) => h.id === editingDay?.habitId) ?? null}
+        date={editingDay?.date ?? null}
+        onSave={handleSetEntry}
+        onAddStatus={handleAddStatus}
+        onDeleteStatus={handleDeleteStatus}
       />
 
+      {/* Habit Records Modal */}
+      <HabitDetailModal
+        isOpen={!!recordsHabitId}
+        onClose={() => setRecordsHabitId(null)}
+        habit={habits.find((h) => h.id === recordsHabitId) ?? null}
+        today={todayKey}
+      />
+
+      {/* New personal record celebration */}
+      {recordToast && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 animate-slideUp">
+          <div key={recordToast.id} className="glass-card flex items-start gap-3 pl-4 pr-2 py-3 text-sm">
+            <Trophy size={18} className="text-amber-500 flex-shrink-0 mt-0.5" />
+            <div className="min-w-0">
+              <div className="font-semibold text-[var(--foreground)] truncate max-w-[240px]">
+                New personal best · {recordToast.habitName}
+              </div>
+              {recordToast.records.map((record) => (
+                <div key={record} className="text-xs text-[var(--muted)]">{record}</div>
+              ))}
+            </div>
+            <button
+              onClick={() => setRecordToast(null)}
+              className="pill-button p-1 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Profile Modal */}
       <ProfileModal
         isOpen={showProfileModal}
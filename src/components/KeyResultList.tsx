@@ -0,0 +1,311 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, X, Check, Pencil } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { getKeyResultFraction } from '@/lib/goalProgress'
+import { KeyResult, KeyResultData, KeyResultUpdate } from '@/types/database'
+
+interface KeyResultListProps {
+  keyResults: KeyResult[]
+  canAdd: boolean
+  onAdd: (data: KeyResultData) => Promise<void>
+  onUpdateValue: (keyResult: KeyResult, value: number) => void
+  onEdit: (keyResult: KeyResult, data: KeyResultData) => Promise<void>
+  onEditUpdate: (keyResult: KeyResult, update: KeyResultUpdate, value: number) => void
+  onDeleteUpdate: (keyResult: KeyResult, update: KeyResultUpdate) => void
+  onDelete: (keyResult: KeyResult) => void
+}
+
+// Drop trailing zeros, e.g. 12.50 -> 12.5
+function formatValue(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+// Key results under a goal, with quick updates to their current value and a history of those updates
+// that can be corrected or removed
+export default function KeyResultList({ keyResults, canAdd, onAdd, onUpdateValue, onEdit, onEditUpdate, onDeleteUpdate, onDelete }: KeyResultListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editValue, setEditValue] = useState('')
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [editingUpdateId, setEditingUpdateId] = useState<string | null>(null)
+  const [editUpdateValue, setEditUpdateValue] = useState('')
+  const [isAdding, setIsAdding] = useState(false)
+  const [editingKeyResultId, setEditingKeyResultId] = useState<string | null>(null)
+  const [title, setTitle] = useState('')
+  const [startValue, setStartValue] = useState('0')
+  const [targetValue, setTargetValue] = useState('')
+  const [unit, setUnit] = useState('')
+  const [error, setError] = useState('')
+
+  const sorted = [...keyResults].sort((a, b) => a.position - b.position)
+
+  const startEditing = (keyResult: KeyResult) => {
+    setEditingId(keyResult.id)
+    setEditValue(formatValue(keyResult.current_value))
+  }
+
+  const saveValue = (keyResult: KeyResult) => {
+    const value = parseFloat(editValue)
+    setEditingId(null)
+    if (Number.isFinite(value) && value !== keyResult.current_value) {
+      onUpdateValue(keyResult, value)
+    }
+  }
+
+  const startEditingUpdate = (update: KeyResultUpdate) => {
+    setEditingUpdateId(update.id)
+    setEditUpdateValue(formatValue(update.value))
+  }
+
+  const saveUpdateValue = (keyResult: KeyResult, update: KeyResultUpdate) => {
+    const value = parseFloat(editUpdateValue)
+    setEditingUpdateId(null)
+    if (Number.isFinite(value) && value !== update.value) {
+      onEditUpdate(keyResult, update, value)
+    }
+  }
+
+  // The add form doubles as the edit form, filled in from the key result
+  const startEditingKeyResult = (keyResult: KeyResult) => {
+    setIsAdding(false)
+    setEditingKeyResultId(keyResult.id)
+    setTitle(keyResult.title)
+    setStartValue(formatValue(keyResult.start_value))
+    setTargetValue(formatValue(keyResult.target_value))
+    setUnit(keyResult.unit ?? '')
+    setError('')
+  }
+
+  const resetForm = () => {
+    setIsAdding(false)
+    setEditingKeyResultId(null)
+    setTitle('')
+    setStartValue('0')
+    setTargetValue('')
+    setUnit('')
+    setError('')
+  }
+
+  const handleSubmit = async () => {
+    const start = parseFloat(startValue)
+    const target = parseFloat(targetValue)
+    if (!title.trim()) {
+      setError('Give the key result a name')
+      return
+    }
+    if (!Number.isFinite(start) || !Number.isFinite(target)) {
+      setError('Enter a start and target value')
+      return
+    }
+    if (start === target) {
+      setError('Target must differ from the start value')
+      return
+    }
+
+    const data = { title: title.trim(), start_value: start, target_value: target, unit: unit.trim() || null }
+    const editing = keyResults.find((kr) => kr.id === editingKeyResultId)
+    try {
+      if (editing) {
+        await onEdit(editing, data)
+      } else {
+        await onAdd(data)
+      }
+      resetForm()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : editing ? 'Failed to save key result' : 'Failed to add key result')
+    }
+  }
+
+  const inputClassName = 'min-w-0 bg-transparent border border-[var(--card-border)] rounded-md text-[10px] text-[var(--foreground)] placeholder-[var(--muted-light)] outline-none py-0.5 px-1'
+
+  const renderForm = () => (
+    <div className="space-y-1 p-1 bg-[var(--card-bg)] rounded-lg">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSubmit()
+          if (e.key === 'Escape') resetForm()
+        }}
+        placeholder="e.g. Newsletter subscribers"
+        maxLength={60}
+        autoFocus
+        className={`w-full ${inputClassName}`}
+      />
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          value={startValue}
+          onChange={(e) => setStartValue(e.target.value)}
+          placeholder="From"
+          title="Start value"
+          className={`w-10 ${inputClassName}`}
+        />
+        <span className="text-[10px] text-[var(--muted-light)]">→</span>
+        <input
+          type="number"
+          value={targetValue}
+          onChange={(e) => setTargetValue(e.target.value)}
+          placeholder="To"
+          title="Target value"
+          className={`w-10 ${inputClassName}`}
+        />
+        <input
+          type="text"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+          placeholder="unit"
+          maxLength={12}
+          className={`flex-1 ${inputClassName}`}
+        />
+        <button
+          onClick={handleSubmit}
+          className="p-0.5 hover:bg-[var(--accent-bg)] rounded transition-colors"
+          title={editingKeyResultId ? 'Save key result' : 'Add key result'}
+        >
+          <Check size={12} className="text-[var(--accent-text)]" />
+        </button>
+        <button
+          onClick={resetForm}
+          className="p-0.5 hover:bg-red-500/20 rounded transition-colors"
+          title="Cancel"
+        >
+          <X size={12} className="text-[var(--muted-light)] hover:text-red-400" />
+        </button>
+      </div>
+      {error && <p className="text-[9px] text-red-400">{error}</p>}
+    </div>
+  )
+
+  return (
+    <div className="mt-1.5 space-y-1.5">
+      {sorted.map((keyResult) => {
+        const fraction = getKeyResultFraction(keyResult)
+        const updates = [...(keyResult.updates ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at))
+        return (
+          <div key={keyResult.id} className="group/kr">
+            {editingKeyResultId === keyResult.id ? renderForm() : (
+              <div className="flex items-center gap-1 text-[10px]">
+                <button
+                  onClick={() => setHistoryId(historyId === keyResult.id ? null : keyResult.id)}
+                  className="flex-1 min-w-0 text-left text-[var(--muted)] hover:text-[var(--foreground)] truncate transition-colors"
+                  title="Show update history"
+                >
+                  {keyResult.title}
+                </button>
+                {editingId === keyResult.id ? (
+                  <input
+                    type="number"
+                    value={editValue}
+                    onChange={(e) => setEditValue(e.target.value)}
+                    onBlur={() => saveValue(keyResult)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') saveValue(keyResult)
+                      if (e.key === 'Escape') setEditingId(null)
+                    }}
+                    autoFocus
+                    className={`w-14 ${inputClassName}`}
+                  />
+                ) : (
+                  <button
+                    onClick={() => startEditing(keyResult)}
+                    className="shrink-0 tabular-nums text-[var(--foreground)] hover:text-[var(--accent-text)] transition-colors"
+                    title="Update current value"
+                  >
+                    {formatValue(keyResult.current_value)}/{formatValue(keyResult.target_value)}
+                    {keyResult.unit && ` ${keyResult.unit}`}
+                  </button>
+                )}
+                <button
+                  onClick={() => startEditingKeyResult(keyResult)}
+                  className="shrink-0 opacity-0 group-hover/kr:opacity-100 transition-opacity p-0.5 hover:bg-[var(--accent-bg)] rounded"
+                  title="Edit key result"
+                >
+                  <Pencil size={10} className="text-[var(--muted-light)] hover:text-[var(--accent-text)]" />
+                </button>
+                <button
+                  onClick={() => onDelete(keyResult)}
+                  className="shrink-0 opacity-0 group-hover/kr:opacity-100 transition-opacity p-0.5 hover:bg-red-500/20 rounded"
+                  title="Delete key result"
+                >
+                  <X size={10} className="text-[var(--muted-light)] hover:text-red-400" />
+                </button>
+              </div>
+            )}
+            <div className="h-1 rounded-full bg-[var(--card-border)] overflow-hidden">
+              <div
+                className="h-full rounded-full bg-[var(--accent-400)] transition-all"
+                style={{ width: `${fraction * 100}%` }}
+              />
+            </div>
+
+            {/* How the value moved, newest first */}
+            {historyId === keyResult.id && (
+              <div className="mt-1 pl-1 space-y-0.5 text-[9px] text-[var(--muted)]">
+                {updates.map((update) => (
+                  <div key={update.id} className="group/update flex items-center justify-between gap-2">
+                    <span>{format(parseISO(update.created_at), 'MMM d, HH:mm')}</span>
+                    <span className="flex items-center gap-0.5">
+                      {editingUpdateId === update.id ? (
+                        <input
+                          type="number"
+                          value={editUpdateValue}
+                          onChange={(e) => setEditUpdateValue(e.target.value)}
+                          onBlur={() => saveUpdateValue(keyResult, update)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') saveUpdateValue(keyResult, update)
+                            if (e.key === 'Escape') setEditingUpdateId(null)
+                          }}
+                          autoFocus
+                          className={`w-12 ${inputClassName}`}
+                        />
+                      ) : (
+                        <button
+                          onClick={() => startEditingUpdate(update)}
+                          className="tabular-nums hover:text-[var(--accent-text)] transition-colors"
+                          title="Correct this value"
+                        >
+                          {formatValue(update.value)}
+                        </button>
+                      )}
+                      <button
+                        onClick={() => onDeleteUpdate(keyResult, update)}
+                        className="opacity-0 group-hover/update:opacity-100 transition-opacity hover:text-red-400"
+                        title="Delete this update"
+                      >
+                        <X size={8} />
+                      </button>
+                    </span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-2 text-[var(--muted-light)]">
+                  <span>Started {format(parseISO(keyResult.created_at), 'MMM d')}</span>
+                  <span className="tabular-nums">{formatValue(keyResult.start_value)}</span>
+                </div>
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {isAdding ? (
+        renderForm()
+      ) : (
+        canAdd && (
+          <button
+            onClick={() => {
+              resetForm()
+              setIsAdding(true)
+            }}
+            className="flex items-center gap-0.5 text-[9px] text-[var(--muted-light)] hover:text-[var(--accent-text)] opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+          >
+            <Plus size={9} />
+            Key result
+          </button>
+        )
+      )}
+    </div>
+  )
+}
@@ -5,11 +5,18 @@ import { Calendar, Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp }
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
 import { Profile, HabitWithEntries, Partnership } from '@/types/database'
+import { isHabitActiveOn } from '@/lib/weeklyCalculations'
+import { scoreHabit, combineScores, getScorePercentage, scoreGroups, GroupScore } from '@/lib/habitScoring'
+import { sortHabits } from '@/lib/habitOrder'
+import { usePartnerChanges } from '@/hooks/usePartnerChanges'
+import GroupBreakdown from './GroupBreakdown'
+import { getToday, getTodayKey } from '@/lib/dayBoundary'
 import {
   format,
   eachDayOfInterval,
   addDays,
-  getWeek
+  getWeek,
+  parseISO
 } from 'date-fns'
 
 // Define 4-week periods for each year
@@ -78,8 +85,7 @@ function getFourWeekPeriods(year: number): FourWeekPeriod[] {
   return periods
 }
 
-function getCurrentPeriod(): FourWeekPeriod {
-  const today = new Date()
+function getCurrentPeriod(today: Date): FourWeekPeriod {
   const year = today.getFullYear()
   const periods = getFourWeekPeriods(year)
 
@@ -125,7 +131,7 @@ interface HabitMonthlyData {
   habitName: string
   habitColor: string
   doneCount: number
-  totalDays: number
+  targetDays: number
   percentage: number
 }
 
@@ -135,6 +141,7 @@ interface UserMonthlyData {
   overallPercentage: number
   weeklyTrend: WeekData[]
   habitData: HabitMonthlyData[]
+  groupData: GroupScore[] // Empty unless the user groups their habits
   totalDone: number
   totalPossible: number
 }
@@ -142,10 +149,10 @@ interface UserMonthlyData {
 function calculateMonthlyData(
   userId: string,
   displayName: string,
-  habits: HabitWithEntries[],
-  period: FourWeekPeriod
+  allHabits: HabitWithEntries[],
+  period: FourWeekPeriod,
+  today: Date
 ): UserMonthlyData {
-  const today = new Date()
   const effectiveEnd = period.endDate > today ? today : period.endDate
 
   // Only count days up to today if we're in the current period
@@ -156,76 +163,56 @@ function calculateMonthlyData(
 
   const pastDays = daysInPeriod.filter(d => d <= today)
 
+  // Archived habits only count for the days before they were archived
+  const habits = sortHabits(allHabits.filter(habit => pastDays.some(d => isHabitActiveOn(habit, d))))
+
   // Calculate weekly breakdown
   const weeklyTrend: WeekData[] = []
-  const weeksInMonth = new Map<number, { days: Date[], doneCount: number }>()
+  const weeksInMonth = new Map<number, Date[]>()
 
   pastDays.forEach(day => {
     const weekNum = getWeek(day, { weekStartsOn: 1 })
     if (!weeksInMonth.has(weekNum)) {
-      weeksInMonth.set(weekNum, { days: [], doneCount: 0 })
+      weeksInMonth.set(weekNum, [])
     }
-    weeksInMonth.get(weekNum)!.days.push(day)
-  })
-
-  // Calculate done count per week
-  habits.forEach(habit => {
-    habit.entries.forEach(entry => {
-      if (entry.status === 'done') {
-        const entryDate = new Date(entry.date)
-        if (entryDate >= period.startDate && entryDate <= effectiveEnd) {
-          const weekNum = getWeek(entryDate, { weekStartsOn: 1 })
-          const weekData = weeksInMonth.get(weekNum)
-          if (weekData) {
-            weekData.doneCount++
-          }
-        }
-      }
-    })
+    weeksInMonth.get(weekNum)!.push(day)
   })
 
-  // Convert to array and calculate percentages
+  // Convert to array and score each week against every habit's weekly target
   let weekIndex = 1
   Array.from(weeksInMonth.entries())
     .sort((a, b) => a[0] - b[0])
-    .forEach(([weekNum, data]) => {
-      const totalPossible = data.days.length * habits.length
-      const percentage = totalPossible > 0 ? Math.round((data.doneCount / totalPossible) * 100) : 0
+    .forEach(([weekNum, days]) => {
+      const score = combineScores(habits.map(habit => scoreHabit(habit, days)))
       weeklyTrend.push({
         weekNum,
         label: `W${weekIndex}`,
-        percentage,
-        doneCount: data.doneCount,
-        totalPossible
+        percentage: getScorePercentage(score),
+        doneCount: score.completed,
+        totalPossible: score.expected
       })
       weekIndex++
     })
 
   // Calculate per-habit monthly data
-  const habitData: HabitMonthlyData[] = habits.map(habit => {
-    const doneCount = habit.entries.filter(entry => {
-      if (entry.status !== 'done') return false
-      const entryDate = new Date(entry.date)
-      return entryDate >= period.startDate && entryDate <= effectiveEnd
-    }).length
-
-    const totalDays = pastDays.length
-    const percentage = totalDays > 0 ? Math.round((doneCount / totalDays) * 100) : 0
-
-    return {
-      habitId: habit.id,
-      habitName: habit.name,
-      habitColor: habit.color,
-      doneCount,
-      totalDays,
-      percentage
-    }
-  })
+  const habitScores = habits.map(habit => scoreHabit(habit, pastDays))
+  const habitData: HabitMonthlyData[] = habits.map((habit, i) => ({
+    habitId: habit.id,
+    habitName: habit.name,
+    habitColor: habit.color,
+    doneCount: habitScores[i].completed,
+    targetDays: habitScores[i].expected,
+    percentage: getScorePercentage(habitScores[i])
+  }))
+
+  // Calculate per-group data
+  const groupData = scoreGroups(habits, habitScores)
 
   // Calculate overall
-  const totalDone = habitData.reduce((sum, h) => sum + h.doneCount, 0)
-  const totalPossible = pastDays.length * habits.length
-  const overallPercentage = totalPossible > 0 ? Math.round((totalDone / totalPossible) * 100) : 0
+  const overall = combineScores(habitScores)
+  const totalDone = overall.completed
+  const totalPossible = overall.expected
+  const overallPercentage = getScorePercentage(overall)
 
   return {
     userId,
@@ -233,6 +220,7 @@ function calculateMonthlyData(
     overallPercentage,
     weeklyTrend,
     habitData,
+    groupData,
     totalDone,
     totalPossible
   }
@@ -242,7 +230,9 @@ export default function MonthlyComparison({ userHabits }: MonthlyComparisonProps
   const { user, profile: userProfile } = useAuth()
   const [partners, setPartners] = useState<PartnerData[]>([])
   const [loading, setLoading] = useState(true)
-  const [currentPeriod, setCurrentPeriod] = useState<FourWeekPeriod>(() => getCurrentPeriod())
+  // Each person's days are judged by their own timezone and day boundary
+  const todayKey = getTodayKey(userProfile)
+  const [currentPeriod, setCurrentPeriod] = useState<FourWeekPeriod>(() => getCurrentPeriod(getToday(userProfile)))
   const [isCollapsed, setIsCollapsed] = useState(true)
 
   const supabase = useMemo(() => createClient(), [])
@@ -276,7 +266,7 @@ export default function MonthlyComparison({ userHabits }: MonthlyComparisonProps
 
       const [profilesResult, habitsResult] = await Promise.all([
         supabase.from('profiles').select('*').in('id', partnerIds),
-        supabase.from('habits').select('*, entries:habit_entries(*)').in('user_id', partnerIds).eq('archived', false)
+        supabase.from('habits').select('*, entries:habit_entries(*), pauses:habit_pauses(*), target_changes:habit_target_changes(*), checkins:habit_checkins(*), statuses:habit_statuses(*)').in('user_id', partnerIds)
       ])
 
       const profiles = profilesResult.data
@@ -313,6 +303,9 @@ export default function MonthlyComparison({ userHabits }: MonthlyComparisonProps
     }
   }, [userId, fetchPartners])
 
+  // Live updates to partners' habits and check-ins
+  usePartnerChanges('monthly-comparison', userId, partners, setPartners, fetchPartners)
+
   // Period navigation
   const goToPreviousPeriod = () => {
     const periods = getFourWeekPeriods(currentPeriod.year)
@@ -338,12 +331,12 @@ export default function MonthlyComparison({ userHabits }: MonthlyComparisonProps
     }
   }
 
-  const goToCurrentPeriod = () => setCurrentPeriod(getCurrentPeriod())
+  const goToCurrentPeriod = () => setCurrentPeriod(getCurrentPeriod(parseISO(todayKey)))
 
   const isCurrentPeriod = useMemo(() => {
-    const current = getCurrentPeriod()
+    const current = getCurrentPeriod(parseISO(todayKey))
     return currentPeriod.year === current.year && currentPeriod.periodNumber === current.periodNumber
-  }, [currentPeriod])
+  }, [currentPeriod, todayKey])
 
   // Calculate monthly data
   const myMonthlyData = useMemo(() =>
@@ -351,21 +344,26 @@ export default function MonthlyComparison({ userHabits }: MonthlyComparisonProps
       userId || '',
       userProfile?.display_name || user?.email?.split('@')[0] || 'You',
       userHabits,
-      currentPeriod
+      currentPeriod,
+      parseISO(todayKey)
     ),
-    [userId, userProfile, user, userHabits, currentPeriod]
+    [userId, userProfile, user, userHabits, currentPeriod, todayKey]
   )
 
+  // Each partner's today as a key, so the data moves on when one of their days rolls over
+  const partnerTodaysKey = partners.map((partner) => getTodayKey(partner.profile)).join(',')
+
   const partnersMonthlyData = useMemo(() =>
-    partners.map(partner =>
+    partners.map((partner, i) =>
       calculateMonthlyData(
         partner.profile.id,
         partner.profile.display_name || partner.profile.email.split('@')[0],
         partner.habits,
-        currentPeriod
+        currentPeriod,
+        parseISO(partnerTodaysKey.split(',')[i])
       )
     ),
-    [partners, currentPeriod]
+    [partners, currentPeriod, partnerTodaysKey]
   )
 
   // Combine and sort for leaderboard
@@ -569,6 +567,9 @@ function MonthlyUserCard({
         </div>
       </div>
 
+      {/* Per Group Breakdown */}
+      <GroupBreakdown groups={userData.groupData} />
+
       {/* Per Habit Breakdown */}
       <div className="border-t border-[var(--card-border)] pt-3">
         <p className="text-xs text-[var(--muted)] text-center mb-2">
@@ -596,7 +597,7 @@ function MonthlyUserCard({
                 />
               </div>
               <span className="text-[9px] text-[var(--muted)] w-12 text-right">
-                {habit.doneCount}/{habit.totalDays}
+                {habit.doneCount}/{habit.targetDays}
               </span>
             </div>
           ))}
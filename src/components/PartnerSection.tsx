@@ -1,12 +1,18 @@
 'use client'
 
 import { useState, useEffect, useMemo, useCallback } from 'react'
-import { Users, Loader2, Check, ChevronLeft, ChevronRight, UserPlus, X, Trophy } from 'lucide-react'
+import { Users, Loader2, Check, ChevronLeft, ChevronRight, UserPlus, X, Trophy, CloudOff } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
+import { useSync } from '@/context/SyncContext'
+import { partnershipKey } from '@/lib/offlineQueue'
 import { Profile, HabitWithEntries, Quarter, Partnership } from '@/types/database'
-import { format, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks, subWeeks, isSameWeek, isAfter } from 'date-fns'
-import { getWeekDays, calculateUserWeeklyData, UserWeeklyData, DayColumnData } from '@/lib/weeklyCalculations'
+import { format, startOfWeek, endOfWeek, eachDayOfInterval, addWeeks, subWeeks, isSameWeek, isAfter, parseISO } from 'date-fns'
+import { usePartnerChanges } from '@/hooks/usePartnerChanges'
+import { getToday, getTodayKey } from '@/lib/dayBoundary'
+import { sortHabits } from '@/lib/habitOrder'
+import { getWeekDays, calculateUserWeeklyData, isScheduledDay, isPausedOn, getDayCompletion, UserWeeklyData } from '@/lib/weeklyCalculations'
+import { getCustomStatus } from '@/lib/customStatuses'
 
 interface PartnerSectionProps {
   quarter: Quarter
@@ -22,6 +28,7 @@ interface PartnerData {
 
 export default function PartnerSection({ quarter, year, userHabits }: PartnerSectionProps) {
   const { user, profile: userProfile } = useAuth()
+  const { isOnline, lastSyncedAt, runMutation } = useSync()
   const [partners, setPartners] = useState<PartnerData[]>([])
   const [allUsers, setAllUsers] = useState<Profile[]>([])
   const [friendIds, setFriendIds] = useState<Set<string>>(new Set())
@@ -29,8 +36,10 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
   const [addingUserId, setAddingUserId] = useState<string | null>(null)
   const [removingUserId, setRemovingUserId] = useState<string | null>(null)
   const [showAddModal, setShowAddModal] = useState(false)
+  // Each person's days are judged by their own timezone and day boundary
+  const todayKey = getTodayKey(userProfile)
   const [currentWeekStart, setCurrentWeekStart] = useState(() =>
-    startOfWeek(new Date(), { weekStartsOn: 1 })
+    startOfWeek(getToday(userProfile), { weekStartsOn: 1 })
   )
 
   const supabase = useMemo(() => createClient(), [])
@@ -83,7 +92,7 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
 
       const [profilesResult, habitsResult] = await Promise.all([
         supabase.from('profiles').select('*').in('id', partnerIds),
-        supabase.from('habits').select('*, entries:habit_entries(*)').in('user_id', partnerIds).eq('archived', false)
+        supabase.from('habits').select('*, entries:habit_entries(*), pauses:habit_pauses(*), target_changes:habit_target_changes(*), checkins:habit_checkins(*), statuses:habit_statuses(*)').in('user_id', partnerIds).eq('archived', false)
       ])
 
       const profiles = profilesResult.data
@@ -150,8 +159,17 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
     }
   }, [userId, quarter, year, fetchPartners, fetchAllUsers])
 
+  // Pick up queued partnership changes once they have synced
+  useEffect(() => {
+    if (lastSyncedAt) fetchPartners()
+  }, [lastSyncedAt, fetchPartners])
+
+  // Live updates to partners' habits and check-ins
+  usePartnerChanges('partner-section', userId, partners, setPartners, fetchPartners, { includeArchived: false })
+
+  // Adding needs to look up an existing invite in either direction, so it only works online
   const handleAddFriend = async (partnerId: string) => {
-    if (!userId) return
+    if (!userId || !isOnline) return
 
     setAddingUserId(partnerId)
 
@@ -162,20 +180,21 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
         .or(`and(user_id.eq.${userId},partner_id.eq.${partnerId}),and(user_id.eq.${partnerId},partner_id.eq.${userId})`)
         .single()
 
-      if (existing) {
-        await supabase
-          .from('partnerships')
-          .update({ status: 'accepted' })
-          .eq('id', existing.id)
-      } else {
-        await supabase
-          .from('partnerships')
-          .insert({
-            user_id: userId,
-            partner_id: partnerId,
-            status: 'accepted',
+      const { error } = existing
+        ? await runMutation({
+            type: 'update',
+            table: 'partnerships',
+            key: partnershipKey(partnerId),
+            values: { status: 'accepted' },
+            match: { id: existing.id },
           })
-      }
+        : await runMutation({
+            type: 'insert',
+            table: 'partnerships',
+            key: partnershipKey(partnerId),
+            values: { user_id: userId, partner_id: partnerId, status: 'accepted' },
+          })
+      if (error) console.error('Error adding friend:', error)
 
       await fetchPartners()
     } catch (error) {
@@ -185,30 +204,41 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
     }
   }
 
+  // Removing queues while offline like other writes
   const handleRemoveFriend = async (partnershipId: string, profileId: string) => {
     setRemovingUserId(profileId)
-    try {
-      await supabase
-        .from('partnerships')
-        .delete()
-        .eq('id', partnershipId)
 
-      await fetchPartners()
-    } catch (error) {
+    // Optimistic update
+    setPartners((prev) => prev.filter((p) => p.partnership.id !== partnershipId))
+    setFriendIds((prev) => {
+      const next = new Set(prev)
+      next.delete(profileId)
+      return next
+    })
+
+    const { error, queued } = await runMutation({
+      type: 'delete',
+      table: 'partnerships',
+      key: partnershipKey(profileId),
+      match: { id: partnershipId },
+    })
+
+    if (error) {
       console.error('Error removing friend:', error)
-    } finally {
-      setRemovingUserId(null)
     }
+    // Queued removals refetch once they sync
+    if (!queued) await fetchPartners()
+    setRemovingUserId(null)
   }
 
   // Week navigation
   const goToPreviousWeek = () => setCurrentWeekStart(prev => subWeeks(prev, 1))
   const goToNextWeek = () => setCurrentWeekStart(prev => addWeeks(prev, 1))
-  const goToCurrentWeek = () => setCurrentWeekStart(startOfWeek(new Date(), { weekStartsOn: 1 }))
+  const goToCurrentWeek = () => setCurrentWeekStart(startOfWeek(parseISO(todayKey), { weekStartsOn: 1 }))
 
-  const isCurrentWeek = isSameWeek(currentWeekStart, new Date(), { weekStartsOn: 1 })
+  const isCurrentWeek = isSameWeek(currentWeekStart, parseISO(todayKey), { weekStartsOn: 1 })
   const weekEnd = endOfWeek(currentWeekStart, { weekStartsOn: 1 })
-  const weekDays = useMemo(() => getWeekDays(currentWeekStart), [currentWeekStart])
+  const weekDays = useMemo(() => getWeekDays(currentWeekStart, todayKey), [currentWeekStart, todayKey])
 
   // Calculate weekly data for current user and partners
   const myWeeklyData = useMemo(() =>
@@ -222,17 +252,20 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
     [userId, userProfile, user, userHabits, weekDays]
   )
 
+  // Each partner's today as a key, so the data moves on when one of their days rolls over
+  const partnerTodaysKey = partners.map((partner) => getTodayKey(partner.profile)).join(',')
+
   const partnersWeeklyData = useMemo(() =>
-    partners.map(partner =>
+    partners.map((partner, i) =>
       calculateUserWeeklyData(
         partner.profile.id,
         partner.profile.display_name || partner.profile.email.split('@')[0],
         partner.profile.email,
-        partner.habits,
-        weekDays
+        sortHabits(partner.habits),
+        getWeekDays(currentWeekStart, partnerTodaysKey.split(',')[i])
       )
     ),
-    [partners, weekDays]
+    [partners, currentWeekStart, partnerTodaysKey]
   )
 
   // Combine all users and sort by percentage for leaderboard
@@ -366,7 +399,6 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
                       <UserComparisonCard
                         key={userData.userId}
                         userData={userData}
-                        weekDays={weekDays}
                         isCurrentUser={isMe}
                       />
                     )
@@ -399,6 +431,13 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
               </button>
             </div>
 
+            {!isOnline && (
+              <p className="flex items-center gap-1.5 text-[10px] text-[var(--muted)] mb-2">
+                <CloudOff size={12} />
+                You&apos;re offline - removals sync when you reconnect, adding friends needs a connection
+              </p>
+            )}
+
             <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
               {allUsers.length === 0 ? (
                 <div className="text-center py-8">
@@ -412,6 +451,7 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
                   const isAdding = addingUserId === profile.id
                   const isRemoving = removingUserId === profile.id
                   const isLoading = isAdding || isRemoving
+                  const isOfflineAdd = !isOnline && !isFriend
 
                   return (
                     <button
@@ -423,7 +463,8 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
                           handleAddFriend(profile.id)
                         }
                       }}
-                      disabled={isLoading}
+                      disabled={isLoading || isOfflineAdd}
+                      title={isOfflineAdd ? 'Reconnect to add friends' : undefined}
                       className={`
                         w-full flex items-center justify-between p-3 rounded-xl transition-all
                         ${isFriend
@@ -485,13 +526,12 @@ export default function PartnerSection({ quarter, year, userHabits }: PartnerSec
 // User Comparison Card Component
 function UserComparisonCard({
   userData,
-  weekDays,
   isCurrentUser
 }: {
   userData: UserWeeklyData
-  weekDays: DayColumnData[]
   isCurrentUser: boolean
 }) {
+  const { weekDays } = userData
   if (userData.habits.length === 0) {
     return (
       <div className={`bg-[var(--card-bg)] rounded-xl p-4 min-w-[280px] flex-shrink-0 border ${isCurrentUser ? 'border-[var(--accent-500)]/40' : 'border-[var(--card-border)]'}`}>
@@ -550,8 +590,8 @@ function UserComparisonCard({
             <div className="w-6 flex-shrink-0" /> {/* Spacer for day labels */}
             {userData.habits.map((habitData) => {
               const doneCount = habitData.weeklyDoneCount
-              const targetDays = weekDays.filter(d => !d.isFuture).length
-              const percentage = targetDays > 0 ? Math.round((doneCount / targetDays) * 100) : 0
+              const targetDays = habitData.weeklyTarget
+              const percentage = habitData.weeklyPercentage
 
               return (
                 <div key={habitData.habit.id} className="w-14 flex-shrink-0 text-center">
@@ -584,10 +624,22 @@ function UserComparisonCard({
                 {/* Dots for each habit */}
                 {userData.habits.map((habitData) => {
                   const entry = habitData.dailyEntries.get(day.dateStr)
+                  const isScheduled = isScheduledDay(habitData.habit, day.date)
+                  const isPaused = isPausedOn(habitData.habit, day.dateStr)
+                  const isBreak = habitData.habit.kind === 'break'
+                  // Break habits are clean on elapsed days without a relapse
+                  const isClean = isBreak && !day.isFuture && getDayCompletion(habitData.habit, entry, day.dateStr) > 0
+                  const customStatus = getCustomStatus(habitData.habit, entry)
                   let dotColor = 'bg-gray-300 dark:bg-gray-600' // default/empty/future
 
-                  if (!day.isFuture) {
-                    if (entry?.status === 'done') {
+                  if (isPaused) {
+                    dotColor = 'border border-gray-400 dark:border-gray-600 paused-day'
+                  } else if (!isScheduled) {
+                    dotColor = 'border border-dashed border-gray-400 dark:border-gray-600'
+                  } else if (!day.isFuture) {
+                    if (customStatus) {
+                      dotColor = ''
+                    } else if (entry?.status === 'done' || isClean) {
                       dotColor = 'bg-emerald-500'
                     } else if (entry?.status === 'missed') {
                       dotColor = 'bg-red-500'
@@ -600,7 +652,14 @@ function UserComparisonCard({
                     <div key={habitData.habit.id} className="w-14 flex-shrink-0 flex justify-center">
                       <div
                         className={`w-4 h-4 rounded-full ${dotColor} ${day.isToday ? 'ring-2 ring-offset-1 ring-[var(--accent-500)]' : ''}`}
-                        title={`${format(day.date, 'EEE')}: ${entry?.status || (day.isFuture ? 'upcoming' : 'not tracked')}`}
+                        style={!dotColor && customStatus ? { backgroundColor: customStatus.color } : undefined}
+                        title={`${format(day.date, 'EEE')}: ${
+                          isPaused ? 'paused'
+                            : customStatus && !day.isFuture ? customStatus.label
+                            : isBreak && !day.isFuture
+                            ? isClean ? 'clean' : entry?.status === 'missed' ? 'relapse' : 'not tracked'
+                            : entry?.status || (!isScheduled ? 'not scheduled' : day.isFuture ? 'upcoming' : 'not tracked')
+                        }`}
                       />
                     </div>
                   )
@@ -0,0 +1,222 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Pause, Trash2 } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+
+interface PauseModalProps {
+  isOpen: boolean
+  onClose: () => void
+  habits: HabitWithEntries[] // Archived ones too, so their pauses can still be seen and removed
+  today: string
+  onAdd: (habitIds: string[], startDate: string, endDate: string, reason: string | null) => Promise<void>
+  onRemove: (habitIds: string[], startDate: string, endDate: string) => void
+}
+
+// Pauses created together (e.g. for all habits) share a date range and reason
+interface PauseGroup {
+  startDate: string
+  endDate: string
+  reason: string | null
+  habits: HabitWithEntries[]
+}
+
+function groupPauses(habits: HabitWithEntries[]): PauseGroup[] {
+  const groups = new Map<string, PauseGroup>()
+  habits.forEach((habit) => {
+    habit.pauses?.forEach((pause) => {
+      const key = `${pause.start_date}:${pause.end_date}:${pause.reason ?? ''}`
+      const group = groups.get(key) ?? { startDate: pause.start_date, endDate: pause.end_date, reason: pause.reason, habits: [] }
+      group.habits.push(habit)
+      groups.set(key, group)
+    })
+  })
+  // Most recent first
+  return Array.from(groups.values()).sort((a, b) => b.startDate.localeCompare(a.startDate))
+}
+
+function formatRange(startDate: string, endDate: string): string {
+  const start = format(parseISO(startDate), 'MMM d, yyyy')
+  return startDate === endDate ? start : `${start} – ${format(parseISO(endDate), 'MMM d, yyyy')}`
+}
+
+export default function PauseModal({
+  isOpen,
+  onClose,
+  habits,
+  today,
+  onAdd,
+  onRemove,
+}: PauseModalProps) {
+  const [habitId, setHabitId] = useState('all')
+  const [startDate, setStartDate] = useState(today)
+  const [endDate, setEndDate] = useState(today)
+  const [reason, setReason] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  if (!isOpen) return null
+
+  // Only active habits can be paused, but archived ones keep their pauses
+  const activeHabits = habits.filter((h) => !h.archived)
+  const pauseGroups = groupPauses(habits)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!startDate || !endDate) {
+      setError('Pick a start and end date')
+      return
+    }
+    if (endDate < startDate) {
+      setError('End date must be on or after the start date')
+      return
+    }
+
+    setError('')
+    setLoading(true)
+    try {
+      const habitIds = habitId === 'all' ? activeHabits.map((h) => h.id) : [habitId]
+      await onAdd(habitIds, startDate, endDate, reason.trim() || null)
+      setReason('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pause')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={onClose}
+      />
+      <div className="relative glass-card p-6 w-full max-w-sm max-h-[85vh] flex flex-col animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <h2 className="text-lg font-bold text-[var(--foreground)] mb-1">
+          Pause Habits
+        </h2>
+        <p className="text-[var(--muted)] text-sm mb-5">
+          Paused days don&apos;t count toward scores, points or streaks
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mb-5">
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Habit
+            </label>
+            <select
+              value={habitId}
+              onChange={(e) => setHabitId(e.target.value)}
+              className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+            >
+              <option value="all">All habits</option>
+              {activeHabits.map((habit) => (
+                <option key={habit.id} value={habit.id}>{habit.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                From
+              </label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-3 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+                To
+              </label>
+              <input
+                type="date"
+                value={endDate}
+                min={startDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-3 text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Reason
+            </label>
+            <input
+              type="text"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Vacation, sick"
+              maxLength={50}
+              className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 px-4 text-[var(--foreground)] placeholder-[var(--muted-light)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors text-sm"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={loading || activeHabits.length === 0}
+            className="pill-button w-full flex items-center justify-center gap-1.5 bg-[var(--accent-500)] hover:bg-[var(--accent-400)] disabled:opacity-50 text-white font-medium py-2.5 transition-colors text-sm"
+          >
+            <Pause size={14} />
+            {loading ? 'Pausing...' : 'Pause'}
+          </button>
+        </form>
+
+        {/* Existing pauses */}
+        <h3 className="text-xs font-medium text-[var(--muted)] mb-2 uppercase tracking-wide">Pauses</h3>
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {pauseGroups.length === 0 ? (
+            <p className="text-sm text-[var(--muted-light)]">No pauses yet</p>
+          ) : (
+            pauseGroups.map((group) => {
+              const isAll = activeHabits.length > 1 && group.habits.length === activeHabits.length && group.habits.every((h) => !h.archived)
+              const isCurrent = group.startDate <= today && group.endDate >= today
+              return (
+                <div
+                  key={`${group.startDate}:${group.endDate}:${group.reason ?? ''}`}
+                  className="flex items-center justify-between gap-2 p-3 rounded-xl bg-[var(--card-bg)]"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--foreground)] truncate">
+                      {formatRange(group.startDate, group.endDate)}
+                      {isCurrent && <span className="ml-1.5 text-[10px] text-[var(--accent-text)]">now</span>}
+                    </p>
+                    <p className="text-[10px] text-[var(--muted)] truncate">
+                      {isAll ? 'All habits' : group.habits.map((h) => (h.archived ? `${h.name} (archived)` : h.name)).join(', ')}
+                      {group.reason && ` · ${group.reason}`}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => onRemove(group.habits.map((h) => h.id), group.startDate, group.endDate)}
+                    className="pill-button p-1.5 text-[var(--muted-light)] hover:text-red-400 hover:bg-red-500/10 transition-colors flex-shrink-0"
+                    title="Remove pause"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,9 +1,19 @@
 'use client'
 
 import { useState, useMemo } from 'react'
-import { X, User } from 'lucide-react'
+import { X, User, Globe, Moon } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
+import { getTimezoneOptions } from '@/lib/dayBoundary'
+import { GoalType, GOAL_TYPES, DEFAULT_GOAL_HORIZONS } from '@/types/database'
+
+const horizonLabels: Record<GoalType, string> = {
+  daily: 'Day',
+  weekly: 'Week',
+  monthly: 'Month',
+  quarterly: 'Quarter',
+  yearly: 'Year',
+}
 
 interface ProfileModalProps {
   isOpen: boolean
@@ -13,16 +23,24 @@ interface ProfileModalProps {
 export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
   const { profile, refreshProfile } = useAuth()
   const [displayName, setDisplayName] = useState(profile?.display_name || '')
+  const [timezone, setTimezone] = useState(profile?.timezone || '')
+  const [dayEndHour, setDayEndHour] = useState(profile?.day_end_hour ?? 0)
+  const [goalHorizons, setGoalHorizons] = useState<GoalType[]>(profile?.goal_horizons ?? DEFAULT_GOAL_HORIZONS)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
 
   const supabase = useMemo(() => createClient(), [])
+  const timezoneOptions = useMemo(() => getTimezoneOptions(), [])
 
   if (!isOpen) return null
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (goalHorizons.length === 0) {
+      setError('Show at least one goal horizon')
+      return
+    }
     setLoading(true)
     setError(null)
     setSuccess(false)
@@ -30,7 +48,12 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
     try {
       const { error: updateError } = await supabase
         .from('profiles')
-        .update({ display_name: displayName.trim() || null })
+        .update({
+          display_name: displayName.trim() || null,
+          timezone: timezone || null,
+          day_end_hour: dayEndHour,
+          goal_horizons: GOAL_TYPES.filter((type) => goalHorizons.includes(type)),
+        })
         .eq('id', profile?.id)
 
       if (updateError) throw updateError
@@ -65,7 +88,7 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
           Edit Profile
         </h2>
         <p className="text-[var(--muted)] text-sm mb-5">
-          Update your display name
+          Update your display name and day settings
         </p>
 
         {error && (
@@ -97,6 +120,78 @@ export default function ProfileModal({ isOpen, onClose }: ProfileModalProps) {
             </div>
           </div>
 
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Timezone
+            </label>
+            <div className="relative">
+              <Globe className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--muted-light)]" size={16} />
+              <select
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 pl-10 pr-4 text-sm text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors"
+              >
+                <option value="">This device&apos;s timezone</option>
+                {timezoneOptions.map((tz) => (
+                  <option key={tz} value={tz}>{tz.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Day Ends At
+            </label>
+            <div className="relative">
+              <Moon className="absolute left-3 top-1/2 -translate-y-1/2 text-[var(--muted-light)]" size={16} />
+              <select
+                value={dayEndHour}
+                onChange={(e) => setDayEndHour(Number(e.target.value))}
+                className="w-full bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-2.5 pl-10 pr-4 text-sm text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors"
+              >
+                {Array.from({ length: 13 }, (_, hour) => (
+                  <option key={hour} value={hour}>
+                    {hour === 0 ? 'Midnight' : hour === 12 ? '12:00 PM' : `${hour}:00 AM`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <p className="text-[10px] text-[var(--muted-light)] mt-1">
+              Check-ins before this hour count toward the previous day
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-[var(--muted)] mb-1.5 uppercase tracking-wide">
+              Goal Horizons
+            </label>
+            <div className="flex gap-1.5">
+              {GOAL_TYPES.map((type) => {
+                const selected = goalHorizons.includes(type)
+                return (
+                  <button
+                    key={type}
+                    type="button"
+                    onClick={() =>
+                      setGoalHorizons((prev) => (selected ? prev.filter((t) => t !== type) : [...prev, type]))
+                    }
+                    className={`flex-1 py-1.5 rounded-lg text-xs font-medium transition-colors ${
+                      selected
+                        ? 'bg-[var(--accent-500)] text-white'
+                        : 'bg-[var(--card-bg)] text-[var(--muted)] hover:text-[var(--foreground)]'
+                    }`}
+                  >
+                    {horizonLabels[type]}
+                  </button>
+                )
+              })}
+            </div>
+            <p className="text-[10px] text-[var(--muted-light)] mt-1">
+              Goal columns shown above your habits
+            </p>
+          </div>
+
           <div className="text-xs text-[var(--muted-light)]">
             Email: {profile?.email}
           </div>
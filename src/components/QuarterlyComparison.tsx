@@ -4,13 +4,20 @@ import { useState, useEffect, useMemo, useCallback } from 'react'
 import { TrendingUp, Loader2, ChevronLeft, ChevronRight, ChevronDown, ChevronUp } from 'lucide-react'
 import { createClient } from '@/lib/supabase/client'
 import { useAuth } from '@/context/AuthContext'
-import { Profile, HabitWithEntries, Partnership, Quarter, getQuarterDates } from '@/types/database'
+import { Profile, HabitWithEntries, Partnership, Quarter, getQuarterDates, getCurrentQuarter } from '@/types/database'
+import { isHabitActiveOn } from '@/lib/weeklyCalculations'
+import { scoreHabit, combineScores, getScorePercentage, scoreGroups, GroupScore } from '@/lib/habitScoring'
+import { sortHabits } from '@/lib/habitOrder'
+import { usePartnerChanges } from '@/hooks/usePartnerChanges'
+import GroupBreakdown from './GroupBreakdown'
+import { getTodayKey } from '@/lib/dayBoundary'
 import {
   format,
   startOfMonth,
   endOfMonth,
   eachDayOfInterval,
   eachMonthOfInterval,
+  parseISO,
 } from 'date-fns'
 
 interface QuarterlyComparisonProps {
@@ -38,7 +45,7 @@ interface HabitQuarterlyData {
   habitName: string
   habitColor: string
   doneCount: number
-  totalDays: number
+  targetDays: number
   percentage: number
 }
 
@@ -48,6 +55,7 @@ interface UserQuarterlyData {
   overallPercentage: number
   monthlyTrend: MonthData[]
   habitData: HabitQuarterlyData[]
+  groupData: GroupScore[] // Empty unless the user groups their habits
   totalDone: number
   totalPossible: number
 }
@@ -55,12 +63,12 @@ interface UserQuarterlyData {
 function calculateQuarterlyData(
   userId: string,
   displayName: string,
-  habits: HabitWithEntries[],
+  allHabits: HabitWithEntries[],
   quarter: Quarter,
-  year: number
+  year: number,
+  today: Date
 ): UserQuarterlyData {
   const { start: quarterStart, end: quarterEnd } = getQuarterDates(year, quarter)
-  const today = new Date()
   const effectiveEnd = quarterEnd > today ? today : quarterEnd
 
   // Get all days in quarter up to today
@@ -71,6 +79,9 @@ function calculateQuarterlyData(
 
   const pastDays = daysInQuarter.filter(d => d <= today)
 
+  // Archived habits only count for the days before they were archived
+  const habits = sortHabits(allHabits.filter(habit => pastDays.some(d => isHabitActiveOn(habit, d))))
+
   // Calculate monthly breakdown
   const monthsInQuarter = eachMonthOfInterval({
     start: quarterStart,
@@ -96,55 +107,37 @@ function calculateQuarterlyData(
       end: effectiveMonthEnd
     }).filter(d => d <= today)
 
-    let doneCount = 0
-    habits.forEach(habit => {
-      habit.entries.forEach(entry => {
-        if (entry.status === 'done') {
-          const entryDate = new Date(entry.date)
-          if (entryDate >= monthStart && entryDate <= effectiveMonthEnd) {
-            doneCount++
-          }
-        }
-      })
-    })
-
-    const totalPossible = daysInMonth.length * habits.length
-    const percentage = totalPossible > 0 ? Math.round((doneCount / totalPossible) * 100) : 0
+    // Each habit is measured against its weekly target, prorated for weeks split by the month
+    const score = combineScores(habits.map(habit => scoreHabit(habit, daysInMonth)))
 
     return {
       month: monthStart,
       label: format(monthStart, 'MMM'),
-      percentage,
-      doneCount,
-      totalPossible
+      percentage: getScorePercentage(score),
+      doneCount: score.completed,
+      totalPossible: score.expected
     }
   })
 
   // Calculate per-habit quarterly data
-  const habitData: HabitQuarterlyData[] = habits.map(habit => {
-    const doneCount = habit.entries.filter(entry => {
-      if (entry.status !== 'done') return false
-      const entryDate = new Date(entry.date)
-      return entryDate >= quarterStart && entryDate <= effectiveEnd
-    }).length
-
-    const totalDays = pastDays.length
-    const percentage = totalDays > 0 ? Math.round((doneCount / totalDays) * 100) : 0
-
-    return {
-      habitId: habit.id,
-      habitName: habit.name,
-      habitColor: habit.color,
-      doneCount,
-      totalDays,
-      percentage
-    }
-  })
+  const habitScores = habits.map(habit => scoreHabit(habit, pastDays))
+  const habitData: HabitQuarterlyData[] = habits.map((habit, i) => ({
+    habitId: habit.id,
+    habitName: habit.name,
+    habitColor: habit.color,
+    doneCount: habitScores[i].completed,
+    targetDays: habitScores[i].expected,
+    percentage: getScorePercentage(habitScores[i])
+  }))
+
+  // Calculate per-group data
+  const groupData = scoreGroups(habits, habitScores)
 
   // Calculate overall
-  const totalDone = habitData.reduce((sum, h) => sum + h.doneCount, 0)
-  const totalPossible = pastDays.length * habits.length
-  const overallPercentage = totalPossible > 0 ? Math.round((totalDone / totalPossible) * 100) : 0
+  const overall = combineScores(habitScores)
+  const totalDone = overall.completed
+  const totalPossible = overall.expected
+  const overallPercentage = getScorePercentage(overall)
 
   return {
     userId,
@@ -152,6 +145,7 @@ function calculateQuarterlyData(
     overallPercentage,
     monthlyTrend,
     habitData,
+    groupData,
     totalDone,
     totalPossible
   }
@@ -166,6 +160,8 @@ export default function QuarterlyComparison({ quarter: initialQuarter, year: ini
   const [currentQuarter, setCurrentQuarter] = useState<Quarter>(initialQuarter)
   const [currentYear, setCurrentYear] = useState(initialYear)
   const [isCollapsed, setIsCollapsed] = useState(true)
+  // Each person's days are judged by their own timezone and day boundary
+  const todayKey = getTodayKey(userProfile)
 
   const supabase = useMemo(() => createClient(), [])
   const userId = user?.id
@@ -198,7 +194,7 @@ export default function QuarterlyComparison({ quarter: initialQuarter, year: ini
 
       const [profilesResult, habitsResult] = await Promise.all([
         supabase.from('profiles').select('*').in('id', partnerIds),
-        supabase.from('habits').select('*, entries:habit_entries(*)').in('user_id', partnerIds).eq('archived', false)
+        supabase.from('habits').select('*, entries:habit_entries(*), pauses:habit_pauses(*), target_changes:habit_target_changes(*), checkins:habit_checkins(*), statuses:habit_statuses(*)').in('user_id', partnerIds)
       ])
 
       const profiles = profilesResult.data
@@ -235,6 +231,9 @@ export default function QuarterlyComparison({ quarter: initialQuarter, year: ini
     }
   }, [userId, fetchPartners])
 
+  // Live updates to partners' habits and check-ins
+  usePartnerChanges('quarterly-comparison', userId, partners, setPartners, fetchPartners)
+
   // Quarter navigation
   const goToPreviousQuarter = () => {
     const currentIndex = quarterOptions.indexOf(currentQuarter)
@@ -257,31 +256,25 @@ export default function QuarterlyComparison({ quarter: initialQuarter, year: ini
   }
 
   const goToCurrentQuarter = () => {
-    const now = new Date()
-    const month = now.getMonth()
-    const q: Quarter = month < 3 ? 'Q1' : month < 6 ? 'Q2' : month < 9 ? 'Q3' : 'Q4'
-    setCurrentQuarter(q)
+    const now = parseISO(todayKey)
+    setCurrentQuarter(getCurrentQuarter(now))
     setCurrentYear(now.getFullYear())
   }
 
   const isCurrentQuarter = useMemo(() => {
-    const now = new Date()
-    const month = now.getMonth()
-    const currentQ: Quarter = month < 3 ? 'Q1' : month < 6 ? 'Q2' : month < 9 ? 'Q3' : 'Q4'
-    return currentQuarter === currentQ && currentYear === now.getFullYear()
-  }, [currentQuarter, currentYear])
+    const now = parseISO(todayKey)
+    return currentQuarter === getCurrentQuarter(now) && currentYear === now.getFullYear()
+  }, [currentQuarter, currentYear, todayKey])
 
   const isFutureQuarter = useMemo(() => {
-    const now = new Date()
-    const month = now.getMonth()
-    const currentQ: Quarter = month < 3 ? 'Q1' : month < 6 ? 'Q2' : month < 9 ? 'Q3' : 'Q4'
-    const currentQIndex = quarterOptions.indexOf(currentQ)
+    const now = parseISO(todayKey)
+    const currentQIndex = quarterOptions.indexOf(getCurrentQuarter(now))
     const selectedQIndex = quarterOptions.indexOf(currentQuarter)
 
     if (currentYear > now.getFullYear()) return true
     if (currentYear === now.getFullYear() && selectedQIndex > currentQIndex) return true
     return false
-  }, [currentQuarter, currentYear])
+  }, [currentQuarter, currentYear, todayKey])
 
   // Calculate quarterly data
   const myQuarterlyData = useMemo(() =>
@@ -290,22 +283,27 @@ export default function QuarterlyComparison({ quarter: initialQuarter, year: ini
       userProfile?.display_name || user?.email?.split('@')[0] || 'You',
       userHabits,
       currentQuarter,
-      currentYear
+      currentYear,
+      parseISO(todayKey)
     ),
-    [userId, userProfile, user, userHabits, currentQuarter, currentYear]
+    [userId, userProfile, user, userHabits, currentQuarter, currentYear, todayKey]
   )
 
+  // Each partner's today as a key, so the data moves on when one of their days rolls over
+  const partnerTodaysKey = partners.map((partner) => getTodayKey(partner.profile)).join(',')
+
   const partnersQuarterlyData = useMemo(() =>
-    partners.map(partner =>
+    partners.map((partner, i) =>
       calculateQuarterlyData(
         partner.profile.id,
         partner.profile.display_name || partner.profile.email.split('@')[0],
         partner.habits,
         currentQuarter,
-        currentYear
+        currentYear,
+        parseISO(partnerTodaysKey.split(',')[i])
       )
     ),
-    [partners, currentQuarter, currentYear]
+    [partners, currentQuarter, currentYear, partnerTodaysKey]
   )
 
   // Combine and sort for leaderboard
@@ -509,6 +507,9 @@ function QuarterlyUserCard({
         </div>
       </div>
 
+      {/* Per Group Breakdown */}
+      <GroupBreakdown groups={userData.groupData} />
+
       {/* Per Habit Breakdown */}
       <div className="border-t border-[var(--card-border)] pt-3">
         <p className="text-xs text-[var(--muted)] text-center mb-2">
@@ -536,7 +537,7 @@ function QuarterlyUserCard({
                 />
               </div>
               <span className="text-[9px] text-[var(--muted)] w-14 text-right">
-                {habit.doneCount}/{habit.totalDays}
+                {habit.doneCount}/{habit.targetDays}
               </span>
             </div>
           ))}
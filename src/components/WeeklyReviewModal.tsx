@@ -0,0 +1,100 @@
+'use client'
+
+import { X, ArrowRight, Target, Trash2, Repeat } from 'lucide-react'
+import { format, parseISO } from 'date-fns'
+import { Goal } from '@/types/database'
+
+interface WeeklyReviewModalProps {
+  isOpen: boolean
+  onClose: () => void
+  goals: Goal[] // Unfinished weekly goals to review
+  getCarryCount: (goal: Goal) => number
+  onCarry: (goal: Goal) => void
+  onDrop: (goal: Goal) => void
+  onConvert: (goal: Goal) => void
+}
+
+// End-of-week review: decide what happens to each unfinished weekly goal
+export default function WeeklyReviewModal({
+  isOpen,
+  onClose,
+  goals,
+  getCarryCount,
+  onCarry,
+  onDrop,
+  onConvert,
+}: WeeklyReviewModalProps) {
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-md"
+        onClick={onClose}
+      />
+      <div className="relative glass-card p-6 w-full max-w-sm max-h-[85vh] flex flex-col animate-slideUp">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+        >
+          <X size={18} />
+        </button>
+
+        <h2 className="text-lg font-bold text-[var(--foreground)] mb-1">
+          Weekly Review
+        </h2>
+        <p className="text-[var(--muted)] text-sm mb-5">
+          Carry unfinished goals into this week, drop them, or turn them into quarterly goals
+        </p>
+
+        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+          {goals.length === 0 ? (
+            <p className="text-sm text-[var(--muted-light)]">All caught up</p>
+          ) : (
+            goals.map((goal) => {
+              const carryCount = getCarryCount(goal)
+              return (
+                <div key={goal.id} className="p-3 rounded-xl bg-[var(--card-bg)]">
+                  <p className="text-sm font-medium text-[var(--foreground)] truncate">{goal.title}</p>
+                  <p className="text-[10px] text-[var(--muted)] mb-2">
+                    Week of {format(parseISO(goal.week_start!), 'MMM d')}
+                    {carryCount > 0 && (
+                      <span className="inline-flex items-center gap-0.5 ml-1.5 text-amber-500">
+                        <Repeat size={9} />
+                        carried {carryCount}×
+                      </span>
+                    )}
+                  </p>
+                  <div className="flex gap-1.5">
+                    <button
+                      onClick={() => onCarry(goal)}
+                      className="pill-button flex-1 flex items-center justify-center gap-1 bg-[var(--accent-500)] hover:bg-[var(--accent-400)] text-white font-medium py-1.5 text-xs transition-colors"
+                    >
+                      <ArrowRight size={12} />
+                      Carry over
+                    </button>
+                    <button
+                      onClick={() => onConvert(goal)}
+                      className="pill-button flex items-center justify-center gap-1 bg-[var(--card-border)] hover:bg-[var(--accent-bg)] text-[var(--foreground)] py-1.5 px-2.5 text-xs transition-colors"
+                      title="Move to this quarter's goals"
+                    >
+                      <Target size={12} />
+                      Quarter
+                    </button>
+                    <button
+                      onClick={() => onDrop(goal)}
+                      className="pill-button p-1.5 text-[var(--muted-light)] hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      title="Drop goal"
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              )
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
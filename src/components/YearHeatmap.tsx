@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useMemo, useEffect, memo } from 'react'
+import { ChevronLeft, ChevronRight, ChevronDown, CalendarRange } from 'lucide-react'
+import { format, eachWeekOfInterval, eachDayOfInterval, addDays, getDate, parseISO } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+import { scoreHabit, combineScores, getScorePercentage } from '@/lib/habitScoring'
+
+interface YearHeatmapProps {
+  habits: HabitWithEntries[]
+  today: string
+  initialYear: number
+  onSelectDate: (date: string) => void
+}
+
+interface HeatmapDay {
+  dateStr: string
+  level: number | null // 0-4, null when no habit was tracked that day
+  completed: number
+  percentage: number
+}
+
+const DAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+const LEVEL_OPACITY = [0, 0.3, 0.55, 0.8, 1]
+
+// Score across the habits tracked on a day, the same way as everywhere else - allowed rest days and
+// neutral custom statuses don't count
+function getHeatmapDay(habits: HabitWithEntries[], dateStr: string, today: string): HeatmapDay {
+  const score = combineScores(habits.map((habit) => scoreHabit(habit, [parseISO(dateStr)], today)))
+  const percentage = getScorePercentage(score)
+  const level = score.expected === 0 ? null : Math.ceil(percentage / 25)
+  return { dateStr, level, completed: score.completed, percentage }
+}
+
+// Memoized - the whole year is recalculated only when habits or the selection change
+const YearHeatmap = memo(function YearHeatmap({ habits, today, initialYear, onSelectDate }: YearHeatmapProps) {
+  const [year, setYear] = useState(initialYear)
+  const [habitId, setHabitId] = useState<string>('all')
+  const [isExpanded, setIsExpanded] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('heatmap-section-expanded') === 'true'
+    }
+    return false
+  })
+
+  // Save expanded state to localStorage
+  useEffect(() => {
+    localStorage.setItem('heatmap-section-expanded', String(isExpanded))
+  }, [isExpanded])
+
+  const selectedHabit = habits.find((h) => h.id === habitId)
+  const currentYear = parseISO(today).getFullYear()
+  const color = selectedHabit?.color ?? 'var(--accent-500)'
+
+  const { weeks, activeDays, percentage } = useMemo(() => {
+    const included = selectedHabit ? [selectedHabit] : habits
+    const yearStart = new Date(year, 0, 1)
+    const yearEnd = new Date(year, 11, 31)
+
+    let activeDays = 0
+
+    // Monday-first columns, days outside the year are left empty
+    const weeks = eachWeekOfInterval({ start: yearStart, end: yearEnd }, { weekStartsOn: 1 }).map((weekStart) =>
+      Array.from({ length: 7 }, (_, i) => {
+        const date = addDays(weekStart, i)
+        if (date.getFullYear() !== year) return null
+        const dateStr = format(date, 'yyyy-MM-dd')
+        if (dateStr > today) return { dateStr, level: null, completed: 0, percentage: 0 }
+
+        const day = getHeatmapDay(included, dateStr, today)
+        if (day.completed > 0) activeDays++
+        return day
+      })
+    )
+
+    // The year so far against each habit's weekly, monthly or interval targets
+    const todayDate = parseISO(today)
+    const elapsedDays = todayDate < yearStart ? [] : eachDayOfInterval({ start: yearStart, end: todayDate < yearEnd ? todayDate : yearEnd })
+    const score = combineScores(included.map((habit) => scoreHabit(habit, elapsedDays, today)))
+
+    return {
+      weeks,
+      activeDays,
+      percentage: getScorePercentage(score),
+    }
+  }, [habits, selectedHabit, year, today])
+
+  // Month label above the column holding the 1st
+  const monthLabels = weeks.map((week) => {
+    const first = week.find((day) => day && getDate(parseISO(day.dateStr)) === 1)
+    return first ? format(parseISO(first.dateStr), 'MMM') : ''
+  })
+
+  return (
+    <div className="glass-card overflow-hidden">
+      {/* Collapsible Header */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center justify-between p-3 hover:bg-[var(--card-bg)] transition-colors"
+      >
+        <div className="flex items-center gap-2">
+          <CalendarRange size={14} className="text-[var(--accent-500)]" />
+          <span className="text-sm font-medium text-[var(--foreground)]">Year in Review</span>
+        </div>
+        <ChevronDown
+          size={16}
+          className={`text-[var(--muted)] transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+        />
+      </button>
+
+      {/* Collapsible Content */}
+      {isExpanded && (
+        <div className="px-3 pb-3">
+          {/* Controls */}
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <div className="inline-flex items-center gap-0.5 bg-[var(--card-bg)] rounded-xl p-1">
+              <button
+                onClick={() => setYear(year - 1)}
+                className="pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] transition-colors"
+              >
+                <ChevronLeft size={16} />
+              </button>
+              <span className="px-2 text-xs font-semibold text-[var(--foreground)]">{year}</span>
+              <button
+                onClick={() => setYear(year + 1)}
+                disabled={year >= currentYear}
+                className="pill-button p-1.5 text-[var(--muted)] hover:text-[var(--foreground)] hover:bg-[var(--card-bg)] disabled:opacity-30 transition-colors"
+              >
+                <ChevronRight size={16} />
+              </button>
+            </div>
+
+            <select
+              value={habitId}
+              onChange={(e) => setHabitId(e.target.value)}
+              className="bg-[var(--card-bg)] border border-[var(--card-border)] rounded-xl py-1.5 px-3 text-xs text-[var(--foreground)] focus:outline-none focus:border-[var(--accent-primary)] transition-colors"
+            >
+              <option value="all">All habits</option>
+              {habits.map((habit) => (
+                <option key={habit.id} value={habit.id}>
+                  {habit.name}{habit.archived ? ' (archived)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Heatmap */}
+          <div className="overflow-x-auto">
+            <div className="inline-flex gap-[3px]">
+              {/* Day labels */}
+              <div className="flex flex-col gap-[3px] pt-4 pr-1">
+                {DAY_LABELS.map((label, i) => (
+                  <div key={i} className="h-3 text-[9px] leading-3 text-[var(--muted)]">{label}</div>
+                ))}
+              </div>
+
+              {weeks.map((week, weekIndex) => (
+                <div key={weekIndex} className="flex flex-col gap-[3px]">
+                  <div className="h-3 mb-1 text-[9px] leading-3 text-[var(--muted)] whitespace-nowrap">
+                    {monthLabels[weekIndex]}
+                  </div>
+                  {week.map((day, dayIndex) => {
+                    if (!day) return <div key={dayIndex} className="w-3 h-3" />
+
+                    const isFuture = day.dateStr > today
+                    const hasProgress = day.level !== null && day.level > 0
+                    return (
+                      <button
+                        key={day.dateStr}
+                        onClick={() => !isFuture && onSelectDate(day.dateStr)}
+                        disabled={isFuture}
+                        className={`w-3 h-3 rounded-[3px] transition-all ${
+                          isFuture ? 'bg-[var(--foreground)]/[0.02]'
+                            : day.level === null ? 'bg-[var(--foreground)]/[0.03] hover:scale-[1.3]'
+                            : 'bg-[var(--foreground)]/[0.08] hover:scale-[1.3] cursor-pointer'
+                        } ${day.dateStr === today ? 'ring-1 ring-[var(--accent-500)]' : ''}`}
+                        style={hasProgress ? { backgroundColor: color, opacity: LEVEL_OPACITY[day.level!] } : undefined}
+                        title={`${format(parseISO(day.dateStr), 'EEE, MMM d, yyyy')}${
+                          day.level !== null ? ` - ${day.percentage}%` : ''
+                        }`}
+                      />
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Summary + legend */}
+          <div className="flex items-center justify-between gap-2 mt-3 text-[10px] text-[var(--muted)]">
+            <span>
+              {activeDays} active days · {percentage}% complete
+            </span>
+            <div className="flex items-center gap-1">
+              <span>Less</span>
+              <div className="w-2.5 h-2.5 rounded-[3px] bg-[var(--foreground)]/[0.08]" />
+              {LEVEL_OPACITY.slice(1).map((opacity) => (
+                <div key={opacity} className="w-2.5 h-2.5 rounded-[3px]" style={{ backgroundColor: color, opacity }} />
+              ))}
+              <span>More</span>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+})
+
+export default YearHeatmap
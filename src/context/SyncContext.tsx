@@ -0,0 +1,178 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState, useMemo, useRef, useCallback } from 'react'
+import { AlertTriangle, X } from 'lucide-react'
+import { createClient } from '@/lib/supabase/client'
+import { useAuth } from '@/context/AuthContext'
+import {
+  Mutation,
+  MutationError,
+  RejectedMutation,
+  enqueueMutation,
+  executeMutation,
+  getQueuedMutations,
+  isNetworkError,
+  replayQueue,
+  withClientId,
+} from '@/lib/offlineQueue'
+
+// How long to wait before replaying again after a transient server error
+const RETRY_DELAY_MS = 30_000
+
+interface MutationResult {
+  data: Record<string, unknown> | null
+  error: MutationError | null
+  queued: boolean
+}
+
+interface SyncContextType {
+  isOnline: boolean
+  isSyncing: boolean
+  pendingKeys: Set<string>
+  // Bumped after queued changes reach the server so views can refetch real rows
+  lastSyncedAt: number
+  // Offline changes the server refused on replay, until the user dismisses the notice
+  rejectedMutations: RejectedMutation[]
+  dismissRejected: () => void
+  runMutation: (mutation: Mutation) => Promise<MutationResult>
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined)
+
+export function SyncProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [isOnline, setIsOnline] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [pendingKeys, setPendingKeys] = useState<Set<string>>(new Set())
+  const [lastSyncedAt, setLastSyncedAt] = useState(0)
+  const [rejectedMutations, setRejectedMutations] = useState<RejectedMutation[]>([])
+  const hasQueueRef = useRef(false)
+  const syncingRef = useRef(false)
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const supabase = useMemo(() => createClient(), [])
+
+  const refreshPending = useCallback(async () => {
+    if (!userId) {
+      hasQueueRef.current = false
+      setPendingKeys(new Set())
+      return
+    }
+    try {
+      const queue = await getQueuedMutations(userId)
+      hasQueueRef.current = queue.length > 0
+      setPendingKeys(new Set(queue.map((item) => item.mutation.key)))
+    } catch (err) {
+      console.warn('Could not read offline queue:', err)
+    }
+  }, [userId])
+
+  const sync = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine || !userId) return
+    syncingRef.current = true
+    setIsSyncing(true)
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    retryTimerRef.current = null
+
+    try {
+      const { synced, rejected, remaining } = await replayQueue(supabase, userId)
+      if (rejected.length > 0) {
+        setRejectedMutations((prev) => [...prev, ...rejected])
+      }
+      // Refetch so views drop optimistic rows the server refused
+      if (synced > 0 || rejected.length > 0) {
+        setLastSyncedAt(Date.now())
+      }
+      // Still online with changes left means the server failed for now - try again a bit later
+      if (remaining > 0 && navigator.onLine) {
+        retryTimerRef.current = setTimeout(sync, RETRY_DELAY_MS)
+      }
+    } catch (err) {
+      console.error('Error replaying offline queue:', err)
+    } finally {
+      syncingRef.current = false
+      setIsSyncing(false)
+      await refreshPending()
+    }
+  }, [supabase, userId, refreshPending])
+
+  // Run a write now, or queue it while offline (and behind anything already queued to keep order)
+  const runMutation = useCallback(async (original: Mutation): Promise<MutationResult> => {
+    const mutation = withClientId(original)
+    if (navigator.onLine && !hasQueueRef.current) {
+      const { data, error } = await executeMutation(supabase, mutation)
+      if (!isNetworkError(error)) return { data, error, queued: false }
+    }
+
+    if (!userId) return { data: null, error: { message: 'Not signed in' }, queued: false }
+    try {
+      await enqueueMutation(mutation, userId)
+    } catch (err) {
+      console.error('Error queueing offline change:', err)
+      return { data: null, error: { message: 'Could not save change offline' }, queued: false }
+    }
+    hasQueueRef.current = true
+    setPendingKeys((prev) => new Set(prev).add(mutation.key))
+
+    // A dropped request while online (flaky connection) retries straight away
+    if (navigator.onLine) sync()
+    return { data: null, error: null, queued: true }
+  }, [supabase, userId, sync])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      sync()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    setIsOnline(navigator.onLine)
+    // Replay anything left over from a previous session
+    refreshPending().then(sync)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current)
+    }
+  }, [sync, refreshPending])
+
+  const dismissRejected = useCallback(() => setRejectedMutations([]), [])
+
+  return (
+    <SyncContext.Provider value={{ isOnline, isSyncing, pendingKeys, lastSyncedAt, rejectedMutations, dismissRejected, runMutation }}>
+      {children}
+      {/* Stays until dismissed, since the changes are gone for good */}
+      {rejectedMutations.length > 0 && (
+        <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 animate-slideUp">
+          <div
+            className="glass-card flex items-center gap-3 pl-4 pr-2 py-2 text-sm"
+            title={rejectedMutations.map((r) => `${r.mutation.table}: ${r.error.message}`).join('\n')}
+          >
+            <AlertTriangle size={14} className="text-amber-500 flex-shrink-0" />
+            <span className="text-[var(--foreground)] max-w-[280px]">
+              {rejectedMutations.length} offline change{rejectedMutations.length !== 1 ? 's' : ''} couldn&apos;t be saved and
+              {rejectedMutations.length !== 1 ? ' were' : ' was'} discarded
+            </span>
+            <button
+              onClick={dismissRejected}
+              className="pill-button p-1 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </SyncContext.Provider>
+  )
+}
+
+export function useSync() {
+  const context = useContext(SyncContext)
+  if (context === undefined) {
+    throw new Error('useSync must be used within a SyncProvider')
+  }
+  return context
+}
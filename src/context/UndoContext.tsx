@@ -0,0 +1,148 @@
+'use client'
+
+import { createContext, useContext, useEffect, useState, useRef, useCallback } from 'react'
+import { Undo2, Redo2, X } from 'lucide-react'
+
+// undo and redo report a change they couldn't make by rejecting or resolving to false
+export interface UndoAction {
+  label: string
+  undo: () => Promise<void | boolean> | void
+  redo: () => Promise<void | boolean> | void
+}
+
+interface UndoContextType {
+  pushAction: (action: UndoAction) => void
+  undo: () => Promise<void>
+  redo: () => Promise<void>
+}
+
+interface Toast {
+  id: number
+  message: string
+  kind: 'undo' | 'redo'
+}
+
+const MAX_HISTORY = 50
+const TOAST_DURATION = 5000
+
+const UndoContext = createContext<UndoContextType | undefined>(undefined)
+
+// Text fields keep the browser's own undo for typing
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+export function UndoProvider({ children }: { children: React.ReactNode }) {
+  const undoStack = useRef<UndoAction[]>([])
+  const redoStack = useRef<UndoAction[]>([])
+  const [toast, setToast] = useState<Toast | null>(null)
+
+  const showToast = useCallback((message: string, kind: Toast['kind']) => {
+    setToast({ id: Date.now(), message, kind })
+  }, [])
+
+  const pushAction = useCallback((action: UndoAction) => {
+    undoStack.current = [...undoStack.current, action].slice(-MAX_HISTORY)
+    // A new action invalidates anything that was undone
+    redoStack.current = []
+    showToast(action.label, 'undo')
+  }, [showToast])
+
+  // An action only moves to the other stack once it has run - one that fails (rejects) stays where it
+  // was so it can be tried again, and a second press while one is running is ignored
+  const runningRef = useRef(false)
+
+  const undo = useCallback(async () => {
+    const action = undoStack.current.at(-1)
+    if (!action || runningRef.current) return
+    runningRef.current = true
+    try {
+      if ((await action.undo()) === false) throw new Error('Change was not saved')
+      undoStack.current = undoStack.current.filter((a) => a !== action)
+      redoStack.current.push(action)
+      showToast(`Undid: ${action.label}`, 'redo')
+    } catch (err) {
+      console.error('Error undoing change:', err)
+      showToast(`Couldn't undo: ${action.label}`, 'undo')
+    } finally {
+      runningRef.current = false
+    }
+  }, [showToast])
+
+  const redo = useCallback(async () => {
+    const action = redoStack.current.at(-1)
+    if (!action || runningRef.current) return
+    runningRef.current = true
+    try {
+      if ((await action.redo()) === false) throw new Error('Change was not saved')
+      redoStack.current = redoStack.current.filter((a) => a !== action)
+      undoStack.current.push(action)
+      showToast(`Redid: ${action.label}`, 'undo')
+    } catch (err) {
+      console.error('Error redoing change:', err)
+      showToast(`Couldn't redo: ${action.label}`, 'redo')
+    } finally {
+      runningRef.current = false
+    }
+  }, [showToast])
+
+  // Ctrl+Z / Cmd+Z to undo, Ctrl+Shift+Z / Cmd+Shift+Z to redo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return
+      if (isEditableTarget(e.target)) return
+
+      e.preventDefault()
+      if (e.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Auto-hide the toast
+  useEffect(() => {
+    if (!toast) return
+    const timeout = setTimeout(() => setToast(null), TOAST_DURATION)
+    return () => clearTimeout(timeout)
+  }, [toast])
+
+  return (
+    <UndoContext.Provider value={{ pushAction, undo, redo }}>
+      {children}
+      {toast && (
+        <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 animate-slideUp">
+          <div key={toast.id} className="glass-card flex items-center gap-3 pl-4 pr-2 py-2 text-sm">
+            <span className="text-[var(--foreground)] truncate max-w-[240px]">{toast.message}</span>
+            <button
+              onClick={toast.kind === 'undo' ? undo : redo}
+              className="pill-button flex items-center gap-1 px-2.5 py-1 text-xs font-medium bg-[var(--accent-bg)] text-[var(--accent-text)] hover:bg-[var(--accent-500)] hover:text-white transition-colors"
+            >
+              {toast.kind === 'undo' ? <Undo2 size={12} /> : <Redo2 size={12} />}
+              {toast.kind === 'undo' ? 'Undo' : 'Redo'}
+            </button>
+            <button
+              onClick={() => setToast(null)}
+              className="pill-button p-1 text-[var(--muted)] hover:text-[var(--foreground)] transition-colors"
+            >
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+      )}
+    </UndoContext.Provider>
+  )
+}
+
+export function useUndo() {
+  const context = useContext(UndoContext)
+  if (context === undefined) {
+    throw new Error('useUndo must be used within an UndoProvider')
+  }
+  return context
+}
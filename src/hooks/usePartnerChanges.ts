@@ -0,0 +1,42 @@
+'use client'
+
+import { Dispatch, SetStateAction, useEffect, useMemo } from 'react'
+import { createClient } from '@/lib/supabase/client'
+import { subscribeToPartnerChanges, applyPartnerChange } from '@/lib/realtime'
+import { HabitWithEntries, Profile } from '@/types/database'
+
+// Live updates to partners' habits and check-ins, merged into the partner list
+// Partner list changes need the new partner's profile and habits, so those call onPartnershipChange to refetch
+export function usePartnerChanges<P extends { profile: Profile; habits: HabitWithEntries[] }>(
+  channelName: string,
+  userId: string | undefined,
+  partners: P[],
+  setPartners: Dispatch<SetStateAction<P[]>>,
+  onPartnershipChange: () => void,
+  options: { includeArchived?: boolean } = {}
+) {
+  const supabase = useMemo(() => createClient(), [])
+  const { includeArchived } = options
+
+  // Resubscribe only when the partners or their habits change, not on every entry
+  const partnerIdsKey = useMemo(() => partners.map((p) => p.profile.id).join(','), [partners])
+  const habitIdsKey = useMemo(() => partners.flatMap((p) => p.habits.map((h) => h.id)).join(','), [partners])
+
+  useEffect(() => {
+    if (!userId) return
+    return subscribeToPartnerChanges(
+      supabase,
+      `${channelName}-${userId}`,
+      userId,
+      partnerIdsKey ? partnerIdsKey.split(',') : [],
+      habitIdsKey ? habitIdsKey.split(',') : [],
+      (change) => {
+        if (change.table === 'partnerships') {
+          onPartnershipChange()
+        } else {
+          setPartners((prev) => applyPartnerChange(prev, change, { includeArchived }))
+        }
+      }
+    )
+  }, [channelName, userId, partnerIdsKey, habitIdsKey, includeArchived, supabase, setPartners, onPartnershipChange])
+}
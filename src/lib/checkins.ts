@@ -0,0 +1,35 @@
+import { HabitCheckin, HabitWithEntries } from '@/types/database'
+
+// A day's check-ins, oldest first
+export function getCheckinsOn(habit: HabitWithEntries, date: string): HabitCheckin[] {
+  return (habit.checkins ?? [])
+    .filter((c) => c.date === date)
+    .sort((a, b) => a.checked_at.localeCompare(b.checked_at))
+}
+
+// Replace a day's check-ins and mirror the count into its entry, like the database trigger does
+// (once the last check-in is removed, the entry goes too unless it keeps a note)
+export function withDayCheckins(habit: HabitWithEntries, date: string, dayCheckins: HabitCheckin[]): HabitWithEntries {
+  const checkins = [...(habit.checkins ?? []).filter((c) => c.date !== date), ...dayCheckins]
+  const existing = habit.entries.find((e) => e.date === date)
+
+  if (dayCheckins.length === 0) {
+    const entries = habit.entries.filter((e) => e.date !== date)
+    if (existing?.note) entries.push({ ...existing, status: null, status_id: null, value: null })
+    return { ...habit, checkins, entries }
+  }
+
+  const entry = existing
+    ? { ...existing, status: 'done' as const, status_id: null, value: dayCheckins.length }
+    : {
+        id: `temp-${Date.now()}`,
+        habit_id: habit.id,
+        date,
+        status: 'done' as const,
+        status_id: null,
+        value: dayCheckins.length,
+        note: null,
+        created_at: new Date().toISOString(),
+      }
+  return { ...habit, checkins, entries: [...habit.entries.filter((e) => e.date !== date), entry] }
+}
@@ -0,0 +1,32 @@
+import { HabitEntry, HabitStatus, StatusStreakBehavior, POINTS_PER_DONE } from '@/types/database'
+
+// Habit's custom statuses in display order
+export function getHabitStatuses(habit: { statuses?: HabitStatus[] }): HabitStatus[] {
+  return [...(habit.statuses ?? [])].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at))
+}
+
+// Custom status an entry is set to, if it still exists
+export function getCustomStatus(
+  habit: { statuses?: HabitStatus[] },
+  entry: Pick<HabitEntry, 'status_id'> | null | undefined
+): HabitStatus | undefined {
+  if (!entry?.status_id) return undefined
+  return habit.statuses?.find(s => s.id === entry.status_id)
+}
+
+// Built-in status stored with a custom one, so views that only know done/missed/skipped stay close
+export function getBaseStatus(behavior: StatusStreakBehavior): HabitEntry['status'] {
+  if (behavior === 'continue') return 'done'
+  if (behavior === 'neutral') return 'skipped'
+  return 'missed'
+}
+
+// Fraction of a done day a custom status is worth (0 to 1)
+export function getStatusCompletion(status: HabitStatus): number {
+  return Math.min(Math.max(status.points / POINTS_PER_DONE, 0), 1)
+}
+
+// Days with a neutral custom status (e.g. "sick") drop out of the habit's target like paused days
+export function isExcusedEntry(habit: { statuses?: HabitStatus[] }, entry: HabitEntry | null | undefined): boolean {
+  return getCustomStatus(habit, entry)?.streak_behavior === 'neutral'
+}
@@ -0,0 +1,58 @@
+import { parseISO } from 'date-fns'
+import { Profile } from '@/types/database'
+
+export type DaySettings = Pick<Profile, 'timezone' | 'day_end_hour'>
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Formatters are cached per timezone - 'en-CA' formats as yyyy-MM-dd
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+    formatters.set(timezone, formatter)
+  }
+  return formatter
+}
+
+// Fall back to the browser's timezone when unset or unknown
+function resolveTimezone(timezone: string | null | undefined): string {
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  if (!timezone) return browserTimezone
+  try {
+    getFormatter(timezone)
+    return timezone
+  } catch {
+    return browserTimezone
+  }
+}
+
+// Date key (yyyy-MM-dd) a moment belongs to for a user
+// e.g. with day_end_hour = 3, a check-in at 1am still counts for the previous day
+export function getDateKeyFor(settings: DaySettings | null | undefined, at: Date = new Date()): string {
+  const shifted = new Date(at.getTime() - (settings?.day_end_hour ?? 0) * HOUR_MS)
+  return getFormatter(resolveTimezone(settings?.timezone)).format(shifted)
+}
+
+// The user's "today" as a date key
+export function getTodayKey(settings?: DaySettings | null): string {
+  return getDateKeyFor(settings)
+}
+
+// The user's "today" as a local-midnight Date for date-fns calendar math
+export function getToday(settings?: DaySettings | null): Date {
+  return parseISO(getTodayKey(settings))
+}
+
+// Timezones offered in profile settings
+export function getTimezoneOptions(): string[] {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+  return intl.supportedValuesOf?.('timeZone') ?? [Intl.DateTimeFormat().resolvedOptions().timeZone]
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import { getGoalProgress, getKeyResultCurrentValue, isGoalCompleted } from '@/lib/goalProgress'
+import { makeEntries, makeGoal, makeHabit, makeKeyResult } from '@/lib/testFixtures'
+
+const TODAY = '2026-10-18'
+
+// Q4 2026 runs from Oct 1 to Dec 31 (92 days)
+const quarterGoal = (id: string, overrides = {}) => makeGoal(id, { type: 'quarterly', quarter: 'Q4', year: 2026, ...overrides })
+
+describe('getGoalProgress', () => {
+  it('is null for goals ticked by hand', () => {
+    expect(getGoalProgress(quarterGoal('g'), [], TODAY)).toBeNull()
+  })
+
+  it('rolls up key results, each weighing the same', () => {
+    const goal = quarterGoal('g', {
+      key_results: [
+        makeKeyResult('up', 'g', { current_value: 5 }),
+        makeKeyResult('down', 'g', { start_value: 100, target_value: 50, current_value: 40 }),
+      ],
+    })
+    expect(getGoalProgress(goal, [], TODAY)).toMatchObject({
+      fraction: 0.75, completed: false, label: '75% · 1/2 key results', source: 'key_results',
+    })
+  })
+
+  describe('linked habits', () => {
+    const habit = makeHabit('run', {
+      start_date: '2026-09-01',
+      entries: makeEntries('run', ['2026-09-30', '2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05', '2026-10-20']),
+    })
+
+    it('counts completions within the goal period up to today', () => {
+      const goal = quarterGoal('g', { habit_ids: ['run'], metric: 'count', threshold: 10 })
+      expect(getGoalProgress(goal, [habit], TODAY)).toMatchObject({ current: 5, fraction: 0.5, completed: false, label: '5/10' })
+
+      const reached = { ...goal, threshold: 5 }
+      expect(getGoalProgress(reached, [habit], TODAY)?.completed).toBe(true)
+    })
+
+    it("compares a percentage with the habits' target over the whole period", () => {
+      const goal = quarterGoal('g', { habit_ids: ['run'], metric: 'percentage', threshold: 80 })
+      // 5 of 92 days, so far
+      expect(getGoalProgress(goal, [habit], TODAY)).toMatchObject({ current: 5, label: '5% of 80%', source: 'habits' })
+    })
+
+    it('stays linked once all of its habits are deleted', () => {
+      const goal = quarterGoal('g', { habit_ids: ['deleted'], metric: 'count', threshold: 10 })
+      expect(getGoalProgress(goal, [habit], TODAY)).toMatchObject({ fraction: 0, completed: false, label: 'No linked habits left', source: 'habits' })
+    })
+  })
+
+  describe('sub-goals', () => {
+    it('rolls up sub-goals, counting their own progress', () => {
+      const goals = [
+        quarterGoal('parent'),
+        makeGoal('ticked', { week_start: '2026-10-05', parent_id: 'parent', completed: true }),
+        makeGoal('open', { week_start: '2026-10-12', parent_id: 'parent' }),
+        makeGoal('rolled-up', { week_start: '2026-10-12', parent_id: 'parent' }),
+        makeGoal('day', { type: 'daily', date: '2026-10-13', parent_id: 'rolled-up', completed: true }),
+        // Carried over, so its follow-up takes its place
+        makeGoal('carried', { week_start: '2026-10-05', parent_id: 'parent', review_outcome: 'carried' }),
+      ]
+      const progress = getGoalProgress(goals[0], [], TODAY, goals)
+      expect(progress).toMatchObject({ current: 2, target: 3, completed: false, label: '2/3 sub-goals', source: 'sub_goals' })
+      expect(progress?.fraction).toBeCloseTo(2 / 3)
+    })
+
+    it('still lets a goal with sub-goals be ticked by hand', () => {
+      const goals = [quarterGoal('parent', { completed: true }), makeGoal('open', { week_start: '2026-10-12', parent_id: 'parent' })]
+      const progress = getGoalProgress(goals[0], [], TODAY, goals)
+      expect(progress?.completed).toBe(false)
+      expect(isGoalCompleted(goals[0], progress)).toBe(true)
+    })
+
+    it('stops at a loop of parents', () => {
+      const goals = [makeGoal('a', { parent_id: 'b' }), makeGoal('b', { parent_id: 'a' })]
+      expect(getGoalProgress(goals[0], [], TODAY, goals)).toMatchObject({ current: 0, target: 1 })
+    })
+  })
+})
+
+describe('getKeyResultCurrentValue', () => {
+  const update = (id: string, value: number, createdAt: string) => ({ id, key_result_id: 'kr', value, created_at: createdAt })
+
+  it('takes the latest update, breaking ties on the id like the trigger', () => {
+    const keyResult = makeKeyResult('kr', 'g', {
+      start_value: 5,
+      updates: [update('b', 8, '2026-10-02T00:00:00Z'), update('a', 3, '2026-10-01T00:00:00Z'), update('c', 9, '2026-10-02T00:00:00Z')],
+    })
+    expect(getKeyResultCurrentValue(keyResult)).toBe(9)
+  })
+
+  it('falls back to the start value without updates', () => {
+    expect(getKeyResultCurrentValue(makeKeyResult('kr', 'g', { start_value: 5, updates: [] }))).toBe(5)
+  })
+})
@@ -0,0 +1,203 @@
+import { format, parseISO, addDays, endOfMonth, eachDayOfInterval, getQuarter } from 'date-fns'
+import { Goal, GoalType, HabitWithEntries, KeyResult, KeyResultUpdate, Quarter, getQuarterDates, GOAL_TYPES } from '@/types/database'
+import { scoreHabit, combineScores, getScorePercentage } from '@/lib/habitScoring'
+import { getDayCompletion, getHabitStartDate, isTrackedDay, roundCompletion } from '@/lib/weeklyCalculations'
+
+// Where a goal's progress comes from
+export type GoalProgressSource = 'key_results' | 'habits' | 'sub_goals'
+
+export interface GoalProgress {
+  current: number
+  target: number
+  fraction: number // 0 to 1, for the progress bar
+  completed: boolean
+  label: string
+  source: GoalProgressSource
+}
+
+// The fields that place a goal in time
+export type GoalPeriodFields = Pick<Goal, 'type' | 'date' | 'week_start' | 'month_start' | 'quarter' | 'year'>
+
+// Days a goal covers (yyyy-MM-dd), or null when its period isn't known
+export function getGoalPeriod(goal: GoalPeriodFields): { start: string; end: string } | null {
+  if (goal.type === 'daily' && goal.date) {
+    return { start: goal.date, end: goal.date }
+  }
+  if (goal.type === 'weekly' && goal.week_start) {
+    return { start: goal.week_start, end: format(addDays(parseISO(goal.week_start), 6), 'yyyy-MM-dd') }
+  }
+  if (goal.type === 'monthly' && goal.month_start) {
+    return { start: goal.month_start, end: format(endOfMonth(parseISO(goal.month_start)), 'yyyy-MM-dd') }
+  }
+  if (!goal.year) return null
+  if (goal.type === 'quarterly' && goal.quarter) {
+    const { start, end } = getQuarterDates(goal.year, goal.quarter)
+    return { start: format(start, 'yyyy-MM-dd'), end: format(end, 'yyyy-MM-dd') }
+  }
+  if (goal.type === 'yearly') {
+    return { start: `${goal.year}-01-01`, end: `${goal.year}-12-31` }
+  }
+  return null
+}
+
+// Where a new goal for the given day, week or month start (or the selected quarter) sits in time - daily, weekly and monthly goals belong to the quarter
+// their period starts in, not necessarily the selected one
+export function getNewGoalPeriod(type: GoalType, periodStart: string | undefined, quarter: Quarter, year: number): GoalPeriodFields {
+  const periodDate = periodStart ? parseISO(periodStart) : null
+  return {
+    type,
+    quarter: type === 'yearly' ? null : periodDate ? `Q${getQuarter(periodDate)}` as Quarter : quarter,
+    year: periodDate ? periodDate.getFullYear() : year,
+    week_start: type === 'weekly' ? periodStart : null,
+    month_start: type === 'monthly' ? periodStart : null,
+    date: type === 'daily' ? periodStart : null,
+  }
+}
+
+// Short label for the period a goal belongs to
+export function formatGoalPeriod(goal: Goal): string {
+  if (goal.type === 'daily' && goal.date) return format(parseISO(goal.date), 'MMM d')
+  if (goal.type === 'weekly' && goal.week_start) return `Week of ${format(parseISO(goal.week_start), 'MMM d')}`
+  if (goal.type === 'monthly' && goal.month_start) return format(parseISO(goal.month_start), 'MMMM yyyy')
+  if (goal.type === 'quarterly') return `${goal.quarter} ${goal.year}`
+  return String(goal.year ?? '')
+}
+
+// How far a key result has moved from its start value toward its target (0 to 1)
+// Works for targets below the start value too, e.g. bringing response time down
+export function getKeyResultFraction(keyResult: KeyResult): number {
+  const span = keyResult.target_value - keyResult.start_value
+  if (span === 0) return keyResult.current_value === keyResult.target_value ? 1 : 0
+  return Math.min(Math.max((keyResult.current_value - keyResult.start_value) / span, 0), 1)
+}
+
+// A key result's current value as the database trigger keeps it - its latest update, or its start value
+// once none are left
+export function getKeyResultCurrentValue(keyResult: Pick<KeyResult, 'start_value' | 'updates'>): number {
+  const latest = (keyResult.updates ?? []).reduce<KeyResultUpdate | null>(
+    (best, update) =>
+      !best || update.created_at > best.created_at || (update.created_at === best.created_at && update.id > best.id) ? update : best,
+    null
+  )
+  return latest?.value ?? keyResult.start_value
+}
+
+// Whether a goal can sit under another - parents must have a longer horizon, e.g. yearly over quarterly,
+// and cover the period the child starts in (a week across two quarters belongs to the one it starts in)
+export function canBeParentGoal(parent: Goal, child: GoalPeriodFields): boolean {
+  if (GOAL_TYPES.indexOf(parent.type) <= GOAL_TYPES.indexOf(child.type)) return false
+  const parentPeriod = getGoalPeriod(parent)
+  const childPeriod = getGoalPeriod(child)
+  return !!parentPeriod && !!childPeriod && childPeriod.start >= parentPeriod.start && childPeriod.start <= parentPeriod.end
+}
+
+// Key results and linked habits decide whether a goal is complete; sub-goals complete it once they're
+// all done, but it can still be ticked by hand before then
+export function isGoalCompleted(goal: Goal, progress: GoalProgress | null | undefined): boolean {
+  if (!progress) return goal.completed
+  return progress.source === 'sub_goals' ? goal.completed || progress.completed : progress.completed
+}
+
+// A goal's sub-goals - carried, dropped and converted weekly goals are left out,
+// since their follow-ups (if any) take their place
+export function getChildGoals(goal: Goal, goals: Goal[]): Goal[] {
+  return goals.filter(g => g.parent_id === goal.id && !g.review_outcome)
+}
+
+// Progress of a goal from its key results (each weighs the same), linked habits' entries up to today,
+// or its sub-goals - null for goals ticked by hand
+export function getGoalProgress(
+  goal: Goal,
+  habits: HabitWithEntries[],
+  todayKey: string,
+  goals: Goal[] = [],
+  seen: Set<string> = new Set()
+): GoalProgress | null {
+  if (goal.key_results && goal.key_results.length > 0) return getKeyResultsProgress(goal.key_results)
+  return getLinkedHabitsProgress(goal, habits, todayKey) ?? getChildGoalsProgress(goal, habits, todayKey, goals, seen)
+}
+
+// Each sub-goal weighs the same and counts its own progress; the goal completes once they all do
+function getChildGoalsProgress(
+  goal: Goal,
+  habits: HabitWithEntries[],
+  todayKey: string,
+  goals: Goal[],
+  seen: Set<string>
+): GoalProgress | null {
+  if (seen.has(goal.id)) return null
+  const children = getChildGoals(goal, goals)
+  if (children.length === 0) return null
+
+  const childSeen = new Set(seen).add(goal.id)
+  const childProgress = children.map(child => {
+    const progress = getGoalProgress(child, habits, todayKey, goals, childSeen)
+    const completed = isGoalCompleted(child, progress)
+    return { fraction: completed ? 1 : progress?.fraction ?? 0, completed }
+  })
+  const fraction = childProgress.reduce((sum, p) => sum + p.fraction, 0) / children.length
+  const done = childProgress.filter(p => p.completed).length
+  return {
+    current: done,
+    target: children.length,
+    fraction,
+    completed: done === children.length,
+    label: `${done}/${children.length} sub-goals`,
+    source: 'sub_goals',
+  }
+}
+
+// The goal completes once every key result reaches its target
+function getKeyResultsProgress(keyResults: KeyResult[]): GoalProgress {
+  const fractions = keyResults.map(getKeyResultFraction)
+  const fraction = fractions.reduce((sum, f) => sum + f, 0) / fractions.length
+  const reached = fractions.filter(f => f >= 1).length
+  return {
+    current: reached,
+    target: keyResults.length,
+    fraction,
+    completed: reached === keyResults.length,
+    label: `${Math.round(fraction * 100)}% · ${reached}/${keyResults.length} key results`,
+    source: 'key_results',
+  }
+}
+
+// 'count' adds up completions (partial days count partially); 'percentage' compares completions with
+// the habits' target over the whole period, so it only reaches 100% once the period is fully done
+// A goal whose linked habits were all deleted stays at zero rather than turning back into a ticked one
+function getLinkedHabitsProgress(goal: Goal, habits: HabitWithEntries[], todayKey: string): GoalProgress | null {
+  if (!goal.habit_ids || goal.habit_ids.length === 0 || !goal.metric || !goal.threshold) return null
+  const period = getGoalPeriod(goal)
+  if (!period) return null
+  const linked = habits.filter(h => goal.habit_ids!.includes(h.id))
+  if (linked.length === 0) {
+    return { current: 0, target: goal.threshold, fraction: 0, completed: false, label: 'No linked habits left', source: 'habits' }
+  }
+
+  const days = eachDayOfInterval({ start: parseISO(period.start), end: parseISO(period.end) })
+  const target = goal.threshold
+
+  let current: number
+  if (goal.metric === 'count') {
+    current = roundCompletion(linked.reduce((sum, habit) => {
+      const entryMap = new Map(habit.entries.map(e => [e.date, e]))
+      const startDate = getHabitStartDate(habit)
+      return sum + days.reduce((habitSum, day) => {
+        const dateStr = format(day, 'yyyy-MM-dd')
+        if (dateStr > todayKey || dateStr < startDate || !isTrackedDay(habit, dateStr)) return habitSum
+        return habitSum + getDayCompletion(habit, entryMap.get(dateStr), dateStr)
+      }, 0)
+    }, 0))
+  } else {
+    current = getScorePercentage(combineScores(linked.map(habit => scoreHabit(habit, days, todayKey))))
+  }
+
+  return {
+    current,
+    target,
+    fraction: Math.min(current / target, 1),
+    completed: current >= target,
+    label: goal.metric === 'count' ? `${current}/${target}` : `${current}% of ${target}%`,
+    source: 'habits',
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { getCarryCount, getGoalsToReview } from '@/lib/goalReview'
+import { makeGoal } from '@/lib/testFixtures'
+import { Goal } from '@/types/database'
+
+const TODAY = '2026-10-18' // A Sunday, in the week starting 2026-10-12
+
+const byId = (goals: Goal[]) => new Map(goals.map((g) => [g.id, g]))
+
+describe('getGoalsToReview', () => {
+  it('returns unfinished weekly goals from the last four weeks, oldest first', () => {
+    const goals = [
+      makeGoal('last-week', { week_start: '2026-10-05' }),
+      makeGoal('four-weeks-ago', { week_start: '2026-09-14' }),
+      makeGoal('too-old', { week_start: '2026-09-07' }),
+      makeGoal('this-week', { week_start: '2026-10-12' }),
+      makeGoal('done', { week_start: '2026-10-05', completed: true }),
+      makeGoal('reviewed', { week_start: '2026-10-05', review_outcome: 'dropped' }),
+      makeGoal('temp-1', { week_start: '2026-10-05' }),
+      makeGoal('monthly', { type: 'monthly', month_start: '2026-09-01' }),
+    ]
+    expect(getGoalsToReview(goals, [], TODAY).map((g) => g.id)).toEqual(['four-weeks-ago', 'last-week'])
+  })
+
+  it('leaves out goals their sub-goals completed, but not ones still waiting on them', () => {
+    const goals = [
+      makeGoal('finished', { week_start: '2026-10-05' }),
+      makeGoal('finished-day', { type: 'daily', date: '2026-10-06', parent_id: 'finished', completed: true }),
+      makeGoal('open', { week_start: '2026-10-05' }),
+      makeGoal('open-day', { type: 'daily', date: '2026-10-07', parent_id: 'open' }),
+    ]
+    expect(getGoalsToReview(goals, [], TODAY).map((g) => g.id)).toEqual(['open'])
+  })
+})
+
+describe('getCarryCount', () => {
+  it('follows carried_from back to the original goal', () => {
+    const goals = [
+      makeGoal('original', { week_start: '2026-09-28', review_outcome: 'carried' }),
+      makeGoal('second', { week_start: '2026-10-05', carried_from: 'original', review_outcome: 'carried' }),
+      makeGoal('third', { week_start: '2026-10-12', carried_from: 'second' }),
+    ]
+    expect(getCarryCount(goals[2], byId(goals))).toBe(2)
+    expect(getCarryCount(goals[0], byId(goals))).toBe(0)
+  })
+
+  it('counts a carry whose original was deleted and stops on a loop', () => {
+    const orphan = makeGoal('orphan', { carried_from: 'deleted' })
+    expect(getCarryCount(orphan, byId([orphan]))).toBe(1)
+
+    const loop = [makeGoal('a', { carried_from: 'b' }), makeGoal('b', { carried_from: 'a' })]
+    expect(getCarryCount(loop[0], byId(loop))).toBe(1)
+  })
+})
@@ -0,0 +1,38 @@
+import { format, parseISO, startOfWeek, subWeeks } from 'date-fns'
+import { getGoalProgress, isGoalCompleted } from '@/lib/goalProgress'
+import { Goal, HabitWithEntries } from '@/types/database'
+
+// How far back the end-of-week review looks, so old unfinished goals don't pile up forever
+const REVIEW_WEEKS = 4
+
+// Unfinished weekly goals from recent past weeks that haven't been carried over, dropped or converted yet
+// Goals with progress (linked habits, key results or sub-goals) are finished once that progress completes them
+export function getGoalsToReview(goals: Goal[], habits: HabitWithEntries[], todayKey: string): Goal[] {
+  const weekStart = startOfWeek(parseISO(todayKey), { weekStartsOn: 1 })
+  const thisWeek = format(weekStart, 'yyyy-MM-dd')
+  const earliest = format(subWeeks(weekStart, REVIEW_WEEKS), 'yyyy-MM-dd')
+
+  return goals
+    .filter(g =>
+      g.type === 'weekly' && !g.review_outcome && !g.id.startsWith('temp-') &&
+      !!g.week_start && g.week_start < thisWeek && g.week_start >= earliest &&
+      !isGoalCompleted(g, getGoalProgress(g, habits, todayKey, goals))
+    )
+    .sort((a, b) => a.week_start!.localeCompare(b.week_start!))
+}
+
+// How many times a goal has been pushed to a later week, following carried_from back to the original
+export function getCarryCount(goal: Goal, goalsById: Map<string, Goal>): number {
+  const seen = new Set<string>([goal.id])
+
+  let count = 0
+  let current = goal
+  while (current.carried_from && !seen.has(current.carried_from)) {
+    count++
+    seen.add(current.carried_from)
+    const previous = goalsById.get(current.carried_from)
+    if (!previous) break
+    current = previous
+  }
+  return count
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { getDueStatus } from '@/lib/habitDueStatus'
+import { makeEntries, makeHabit } from '@/lib/testFixtures'
+
+const TODAY = '2026-10-18'
+
+describe('getDueStatus', () => {
+  it('leaves weekly and break habits to the week row', () => {
+    expect(getDueStatus(makeHabit('a'), TODAY)).toBeNull()
+    expect(getDueStatus(makeHabit('a', { kind: 'break', frequency_type: 'monthly' }), TODAY)).toBeNull()
+  })
+
+  describe('interval habits', () => {
+    const doneOn = (date: string) =>
+      makeHabit('a', { frequency_type: 'interval', interval_days: 3, start_date: '2026-10-01', entries: makeEntries('a', [date]) })
+
+    it('counts the days until the habit is due again', () => {
+      expect(getDueStatus(doneOn(TODAY), TODAY)).toMatchObject({ state: 'done', label: 'Done today' })
+      expect(getDueStatus(doneOn('2026-10-16'), TODAY)).toMatchObject({ state: 'upcoming', label: 'Due in 1d' })
+      expect(getDueStatus(doneOn('2026-10-15'), TODAY)).toMatchObject({ state: 'due', label: 'Due today' })
+      expect(getDueStatus(doneOn('2026-10-14'), TODAY)).toMatchObject({ state: 'overdue', label: '1d overdue' })
+    })
+  })
+
+  describe('monthly habits', () => {
+    const fiveDone = makeEntries('a', ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05'])
+
+    it('is on track while the remaining check-offs fit in the days left', () => {
+      const habit = makeHabit('a', { frequency_type: 'monthly', target_per_month: 10, start_date: '2026-10-01', entries: fiveDone })
+      expect(getDueStatus(habit, TODAY)).toEqual({ state: 'upcoming', label: '5/10 this month', detail: '5 more by Oct 31' })
+    })
+
+    it('falls behind once they no longer fit', () => {
+      const habit = makeHabit('a', { frequency_type: 'monthly', target_per_month: 20, start_date: '2026-10-01', entries: fiveDone })
+      expect(getDueStatus(habit, TODAY)).toMatchObject({ state: 'overdue' })
+    })
+
+    it('rounds a prorated target up to whole check-offs', () => {
+      // Started on the 10th, so the target covers 22 of October's 31 days
+      const habit = makeHabit('a', { frequency_type: 'monthly', target_per_month: 10, start_date: '2026-10-10', entries: makeEntries('a', ['2026-10-10']) })
+      expect(getDueStatus(habit, TODAY)).toMatchObject({ label: '1/8 this month' })
+    })
+  })
+})
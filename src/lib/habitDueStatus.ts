@@ -0,0 +1,72 @@
+import { format, parseISO, addDays, subDays, startOfMonth, endOfMonth, differenceInCalendarDays, eachDayOfInterval } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+import { getDayCompletion, getHabitStartDate, isPausedOn, isTrackedDay } from '@/lib/weeklyCalculations'
+import { scoreHabit } from '@/lib/habitScoring'
+
+export type DueState = 'done' | 'upcoming' | 'due' | 'overdue'
+
+export interface DueStatus {
+  state: DueState
+  label: string // Short text for the habit card
+  detail: string // Longer explanation for the tooltip
+}
+
+// When a monthly or interval habit is next due - weekly habits show progress in the week row instead
+export function getDueStatus(habit: HabitWithEntries, todayKey: string): DueStatus | null {
+  if (habit.kind === 'break') return null
+  if (habit.frequency_type === 'monthly') return getMonthlyDueStatus(habit, todayKey)
+  if (habit.frequency_type === 'interval') return getIntervalDueStatus(habit, todayKey)
+  return null
+}
+
+// Monthly habits fall behind once the remaining check-offs no longer fit in the days left
+function getMonthlyDueStatus(habit: HabitWithEntries, todayKey: string): DueStatus {
+  const today = parseISO(todayKey)
+  const monthDays = eachDayOfInterval({ start: startOfMonth(today), end: endOfMonth(today) })
+  const { completed, expected } = scoreHabit(habit, monthDays, todayKey)
+  // A mid-month start or paused days prorate the target, so round it up to whole check-offs
+  const label = `${completed}/${Math.ceil(expected)} this month`
+
+  const needed = Math.ceil(expected - completed)
+  if (needed <= 0) return { state: 'done', label, detail: 'Monthly target reached' }
+
+  // Days still open this month, today included
+  const daysLeft = monthDays.filter(day => format(day, 'yyyy-MM-dd') >= todayKey && isTrackedDay(habit, day)).length
+  const remaining = `${needed} more by ${format(endOfMonth(today), 'MMM d')}`
+  if (needed > daysLeft) return { state: 'overdue', label, detail: `${remaining} - not enough days left` }
+  if (needed === daysLeft) return { state: 'due', label, detail: `${remaining} - every day left counts` }
+  return { state: 'upcoming', label, detail: remaining }
+}
+
+// Interval habits come due N days after they were last done (or N days into their first interval),
+// the same intervals they're scored by
+function getIntervalDueStatus(habit: HabitWithEntries, todayKey: string): DueStatus {
+  const length = Math.max(habit.interval_days ?? 1, 1)
+  const lastDone = habit.entries
+    .filter(e => e.date <= todayKey && getDayCompletion(habit, e, e.date) > 0)
+    .map(e => e.date)
+    .sort()
+    .pop()
+  const dayBeforeStart = format(subDays(parseISO(getHabitStartDate(habit)), 1), 'yyyy-MM-dd')
+  const dueDate = getNextDueDate(habit, lastDone ?? dayBeforeStart, length)
+  const dueLabel = format(parseISO(dueDate), 'MMM d')
+
+  if (lastDone === todayKey) return { state: 'done', label: 'Done today', detail: `Next due ${dueLabel}` }
+
+  const daysUntil = differenceInCalendarDays(parseISO(dueDate), parseISO(todayKey))
+  const lastLabel = lastDone ? `Last done ${format(parseISO(lastDone), 'MMM d')}` : 'Not done yet'
+  if (daysUntil > 0) return { state: 'upcoming', label: `Due in ${daysUntil}d`, detail: `Next due ${dueLabel} · ${lastLabel}` }
+  if (daysUntil === 0) return { state: 'due', label: 'Due today', detail: lastLabel }
+  return { state: 'overdue', label: `${-daysUntil}d overdue`, detail: `Was due ${dueLabel} · ${lastLabel}` }
+}
+
+// Paused days don't count toward the interval
+function getNextDueDate(habit: HabitWithEntries, lastDone: string, length: number): string {
+  let date = parseISO(lastDone)
+  let counted = 0
+  while (counted < length) {
+    date = addDays(date, 1)
+    if (!isPausedOn(habit, date)) counted++
+  }
+  return format(date, 'yyyy-MM-dd')
+}
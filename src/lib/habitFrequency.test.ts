@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { parseISO } from 'date-fns'
+import { getFrequencyPeriod } from '@/lib/habitFrequency'
+import { makeEntries, makeHabit, makePause } from '@/lib/testFixtures'
+
+describe('getFrequencyPeriod', () => {
+  it('uses the Monday-to-Sunday week for weekly habits', () => {
+    const habit = makeHabit('a', { target_per_week: 5 })
+    expect(getFrequencyPeriod(habit, parseISO('2026-10-15'))).toEqual({
+      start: '2026-10-12', end: '2026-10-18', slots: 7, target: 5, allowedRestDays: 2,
+    })
+
+    const scheduled = makeHabit('a', { schedule_days: [1, 3, 5] })
+    expect(getFrequencyPeriod(scheduled, parseISO('2026-10-15'))).toMatchObject({ slots: 3, target: 3, allowedRestDays: 0 })
+  })
+
+  it('uses the calendar month for monthly habits, capping the target at its days', () => {
+    const habit = makeHabit('a', { frequency_type: 'monthly', target_per_month: 30 })
+    expect(getFrequencyPeriod(habit, parseISO('2026-02-10'))).toEqual({
+      start: '2026-02-01', end: '2026-02-28', slots: 28, target: 28, allowedRestDays: 0,
+    })
+  })
+
+  describe('interval habits', () => {
+    const habit = makeHabit('a', {
+      frequency_type: 'interval',
+      interval_days: 3,
+      start_date: '2026-10-01',
+      entries: makeEntries('a', ['2026-10-02']),
+    })
+
+    it('ends a period when the habit is done and starts the next one the day after', () => {
+      expect(getFrequencyPeriod(habit, parseISO('2026-10-01'))).toMatchObject({ start: '2026-10-01', end: '2026-10-02', slots: 2 })
+      expect(getFrequencyPeriod(habit, parseISO('2026-10-04'))).toMatchObject({ start: '2026-10-03', end: '2026-10-05', slots: 3 })
+    })
+
+    it('starts a new period after one that passes without a completion', () => {
+      expect(getFrequencyPeriod(habit, parseISO('2026-10-07'))).toMatchObject({ start: '2026-10-06', end: '2026-10-08', target: 1 })
+      // Looking up an earlier date after a later one gives the same answer
+      expect(getFrequencyPeriod(habit, parseISO('2026-10-03'))).toMatchObject({ start: '2026-10-03', end: '2026-10-05' })
+    })
+
+    it("doesn't count paused days toward the interval", () => {
+      const paused = { ...habit, pauses: [makePause('p', 'a', '2026-10-04', '2026-10-05')] }
+      expect(getFrequencyPeriod(paused, parseISO('2026-10-04'))).toMatchObject({ start: '2026-10-03', end: '2026-10-07', slots: 3 })
+    })
+
+    it('counts intervals back from the start date before the habit starts', () => {
+      expect(getFrequencyPeriod(habit, parseISO('2026-09-27'))).toMatchObject({ start: '2026-09-25', end: '2026-09-27' })
+    })
+  })
+})
@@ -0,0 +1,119 @@
+import { format, parseISO, addDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth, getDaysInMonth, differenceInCalendarDays } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+import { getAllowedRestDays, getDayCompletion, getHabitStartDate, getTargetPerWeek, isPausedOn } from '@/lib/weeklyCalculations'
+
+// The days a habit's target applies to - a Monday-to-Sunday week, a calendar month,
+// or one interval counted from the habit's last completion
+export interface FrequencyPeriod {
+  start: string // yyyy-MM-dd
+  end: string
+  slots: number // Days the habit can be done on
+  target: number // How many of them it aims for
+  allowedRestDays: number
+}
+
+export function getFrequencyPeriod(habit: HabitWithEntries, date: Date): FrequencyPeriod {
+  if (habit.frequency_type === 'monthly') {
+    const slots = getDaysInMonth(date)
+    return {
+      start: format(startOfMonth(date), 'yyyy-MM-dd'),
+      end: format(endOfMonth(date), 'yyyy-MM-dd'),
+      slots,
+      target: Math.min(habit.target_per_month ?? 1, slots),
+      allowedRestDays: 0,
+    }
+  }
+
+  if (habit.frequency_type === 'interval') return getIntervalPeriod(habit, date)
+
+  const weekStart = startOfWeek(date, { weekStartsOn: 1 })
+  const scheduled = habit.schedule_days && habit.schedule_days.length > 0 ? habit.schedule_days.length : null
+  return {
+    start: format(weekStart, 'yyyy-MM-dd'),
+    end: format(endOfWeek(weekStart, { weekStartsOn: 1 }), 'yyyy-MM-dd'),
+    slots: scheduled ?? 7,
+    target: scheduled ?? Math.min(getTargetPerWeek(habit, weekStart), 7),
+    allowedRestDays: getAllowedRestDays(habit, weekStart),
+  }
+}
+
+// Interval periods follow the due status: each starts on the habit's start date or the day after it
+// was done, and ends once it's done again or when it falls due - after interval_days unpaused days.
+// An interval that passes without a completion is missed, and the next one starts right after it.
+function getIntervalPeriod(habit: HabitWithEntries, date: Date): FrequencyPeriod {
+  const length = Math.max(habit.interval_days ?? 1, 1)
+  const dateStr = format(date, 'yyyy-MM-dd')
+  const startDate = getHabitStartDate(habit)
+
+  // Before the habit starts there's nothing to count from, so intervals are counted back from its start date
+  if (dateStr < startDate) {
+    const anchor = parseISO(startDate)
+    const start = addDays(anchor, Math.floor(differenceInCalendarDays(date, anchor) / length) * length)
+    return {
+      start: format(start, 'yyyy-MM-dd'),
+      end: format(addDays(start, length - 1), 'yyyy-MM-dd'),
+      slots: length,
+      target: 1,
+      allowedRestDays: 0,
+    }
+  }
+
+  // Walk on from where the last lookup stopped until a period reaches the date
+  const walk = getIntervalWalk(habit, startDate)
+  while (walk.periods.length === 0 || walk.periods[walk.periods.length - 1].end < dateStr) {
+    const dayStr = format(walk.day, 'yyyy-MM-dd')
+    if (!isPausedOn(habit, dayStr)) walk.counted++
+    if (walk.doneDates.has(dayStr) || walk.counted === length) {
+      walk.periods.push({ start: walk.start, end: dayStr, slots: Math.max(walk.counted, 1), target: 1, allowedRestDays: 0 })
+      walk.start = format(addDays(walk.day, 1), 'yyyy-MM-dd')
+      walk.counted = 0
+    }
+    walk.day = addDays(walk.day, 1)
+  }
+
+  // The last period starting on or before the date
+  let low = 0
+  let high = walk.periods.length - 1
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2)
+    if (walk.periods[mid].start <= dateStr) low = mid
+    else high = mid - 1
+  }
+  return walk.periods[low]
+}
+
+// Interval periods found so far for a habit, and where the walk through its days stopped
+interface IntervalWalk {
+  periods: FrequencyPeriod[]
+  doneDates: Set<string>
+  start: string // Start of the period being walked
+  day: Date // Next day to look at
+  counted: number // Unpaused days so far in the period being walked
+}
+
+// Habits are replaced rather than changed when their entries or pauses change, so a walk stays valid
+// for as long as its habit object lives - scoring a long span then walks each habit's days only once
+const intervalWalks = new WeakMap<HabitWithEntries, IntervalWalk>()
+
+function getIntervalWalk(habit: HabitWithEntries, startDate: string): IntervalWalk {
+  let walk = intervalWalks.get(habit)
+  if (!walk) {
+    walk = {
+      periods: [],
+      doneDates: new Set(habit.entries.filter(e => getDayCompletion(habit, e, e.date) > 0).map(e => e.date)),
+      start: startDate,
+      day: parseISO(startDate),
+      counted: 0,
+    }
+    intervalWalks.set(habit, walk)
+  }
+  return walk
+}
+
+// Label for an interval, e.g. "Every 10 days" or "Every 6 weeks"
+export function formatInterval(days: number): string {
+  if (days === 1) return 'Daily'
+  if (days === 7) return 'Every week'
+  if (days % 7 === 0) return `Every ${days / 7} weeks`
+  return `Every ${days} days`
+}
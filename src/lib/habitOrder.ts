@@ -0,0 +1,65 @@
+import { Habit } from '@/types/database'
+
+type OrderedHabit = Pick<Habit, 'id' | 'position' | 'group_name' | 'created_at'>
+
+export interface HabitGroup<T> {
+  name: string | null // null for habits without a group
+  habits: T[]
+}
+
+// Manual order first, oldest first where positions tie (e.g. habits from before ordering existed)
+export function sortHabits<T extends OrderedHabit>(habits: T[]): T[] {
+  return [...habits].sort((a, b) =>
+    (a.position ?? 0) - (b.position ?? 0) || a.created_at.localeCompare(b.created_at)
+  )
+}
+
+// Split sorted habits into groups in order of first appearance, ungrouped habits last
+export function groupHabits<T extends OrderedHabit>(habits: T[]): HabitGroup<T>[] {
+  const groups = new Map<string | null, T[]>()
+  habits.forEach((habit) => {
+    const name = habit.group_name || null
+    groups.set(name, [...(groups.get(name) ?? []), habit])
+  })
+
+  const named = Array.from(groups.entries()).filter(([name]) => name !== null)
+  const ungrouped = groups.get(null)
+  return [
+    ...named.map(([name, habits]) => ({ name, habits })),
+    ...(ungrouped ? [{ name: null, habits: ungrouped }] : []),
+  ]
+}
+
+// Group names in use, for suggestions when editing a habit
+export function getGroupNames(habits: OrderedHabit[]): string[] {
+  return groupHabits(sortHabits(habits))
+    .map((group) => group.name)
+    .filter((name): name is string => name !== null)
+}
+
+// Move a habit before another one (or to the end of a group when targetId is null), taking on
+// that group. Returns every habit with positions renumbered in display order.
+export function moveHabit<T extends OrderedHabit>(
+  habits: T[],
+  habitId: string,
+  targetId: string | null,
+  groupName: string | null
+): T[] {
+  const moving = habits.find((h) => h.id === habitId)
+  if (!moving || habitId === targetId) return habits
+
+  // Work in display order so groups stay together
+  const ordered = groupHabits(sortHabits(habits.filter((h) => h.id !== habitId))).flatMap((g) => g.habits)
+  const moved = { ...moving, group_name: groupName }
+
+  let index = targetId ? ordered.findIndex((h) => h.id === targetId) : -1
+  if (index === -1) {
+    const lastInGroup = ordered.map((h) => h.group_name || null).lastIndexOf(groupName)
+    index = lastInGroup === -1 ? ordered.length : lastInGroup + 1
+  }
+  ordered.splice(index, 0, moved)
+
+  return ordered.map((habit, position) =>
+    habit.position === position && habit !== moved ? habit : { ...habit, position }
+  )
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { getHabitRecords, getNewRecords } from '@/lib/habitRecords'
+import { makeEntries, makeHabit } from '@/lib/testFixtures'
+
+const TODAY = '2026-10-18' // A Sunday
+
+describe('getHabitRecords', () => {
+  it('finds streaks, the best periods and total completions', () => {
+    const habit = makeHabit('a', {
+      start_date: '2026-10-01',
+      entries: makeEntries('a', ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09']),
+    })
+    const records = getHabitRecords(habit, TODAY)
+
+    expect(records.streaks).toEqual([
+      { start: '2026-10-06', end: '2026-10-09', length: 4 },
+      { start: '2026-10-01', end: '2026-10-03', length: 3 },
+    ])
+    expect(records.longestStreak).toBe(4)
+    expect(records.bestWeek).toEqual({ start: '2026-10-05', completed: 4 })
+    expect(records.bestMonth).toEqual({ start: '2026-10-01', completed: 7 })
+    expect(records.bestQuarter).toEqual({ start: '2026-10-01', completed: 7 })
+    expect(records.totalCompletions).toBe(7)
+  })
+
+  it('keeps a streak running through an empty today', () => {
+    const habit = makeHabit('a', { start_date: '2026-10-15', entries: makeEntries('a', ['2026-10-16', '2026-10-17']) })
+    expect(getHabitRecords(habit, TODAY).streaks).toEqual([{ start: '2026-10-16', end: '2026-10-17', length: 2 }])
+  })
+
+  it('has no records before the habit starts', () => {
+    const records = getHabitRecords(makeHabit('a', { start_date: '2026-11-01' }), TODAY)
+    expect(records).toEqual({ longestStreak: 0, streaks: [], bestWeek: null, bestMonth: null, bestQuarter: null, totalCompletions: 0 })
+  })
+
+  it('reuses the records of an unchanged habit until the day changes', () => {
+    const habit = makeHabit('a', { start_date: '2026-10-15', entries: makeEntries('a', ['2026-10-16', '2026-10-17']) })
+    const records = getHabitRecords(habit, TODAY)
+    expect(getHabitRecords(habit, TODAY)).toBe(records)
+    expect(getHabitRecords(habit, '2026-10-19')).not.toBe(records)
+  })
+})
+
+describe('getNewRecords', () => {
+  const earlier = ['2026-10-01', '2026-10-02', '2026-10-03']
+  const recent = ['2026-10-15', '2026-10-16', '2026-10-17']
+
+  it('celebrates a streak and a week that beat an earlier best', () => {
+    const before = makeHabit('a', { start_date: '2026-10-01', entries: makeEntries('a', [...earlier, ...recent]) })
+    const after = { ...before, entries: makeEntries('a', [...earlier, ...recent, TODAY]) }
+    expect(getNewRecords(getHabitRecords(before, TODAY), getHabitRecords(after, TODAY))).toEqual([
+      'Longest streak: 4 days',
+      'Best week: 4',
+    ])
+  })
+
+  it('needs an earlier best to beat', () => {
+    const before = makeHabit('a', { start_date: '2026-10-17' })
+    const after = { ...before, entries: makeEntries('a', ['2026-10-17']) }
+    expect(getNewRecords(getHabitRecords(before, TODAY), getHabitRecords(after, TODAY))).toEqual([])
+  })
+
+  it("doesn't celebrate the record holder again as it grows", () => {
+    const before = makeHabit('a', { start_date: '2026-10-01', entries: makeEntries('a', ['2026-10-01', '2026-10-02', ...recent]) })
+    const after = { ...before, entries: makeEntries('a', ['2026-10-01', '2026-10-02', ...recent, TODAY]) }
+    // The recent streak and this week already held the records before today's check-in
+    expect(getNewRecords(getHabitRecords(before, TODAY), getHabitRecords(after, TODAY))).toEqual([])
+  })
+})
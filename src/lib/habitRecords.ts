@@ -0,0 +1,129 @@
+import { format, eachDayOfInterval, parseISO, startOfWeek, startOfMonth, startOfQuarter } from 'date-fns'
+import { HabitWithEntries } from '@/types/database'
+import { getDayCompletion, getHabitStartDate, isTrackedDay, roundCompletion } from '@/lib/weeklyCalculations'
+import { getDayOutcome } from '@/lib/habitScoring'
+
+// A run of successful days (yyyy-MM-dd), rest days in between don't add to its length
+export interface StreakRun {
+  start: string
+  end: string
+  length: number
+}
+
+// Best completion total for a period, keyed by the period's first day
+export interface PeriodRecord {
+  start: string
+  completed: number
+}
+
+export interface HabitRecords {
+  longestStreak: number
+  streaks: StreakRun[] // Most recent first
+  bestWeek: PeriodRecord | null
+  bestMonth: PeriodRecord | null
+  bestQuarter: PeriodRecord | null
+  totalCompletions: number
+}
+
+// Habits are replaced rather than changed when their entries change, so records stay valid for as long
+// as their habit object lives (and today stays the same) - walking the full history once per check-in
+const recordsCache = new WeakMap<HabitWithEntries, { todayKey: string; records: HabitRecords }>()
+
+// Personal bests derived from a habit's full entry history up to today
+export function getHabitRecords(habit: HabitWithEntries, todayKey: string): HabitRecords {
+  const cached = recordsCache.get(habit)
+  if (cached?.todayKey === todayKey) return cached.records
+
+  const records = computeHabitRecords(habit, todayKey)
+  recordsCache.set(habit, { todayKey, records })
+  return records
+}
+
+function computeHabitRecords(habit: HabitWithEntries, todayKey: string): HabitRecords {
+  const startDate = getHabitStartDate(habit)
+  const streaks: StreakRun[] = []
+  const weeks = new Map<string, number>()
+  const months = new Map<string, number>()
+  const quarters = new Map<string, number>()
+  let totalCompletions = 0
+
+  if (startDate <= todayKey) {
+    const entryMap = new Map(habit.entries.map(e => [e.date, e]))
+    let run: StreakRun | null = null
+
+    eachDayOfInterval({ start: parseISO(startDate), end: parseISO(todayKey) }).forEach(day => {
+      const dateStr = format(day, 'yyyy-MM-dd')
+      const entry = entryMap.get(dateStr)
+      const outcome = getDayOutcome(habit, entry, dateStr)
+
+      if (outcome === 'success') {
+        run = run ? { ...run, end: dateStr, length: run.length + 1 } : { start: dateStr, end: dateStr, length: 1 }
+      } else if (outcome === 'miss' && dateStr !== todayKey && run) {
+        // Today can't end a streak while it's still in progress
+        streaks.push(run)
+        run = null
+      }
+
+      if (!isTrackedDay(habit, dateStr)) return
+      const completion = getDayCompletion(habit, entry, dateStr)
+      if (completion === 0) return
+      totalCompletions += completion
+      addTo(weeks, format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd'), completion)
+      addTo(months, format(startOfMonth(day), 'yyyy-MM-dd'), completion)
+      addTo(quarters, format(startOfQuarter(day), 'yyyy-MM-dd'), completion)
+    })
+
+    if (run) streaks.push(run)
+  }
+
+  return {
+    longestStreak: Math.max(0, ...streaks.map(s => s.length)),
+    streaks: streaks.reverse(),
+    bestWeek: getBestPeriod(weeks),
+    bestMonth: getBestPeriod(months),
+    bestQuarter: getBestPeriod(quarters),
+    totalCompletions: roundCompletion(totalCompletions),
+  }
+}
+
+function addTo(totals: Map<string, number>, key: string, value: number) {
+  totals.set(key, (totals.get(key) ?? 0) + value)
+}
+
+// Highest total wins, the earliest period keeps a tie
+function getBestPeriod(totals: Map<string, number>): PeriodRecord | null {
+  let best: PeriodRecord | null = null
+  totals.forEach((completed, start) => {
+    if (!best || completed > best.completed) best = { start, completed: roundCompletion(completed) }
+  })
+  return best
+}
+
+// Records beaten between two snapshots, e.g. before and after a check-in
+// There has to be an earlier best to beat, and a streak or period that already holds
+// the record doesn't celebrate again each time it grows
+export function getNewRecords(before: HabitRecords, after: HabitRecords): string[] {
+  const beaten: string[] = []
+  const prevLongest = getLongestRun(before)
+  const nextLongest = getLongestRun(after)
+  if (prevLongest && nextLongest && nextLongest.length > prevLongest.length && nextLongest.start !== prevLongest.start) {
+    beaten.push(`Longest streak: ${nextLongest.length} days`)
+  }
+
+  const periods = [
+    ['Best week', before.bestWeek, after.bestWeek],
+    ['Best month', before.bestMonth, after.bestMonth],
+    ['Best quarter', before.bestQuarter, after.bestQuarter],
+  ] as const
+  periods.forEach(([label, prev, next]) => {
+    if (prev && next && next.completed > prev.completed && next.start !== prev.start) {
+      beaten.push(`${label}: ${next.completed}`)
+    }
+  })
+  return beaten
+}
+
+// The earliest streak with the record length
+function getLongestRun(records: HabitRecords): StreakRun | undefined {
+  return [...records.streaks].reverse().find(s => s.length === records.longestStreak)
+}
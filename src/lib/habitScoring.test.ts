@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import { eachDayOfInterval, parseISO } from 'date-fns'
+import { getDailyStreak, getPeriodStreak, getWeeklyStreak, scoreGroups, scoreHabit } from '@/lib/habitScoring'
+import { makeEntries, makeEntry, makeHabit, makePause } from '@/lib/testFixtures'
+
+const TODAY = '2026-10-18' // A Sunday
+
+const days = (start: string, end: string) => eachDayOfInterval({ start: parseISO(start), end: parseISO(end) })
+const THIS_WEEK = days('2026-10-12', TODAY)
+
+describe('scoreHabit', () => {
+  it('scores a week against its target without counting extra days', () => {
+    const habit = makeHabit('a', { target_per_week: 3, start_date: '2026-10-01', entries: makeEntries('a', ['2026-10-12', '2026-10-13']) })
+    expect(scoreHabit(habit, THIS_WEEK, TODAY)).toEqual({ completed: 2, expected: 3 })
+
+    const overachiever = { ...habit, entries: makeEntries('a', ['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15']) }
+    expect(scoreHabit(overachiever, THIS_WEEK, TODAY)).toEqual({ completed: 3, expected: 3 })
+  })
+
+  it('prorates the target for a habit that starts mid-week', () => {
+    const habit = makeHabit('a', { target_per_week: 7, start_date: '2026-10-15' })
+    expect(scoreHabit(habit, THIS_WEEK, TODAY).expected).toBe(4)
+  })
+
+  it('keeps allowed rest days and paused days out of the target', () => {
+    const rested = makeHabit('a', {
+      target_per_week: 5,
+      start_date: '2026-10-01',
+      entries: [...makeEntries('a', ['2026-10-12', '2026-10-13', '2026-10-14', '2026-10-15', '2026-10-16']), makeEntry('s', 'a', '2026-10-17', { status: 'skipped' })],
+    })
+    expect(scoreHabit(rested, THIS_WEEK, TODAY)).toEqual({ completed: 5, expected: 5 })
+
+    const paused = makeHabit('a', { start_date: '2026-10-01', pauses: [makePause('p', 'a', '2026-10-12', '2026-10-14')] })
+    expect(scoreHabit(paused, THIS_WEEK, TODAY).expected).toBe(4)
+  })
+
+  it('counts partial progress toward a measured daily target', () => {
+    const habit = makeHabit('a', { target_value: 10, start_date: '2026-10-01', entries: makeEntries('a', ['2026-10-12'], { value: 5 }) })
+    expect(scoreHabit(habit, days('2026-10-12', '2026-10-12'), TODAY).completed).toBe(0.5)
+  })
+
+  it('expects future days but only completes days up to today', () => {
+    const habit = makeHabit('a', { start_date: '2026-10-01', entries: makeEntries('a', ['2026-10-12', '2026-10-20']) })
+    expect(scoreHabit(habit, days('2026-10-12', '2026-10-25'), TODAY)).toEqual({ completed: 1, expected: 14 })
+  })
+})
+
+describe('scoreGroups', () => {
+  it('combines scores per group with ungrouped habits last as "Other"', () => {
+    const habits = [makeHabit('a', { group_name: 'Health' }), makeHabit('b'), makeHabit('c', { group_name: 'Health' })]
+    const scores = [{ completed: 2, expected: 7 }, { completed: 7, expected: 7 }, { completed: 5, expected: 7 }]
+    expect(scoreGroups(habits, scores)).toEqual([
+      { groupName: 'Health', doneCount: 7, targetDays: 14, percentage: 50 },
+      { groupName: 'Other', doneCount: 7, targetDays: 7, percentage: 100 },
+    ])
+  })
+
+  it('has no groups when nothing is grouped', () => {
+    expect(scoreGroups([makeHabit('a')], [{ completed: 1, expected: 7 }])).toEqual([])
+  })
+})
+
+describe('getDailyStreak', () => {
+  it('counts done days up to today without breaking on an empty today', () => {
+    const habit = makeHabit('a', { start_date: '2026-10-01', entries: makeEntries('a', ['2026-10-15', '2026-10-16', '2026-10-17']) })
+    expect(getDailyStreak([habit], TODAY)).toBe(3)
+  })
+
+  it('ends the streak on a miss logged today', () => {
+    const habit = makeHabit('a', {
+      start_date: '2026-10-01',
+      entries: [...makeEntries('a', ['2026-10-16', '2026-10-17']), makeEntry('missed', 'a', TODAY, { status: 'missed' })],
+    })
+    expect(getDailyStreak([habit], TODAY)).toBe(0)
+  })
+
+  it('counts clean days of a break habit since its last relapse', () => {
+    const clean = makeHabit('b', { kind: 'break', start_date: '2026-10-10' })
+    expect(getDailyStreak([clean], TODAY)).toBe(9)
+
+    const relapsed = { ...clean, entries: [makeEntry('r', 'b', '2026-10-15', { status: 'missed' })] }
+    expect(getDailyStreak([relapsed], TODAY)).toBe(3)
+  })
+
+  it('drops to zero on a relapse logged today', () => {
+    const habit = makeHabit('b', { kind: 'break', start_date: '2026-10-10', entries: [makeEntry('r', 'b', TODAY, { status: 'missed' })] })
+    expect(getDailyStreak([habit], TODAY)).toBe(0)
+  })
+
+  it('steps over an allowed rest day', () => {
+    const habit = makeHabit('a', {
+      target_per_week: 6,
+      start_date: '2026-10-01',
+      entries: [...makeEntries('a', ['2026-10-15', '2026-10-16']), makeEntry('s', 'a', '2026-10-17', { status: 'skipped' })],
+    })
+    expect(getDailyStreak([habit], TODAY)).toBe(2)
+  })
+
+  it('keeps the streak on a day with only a note', () => {
+    const habit = makeHabit('a', {
+      start_date: '2026-10-01',
+      entries: [...makeEntries('a', ['2026-10-17']), makeEntry('note', 'a', TODAY, { status: null, note: 'Later' })],
+    })
+    expect(getDailyStreak([habit], TODAY)).toBe(1)
+  })
+})
+
+describe('getWeeklyStreak', () => {
+  const weeksDone = ['2026-09-28', '2026-09-29', '2026-09-30', '2026-10-05', '2026-10-06', '2026-10-07']
+
+  it('counts past weeks on target, and the current week once it gets there', () => {
+    const habit = makeHabit('a', { target_per_week: 3, start_date: '2026-09-28', entries: makeEntries('a', [...weeksDone, '2026-10-12']) })
+    expect(getWeeklyStreak([habit], TODAY)).toBe(2)
+
+    const met = { ...habit, entries: makeEntries('a', [...weeksDone, '2026-10-12', '2026-10-13', '2026-10-14']) }
+    expect(getWeeklyStreak([met], TODAY)).toBe(3)
+  })
+
+  it('needs every weekly habit on target and ignores monthly and interval habits', () => {
+    const onTarget = makeHabit('a', { target_per_week: 3, start_date: '2026-10-05', entries: makeEntries('a', weeksDone) })
+    const behind = makeHabit('b', { target_per_week: 3, start_date: '2026-10-05' })
+    const monthly = makeHabit('c', { frequency_type: 'monthly', target_per_month: 10, start_date: '2026-10-05' })
+    expect(getWeeklyStreak([onTarget, monthly], TODAY)).toBe(1)
+    expect(getWeeklyStreak([onTarget, behind], TODAY)).toBe(0)
+    expect(getWeeklyStreak([monthly], TODAY)).toBe(0)
+  })
+})
+
+describe('getPeriodStreak', () => {
+  it('counts months on target, leaving the current month open', () => {
+    const habit = makeHabit('a', {
+      frequency_type: 'monthly',
+      target_per_month: 2,
+      start_date: '2026-08-01',
+      entries: makeEntries('a', ['2026-08-03', '2026-08-04', '2026-09-10', '2026-09-11', '2026-10-01']),
+    })
+    expect(getPeriodStreak(habit, TODAY)).toBe(2)
+  })
+
+  it('counts intervals done in time since the last missed one', () => {
+    // Intervals: Oct 1-2 and 3-5 done, 6-8 missed, 9-10, 11-13 and 14-16 done, and the current one from the 17th
+    const habit = makeHabit('a', {
+      frequency_type: 'interval',
+      interval_days: 3,
+      start_date: '2026-10-01',
+      entries: makeEntries('a', ['2026-10-02', '2026-10-05', '2026-10-10', '2026-10-13', '2026-10-16']),
+    })
+    expect(getPeriodStreak(habit, TODAY)).toBe(3)
+  })
+})
@@ -0,0 +1,212 @@
+import { format, startOfWeek, endOfWeek, eachDayOfInterval, parseISO, subDays, subWeeks } from 'date-fns'
+import { HabitEntry, HabitWithEntries } from '@/types/database'
+import { getAllowedRestDays, getDayCompletion, getHabitStartDate, hasFlexibleFrequency, isTrackedDay, roundCompletion } from '@/lib/weeklyCalculations'
+import { FrequencyPeriod, getFrequencyPeriod } from '@/lib/habitFrequency'
+import { getCustomStatus, isExcusedEntry } from '@/lib/customStatuses'
+import { groupHabits } from '@/lib/habitOrder'
+
+// Progress toward a habit's weekly targets over a span of days
+export interface HabitScore {
+  completed: number
+  expected: number
+}
+
+// Combined progress of the habits in one group
+export interface GroupScore {
+  groupName: string
+  doneCount: number
+  targetDays: number
+  percentage: number
+}
+
+// Running totals for one frequency period (week, month or interval) while scoring
+interface PeriodScore extends FrequencyPeriod {
+  tracked: number
+  rested: number
+  completed: number
+}
+
+// Score a habit over some days, grouped into its frequency periods - Monday-to-Sunday weeks,
+// calendar months, or intervals. Each period expects its target, prorated when only part of it
+// is covered (partial quarters, a habit created mid-week, or archived). Allowed rest days and
+// neutral custom statuses are neutral, and completion beyond the target doesn't carry over to other periods.
+// Each week uses the target that was in force then, so changing a target doesn't rewrite the past.
+// Days after todayKey count toward the target but can't be completed yet.
+export function scoreHabit(habit: HabitWithEntries, days: Date[], todayKey?: string): HabitScore {
+  const startDate = getHabitStartDate(habit)
+  const entryMap = new Map(habit.entries.map(e => [e.date, e]))
+
+  const periods = new Map<string, PeriodScore>()
+  let frequencyPeriod: FrequencyPeriod | undefined
+  days.forEach(day => {
+    const dateStr = format(day, 'yyyy-MM-dd')
+    if (dateStr < startDate || !isTrackedDay(habit, day)) return
+
+    // Neutral custom statuses (e.g. "sick") take the day out of the target
+    const entry = entryMap.get(dateStr)
+    if (isExcusedEntry(habit, entry)) return
+
+    // Consecutive days mostly share a period, so only look it up again once a day falls outside it
+    if (!frequencyPeriod || dateStr < frequencyPeriod.start || dateStr > frequencyPeriod.end) {
+      frequencyPeriod = getFrequencyPeriod(habit, day)
+    }
+    const period = periods.get(frequencyPeriod.start) ?? { ...frequencyPeriod, tracked: 0, rested: 0, completed: 0 }
+    periods.set(frequencyPeriod.start, period)
+    period.tracked++
+
+    if (entry?.status === 'skipped' && period.rested < period.allowedRestDays) {
+      period.rested++
+      return
+    }
+    if (todayKey === undefined || dateStr <= todayKey) {
+      period.completed += getDayCompletion(habit, entry, dateStr)
+    }
+  })
+
+  let completed = 0
+  let expected = 0
+  periods.forEach(period => {
+    const periodExpected = period.target * (period.tracked - period.rested) / (period.slots - period.rested)
+    expected += periodExpected
+    completed += Math.min(period.completed, periodExpected)
+  })
+
+  return { completed: roundCompletion(completed), expected: roundCompletion(expected) }
+}
+
+// Add up scores, e.g. across a user's habits
+export function combineScores(scores: HabitScore[]): HabitScore {
+  return {
+    completed: roundCompletion(scores.reduce((sum, s) => sum + s.completed, 0)),
+    expected: roundCompletion(scores.reduce((sum, s) => sum + s.expected, 0)),
+  }
+}
+
+// Whole-number percentage of the target reached (0 to 100)
+export function getScorePercentage(score: HabitScore): number {
+  if (score.expected <= 0) return 0
+  return Math.min(Math.round((score.completed / score.expected) * 100), 100)
+}
+
+// Combine sorted habits' scores (in the same order) per group, ungrouped habits as "Other"
+// Empty unless at least one habit is grouped
+export function scoreGroups(habits: HabitWithEntries[], habitScores: HabitScore[]): GroupScore[] {
+  const groups = groupHabits(habits)
+  if (!groups.some(group => group.name !== null)) return []
+  return groups.map(group => {
+    const score = combineScores(group.habits.map(habit => habitScores[habits.indexOf(habit)]))
+    return {
+      groupName: group.name ?? 'Other',
+      doneCount: score.completed,
+      targetDays: score.expected,
+      percentage: getScorePercentage(score)
+    }
+  })
+}
+
+// How a day went for a habit - unscheduled, paused and allowed rest days are neutral, as are
+// empty days of monthly and interval habits. Custom statuses follow their own streak behaviour.
+export type DayOutcome = 'success' | 'neutral' | 'miss'
+
+// Whether a rest day on a date still fits the habit's weekly allowance (earlier rest days use it up first)
+export function isAllowedRestDay(habit: HabitWithEntries, dateStr: string): boolean {
+  const weekStartStr = format(startOfWeek(parseISO(dateStr), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  const restDaysSoFar = habit.entries.filter(e =>
+    e.status === 'skipped' && !e.status_id && e.date >= weekStartStr && e.date <= dateStr
+  ).length
+  return restDaysSoFar <= getAllowedRestDays(habit, weekStartStr)
+}
+
+export function getDayOutcome(habit: HabitWithEntries, entry: HabitEntry | undefined, dateStr: string): DayOutcome {
+  if (dateStr < getHabitStartDate(habit) || !isTrackedDay(habit, dateStr)) return 'neutral'
+  const customStatus = getCustomStatus(habit, entry)
+  if (customStatus) {
+    return customStatus.streak_behavior === 'continue' ? 'success'
+      : customStatus.streak_behavior === 'neutral' ? 'neutral'
+      : 'miss'
+  }
+  if (getDayCompletion(habit, entry, dateStr) > 0) return 'success'
+  if (entry?.status === 'skipped' && isAllowedRestDay(habit, dateStr)) return 'neutral'
+  if (hasFlexibleFrequency(habit)) return 'neutral'
+  return 'miss'
+}
+
+// Consecutive successful days ending today, stepping over neutral days
+// A day succeeds if any habit succeeded, and only breaks the streak if none did and one was missed
+// Today can't break the streak while it's still open, but a miss logged today (e.g. a relapse) does
+export function getDailyStreak(habits: HabitWithEntries[], todayKey: string): number {
+  if (habits.length === 0) return 0
+  const entryMaps = habits.map(habit => new Map(habit.entries.map(e => [e.date, e])))
+  const earliestStart = habits.map(habit => getHabitStartDate(habit)).sort()[0]
+
+  let streak = 0
+  let date = parseISO(todayKey)
+  let dateStr = todayKey
+  while (dateStr >= earliestStart) {
+    const entries = entryMaps.map(entryMap => entryMap.get(dateStr))
+    const outcomes = habits.map((habit, i) => getDayOutcome(habit, entries[i], dateStr))
+    const isMissed = outcomes.some((outcome, i) => outcome === 'miss' && (dateStr !== todayKey || !!entries[i]?.status))
+    if (outcomes.includes('success')) {
+      streak++
+    } else if (isMissed) {
+      break
+    }
+    date = subDays(date, 1)
+    dateStr = format(date, 'yyyy-MM-dd')
+  }
+
+  return streak
+}
+
+// Consecutive Monday-to-Sunday weeks where every weekly habit met its target, ending this week
+// The current week only adds to the streak once its target is met
+export function getWeeklyStreak(allHabits: HabitWithEntries[], todayKey: string): number {
+  const habits = allHabits.filter(habit => !hasFlexibleFrequency(habit))
+  if (habits.length === 0) return 0
+  const earliestStart = habits.map(habit => getHabitStartDate(habit)).sort()[0]
+
+  let streak = 0
+  let weekStart = startOfWeek(parseISO(todayKey), { weekStartsOn: 1 })
+  let isCurrentWeek = true
+  while (format(endOfWeek(weekStart, { weekStartsOn: 1 }), 'yyyy-MM-dd') >= earliestStart) {
+    const days = eachDayOfInterval({ start: weekStart, end: endOfWeek(weekStart, { weekStartsOn: 1 }) })
+    const scores = habits.map(habit => scoreHabit(habit, days, todayKey)).filter(s => s.expected > 0)
+    const isMet = scores.length > 0 && scores.every(s => s.completed >= s.expected)
+
+    // Weeks with nothing expected (e.g. fully paused) neither add to nor break the streak
+    if (isMet) {
+      streak++
+    } else if (!isCurrentWeek && scores.length > 0) {
+      break
+    }
+    isCurrentWeek = false
+    weekStart = subWeeks(weekStart, 1)
+  }
+
+  return streak
+}
+
+// Consecutive frequency periods (weeks, months or intervals) a habit met its target, ending with
+// the current one, which only adds to the streak once its target is met
+export function getPeriodStreak(habit: HabitWithEntries, todayKey: string): number {
+  const startDate = getHabitStartDate(habit)
+
+  let streak = 0
+  let period = getFrequencyPeriod(habit, parseISO(todayKey))
+  let isCurrentPeriod = true
+  while (period.end >= startDate) {
+    const days = eachDayOfInterval({ start: parseISO(period.start), end: parseISO(period.end) })
+    const score = scoreHabit(habit, days, todayKey)
+
+    // Periods with nothing expected (e.g. fully paused) neither add to nor break the streak
+    if (score.expected > 0 && score.completed >= score.expected) {
+      streak++
+    } else if (!isCurrentPeriod && score.expected > 0) {
+      break
+    }
+    isCurrentPeriod = false
+    period = getFrequencyPeriod(habit, subDays(parseISO(period.start), 1))
+  }
+
+  return streak
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest'
+import { Mutation, isPermanentError, withClientId } from '@/lib/offlineQueue'
+
+describe('isPermanentError', () => {
+  it('drops data, constraint and permission errors but retries the rest', () => {
+    expect(isPermanentError({ message: 'duplicate key', code: '23505' })).toBe(true)
+    expect(isPermanentError({ message: 'invalid input syntax', code: '22P02' })).toBe(true)
+    expect(isPermanentError({ message: 'permission denied', code: '42501' })).toBe(true)
+    expect(isPermanentError({ message: 'no rows', code: 'PGRST116' })).toBe(true)
+    expect(isPermanentError({ message: 'statement timeout', code: '57014' })).toBe(false)
+    expect(isPermanentError({ message: 'Bad gateway' })).toBe(false)
+  })
+})
+
+describe('withClientId', () => {
+  it('gives single-row inserts an ID once', () => {
+    const mutation = withClientId({ type: 'insert', table: 'goals', key: 'goal:temp-1', values: { title: 'Read' }, tempId: 'temp-1' })
+    expect(mutation.type === 'insert' && !Array.isArray(mutation.values) && mutation.values.id).toMatch(/^[0-9a-f-]{36}$/)
+    expect(withClientId(mutation)).toBe(mutation)
+  })
+
+  it('leaves batch inserts and other writes alone', () => {
+    const batch: Mutation = { type: 'insert', table: 'habit_entries', key: 'entries', values: [{ habit_id: 'a' }] }
+    const update: Mutation = { type: 'update', table: 'goals', key: 'goal:1', values: { title: 'Run' }, match: { id: '1' } }
+    expect(withClientId(batch)).toBe(batch)
+    expect(withClientId(update)).toBe(update)
+  })
+})
@@ -0,0 +1,212 @@
+import { createClient } from '@/lib/supabase/client'
+
+type SupabaseClient = ReturnType<typeof createClient>
+type Row = Record<string, unknown>
+
+export type MutationTable = 'habits' | 'habit_entries' | 'habit_pauses' | 'habit_target_changes' | 'habit_checkins' | 'habit_statuses' | 'goals' | 'goal_key_results' | 'key_result_updates' | 'partnerships'
+
+// A write that can be stored while offline and replayed later
+// `key` identifies the item it touches so the UI can show it as pending
+export type Mutation = { table: MutationTable; key: string } & (
+  | { type: 'insert'; values: Row | Row[]; tempId?: string }
+  | { type: 'upsert'; values: Row; onConflict: string }
+  | { type: 'update'; values: Row; match: Record<string, string> }
+  | { type: 'delete'; match: Record<string, string> }
+)
+
+export interface QueuedMutation {
+  id?: number
+  userId: string // Only replayed for the user who made it
+  mutation: Mutation
+  queuedAt: string
+  attempts?: number // Replays that failed with an error worth retrying
+}
+
+export interface MutationError {
+  message: string
+  code?: string
+  details?: string
+  hint?: string
+}
+
+// A queued write the server refused when it was replayed, so it was discarded
+export interface RejectedMutation {
+  mutation: Mutation
+  error: MutationError
+  queuedAt: string
+}
+
+const DB_NAME = 'habits-offline'
+const STORE_NAME = 'mutations'
+
+// A queued write that keeps failing with a transient error is given up after this many replays
+const MAX_REPLAY_ATTEMPTS = 5
+
+// Keys for pending-sync indicators
+export const entryKey = (habitId: string, date: string) => `habit_entries:${habitId}:${date}`
+export const habitKey = (habitId: string) => `habits:${habitId}`
+export const pauseKey = (habitId: string, startDate: string, endDate: string) => `habit_pauses:${habitId}:${startDate}:${endDate}`
+export const targetChangeKey = (habitId: string, effectiveDate: string) => `habit_target_changes:${habitId}:${effectiveDate}`
+export const checkinKey = (habitId: string, date: string) => `habit_checkins:${habitId}:${date}`
+export const statusKey = (habitId: string, statusId: string) => `habit_statuses:${habitId}:${statusId}`
+export const goalKey = (goalId: string) => `goals:${goalId}`
+export const keyResultKey = (goalId: string, keyResultId: string) => `goal_key_results:${goalId}:${keyResultId}`
+export const partnershipKey = (partnerId: string) => `partnerships:${partnerId}`
+
+// fetch failures surface as errors without a PostgREST code
+export function isNetworkError(error: MutationError | null | undefined): boolean {
+  if (!error) return false
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(error.message || '')
+}
+
+// Errors retrying can't fix - data exceptions (22), constraint violations (23), syntax and
+// permission errors (42) and PostgREST's own request errors - as opposed to e.g. timeouts or a server restart
+export function isPermanentError(error: MutationError): boolean {
+  const code = error.code ?? ''
+  return /^(22|23|42)/.test(code) || code.startsWith('PGRST')
+}
+
+// Single-row inserts get their ID up front, so replaying one whose first attempt reached the server
+// (but whose response didn't make it back) can't add the row twice
+export function withClientId(mutation: Mutation): Mutation {
+  if (mutation.type !== 'insert' || Array.isArray(mutation.values) || mutation.values.id) return mutation
+  return { ...mutation, values: { ...mutation.values, id: crypto.randomUUID() } }
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }).finally(() => db.close()) as Promise<T>
+}
+
+export async function enqueueMutation(mutation: Mutation, userId: string): Promise<void> {
+  await withStore('readwrite', (store) =>
+    store.add({ userId, mutation, queuedAt: new Date().toISOString() } satisfies QueuedMutation)
+  )
+}
+
+// A user's queued mutations in the order they were made - another account signed in on the same
+// browser never sees or replays them
+export async function getQueuedMutations(userId: string): Promise<QueuedMutation[]> {
+  if (typeof indexedDB === 'undefined') return []
+  const queue = await withStore<QueuedMutation[]>('readonly', (store) => store.getAll())
+  return queue.filter((item) => item.userId === userId)
+}
+
+async function removeQueuedMutation(id: number): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+async function putQueuedMutation(item: QueuedMutation): Promise<void> {
+  await withStore('readwrite', (store) => store.put(item))
+}
+
+// Swap a temp ID for the server-created one anywhere in a mutation
+function replaceTempId<T>(value: T, tempId: string, realId: string): T {
+  if (typeof value === 'string') return value.split(tempId).join(realId) as T
+  if (Array.isArray(value)) return value.map((v) => replaceTempId(v, tempId, realId)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, replaceTempId(v, tempId, realId)])
+    ) as T
+  }
+  return value
+}
+
+// Replays insert rows with a client ID idempotently - a row that already made it is left as it is
+export async function executeMutation(
+  supabase: SupabaseClient,
+  mutation: Mutation,
+  { isReplay = false }: { isReplay?: boolean } = {}
+): Promise<{ data: Row | null; error: MutationError | null }> {
+  const table = supabase.from(mutation.table)
+
+  switch (mutation.type) {
+    case 'insert':
+      if (Array.isArray(mutation.values)) {
+        const { error } = await table.insert(mutation.values)
+        return { data: null, error }
+      }
+      if (isReplay && mutation.values.id) {
+        const { data, error } = await table.upsert(mutation.values, { onConflict: 'id', ignoreDuplicates: true }).select()
+        return { data: error ? null : (data?.[0] as Row | undefined) ?? mutation.values, error }
+      }
+      return table.insert(mutation.values).select().single()
+    case 'upsert':
+      return table.upsert(mutation.values, { onConflict: mutation.onConflict }).select().single()
+    case 'update': {
+      const { error } = await table.update(mutation.values).match(mutation.match)
+      return { data: null, error }
+    }
+    case 'delete': {
+      const { error } = await table.delete().match(mutation.match)
+      return { data: null, error }
+    }
+  }
+}
+
+// Replay a user's queued mutations in order, stopping at the first network failure
+// Transient server errors stop the replay too and are retried on the next one, a few times at most.
+// Permanent rejections (e.g. the row was deleted on another device) are dropped so the queue can't jam,
+// and returned so the user can be told
+export async function replayQueue(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<{ synced: number; rejected: RejectedMutation[]; remaining: number }> {
+  const queue = await getQueuedMutations(userId)
+  let synced = 0
+  const rejected: RejectedMutation[] = []
+
+  for (let i = 0; i < queue.length; i++) {
+    const item = queue[i]
+    const { data, error } = await executeMutation(supabase, item.mutation, { isReplay: true })
+    if (isNetworkError(error)) break
+
+    const attempts = (item.attempts ?? 0) + 1
+    if (error && !isPermanentError(error) && attempts < MAX_REPLAY_ATTEMPTS) {
+      console.warn('Offline change failed, will retry:', error.message || error.code || error)
+      await putQueuedMutation({ ...item, attempts })
+      break
+    }
+
+    await removeQueuedMutation(item.id!)
+    if (error) {
+      console.error('Dropped conflicting offline change:', error.message || error.code || error)
+      rejected.push({ mutation: item.mutation, error, queuedAt: item.queuedAt })
+      continue
+    }
+    synced++
+
+    // Point later mutations at the row the server created
+    const tempId = item.mutation.type === 'insert' ? item.mutation.tempId : undefined
+    if (tempId && data?.id) {
+      for (let j = i + 1; j < queue.length; j++) {
+        const updated = replaceTempId(queue[j], tempId, String(data.id))
+        if (JSON.stringify(updated) !== JSON.stringify(queue[j])) {
+          queue[j] = updated
+          await putQueuedMutation(updated)
+        }
+      }
+    }
+  }
+
+  return { synced, rejected, remaining: queue.length - synced - rejected.length }
+}
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest'
+import { RowChange, applyEntryChange, applyHabitChange, applyPartnerChange, applyPauseChange, applyRowChange, getHabitChildSubscriptions } from '@/lib/realtime'
+import { makeEntry, makeHabit, makeHabitRow, makePause, makeProfile } from '@/lib/testFixtures'
+
+// Realtime payloads as Supabase delivers them - DELETEs only carry the old row (REPLICA IDENTITY FULL)
+function change(table: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: object, old: object = {}): RowChange {
+  return {
+    schema: 'public',
+    table,
+    commit_timestamp: '2026-10-18T12:00:00Z',
+    errors: [],
+    eventType,
+    new: eventType === 'DELETE' ? {} : row,
+    old: eventType === 'DELETE' ? row : old,
+  } as unknown as RowChange
+}
+
+describe('applyEntryChange', () => {
+  it('replaces the entry for the same date, even under a different id', () => {
+    // An optimistic temp entry is replaced by the server row for the same day
+    const habits = [makeHabit('a', { entries: [makeEntry('temp-1', 'a', '2026-10-18')] })]
+    const result = applyEntryChange(habits, change('habit_entries', 'INSERT', makeEntry('e1', 'a', '2026-10-18', { value: 2 })))
+    expect(result[0].entries).toEqual([makeEntry('e1', 'a', '2026-10-18', { value: 2 })])
+  })
+
+  it('removes a deleted entry by id', () => {
+    const habits = [makeHabit('a', { entries: [makeEntry('e1', 'a', '2026-10-17'), makeEntry('e2', 'a', '2026-10-18')] })]
+    const result = applyEntryChange(habits, change('habit_entries', 'DELETE', { id: 'e1', habit_id: 'a' }))
+    expect(result[0].entries.map((e) => e.id)).toEqual(['e2'])
+  })
+
+  it('keeps unrelated habits and unknown changes identical', () => {
+    const habits = [makeHabit('a'), makeHabit('b')]
+    const result = applyEntryChange(habits, change('habit_entries', 'INSERT', makeEntry('e1', 'a', '2026-10-18')))
+    expect(result[1]).toBe(habits[1])
+
+    // Entries of habits that aren't loaded (e.g. another user's) change nothing
+    expect(applyEntryChange(habits, change('habit_entries', 'INSERT', makeEntry('e2', 'x', '2026-10-18')))).toBe(habits)
+    expect(applyEntryChange(habits, change('habit_entries', 'DELETE', { id: 'missing' }))).toBe(habits)
+  })
+})
+
+describe('applyPauseChange', () => {
+  it('replaces a pause with the same date range, even under a different id', () => {
+    const habits = [makeHabit('a', { pauses: [makePause('temp-1', 'a', '2026-10-01', '2026-10-05')] })]
+    const result = applyPauseChange(habits, change('habit_pauses', 'INSERT', makePause('p1', 'a', '2026-10-01', '2026-10-05')))
+    expect(result[0].pauses?.map((p) => p.id)).toEqual(['p1'])
+  })
+
+  it('keeps other pauses and removes deleted ones by id', () => {
+    const habits = [makeHabit('a', { pauses: [makePause('p1', 'a', '2026-09-01', '2026-09-03')] })]
+    const added = applyPauseChange(habits, change('habit_pauses', 'INSERT', makePause('p2', 'a', '2026-10-01', '2026-10-05')))
+    expect(added[0].pauses?.map((p) => p.id)).toEqual(['p1', 'p2'])
+
+    const removed = applyPauseChange(added, change('habit_pauses', 'DELETE', { id: 'p1', habit_id: 'a' }))
+    expect(removed[0].pauses?.map((p) => p.id)).toEqual(['p2'])
+  })
+})
+
+describe('applyHabitChange', () => {
+  it('merges an update but keeps the entries already loaded', () => {
+    const entries = [makeEntry('e1', 'a', '2026-10-18')]
+    const habits = [makeHabit('a', { entries })]
+    const row = makeHabitRow('a', { name: 'Renamed' })
+    const result = applyHabitChange(habits, change('habits', 'UPDATE', row))
+    expect(result[0].name).toBe('Renamed')
+    expect(result[0].entries).toBe(entries)
+  })
+
+  it('adds new habits with empty child lists and removes deleted ones', () => {
+    const row = makeHabitRow('b')
+    const added = applyHabitChange([makeHabit('a')], change('habits', 'INSERT', row))
+    expect(added.map((h) => h.id)).toEqual(['a', 'b'])
+    expect(added[1].entries).toEqual([])
+
+    const removed = applyHabitChange(added, change('habits', 'DELETE', { id: 'a' }))
+    expect(removed.map((h) => h.id)).toEqual(['b'])
+  })
+
+  it('drops habits that become archived when archived habits are left out', () => {
+    const habits = [makeHabit('a')]
+    const row = makeHabitRow('a', { archived: true })
+    expect(applyHabitChange(habits, change('habits', 'UPDATE', row), { includeArchived: false })).toEqual([])
+    expect(applyHabitChange(habits, change('habits', 'UPDATE', row))[0].archived).toBe(true)
+  })
+})
+
+describe('applyPartnerChange', () => {
+  const partners = () => [
+    { profile: makeProfile('partner-1'), habits: [makeHabit('a', { user_id: 'partner-1' })] },
+    { profile: makeProfile('partner-2'), habits: [makeHabit('b', { user_id: 'partner-2' })] },
+  ]
+
+  it('adds a new habit only to the partner who owns it', () => {
+    const before = partners()
+    const row = makeHabitRow('c', { user_id: 'partner-2' })
+    const after = applyPartnerChange(before, change('habits', 'INSERT', row))
+    expect(after[0]).toBe(before[0])
+    expect(after[1].habits.map((h) => h.id)).toEqual(['b', 'c'])
+  })
+
+  it('removes a deleted habit from the partner that had it', () => {
+    const before = partners()
+    const after = applyPartnerChange(before, change('habits', 'DELETE', { id: 'a' }))
+    expect(after[0].habits).toEqual([])
+    expect(after[1]).toBe(before[1])
+  })
+
+  it('routes entry changes to the habit they belong to', () => {
+    const before = partners()
+    const after = applyPartnerChange(before, change('habit_entries', 'INSERT', makeEntry('e1', 'b', '2026-10-18')))
+    expect(after[0]).toBe(before[0])
+    expect(after[1].habits[0].entries.map((e) => e.id)).toEqual(['e1'])
+  })
+
+  it('routes check-in changes to the habit they belong to', () => {
+    const before = partners()
+    const checkin = { id: 'c1', habit_id: 'a', date: '2026-10-18', checked_at: '2026-10-18T08:00:00Z', created_at: '' }
+    const after = applyPartnerChange(before, change('habit_checkins', 'INSERT', checkin))
+    expect(after[0].habits[0].checkins).toEqual([checkin])
+    expect(after[1]).toBe(before[1])
+  })
+
+  it('ignores habits of people who are not partners', () => {
+    const before = partners()
+    const row = makeHabitRow('z', { user_id: 'stranger' })
+    const after = applyPartnerChange(before, change('habits', 'INSERT', row))
+    expect(after[0]).toBe(before[0])
+    expect(after[1]).toBe(before[1])
+  })
+})
+
+describe('getHabitChildSubscriptions', () => {
+  it('filters every child table to the given habits', () => {
+    const subscriptions = getHabitChildSubscriptions(['a', 'b'])
+    expect(subscriptions.map((s) => s.table)).toEqual(['habit_entries', 'habit_pauses', 'habit_target_changes', 'habit_checkins', 'habit_statuses'])
+    expect(subscriptions.every((s) => s.filter === 'habit_id=in.(a,b)')).toBe(true)
+  })
+
+  it('subscribes to nothing without habits rather than to every row', () => {
+    expect(getHabitChildSubscriptions([])).toEqual([])
+  })
+})
+
+describe('applyRowChange', () => {
+  it('merges, appends and removes rows by id', () => {
+    const rows = [{ id: '1', title: 'Read', completed: false }]
+    const updated = applyRowChange(rows, change('goals', 'UPDATE', { id: '1', completed: true }))
+    expect(updated).toEqual([{ id: '1', title: 'Read', completed: true }])
+
+    const added = applyRowChange(updated, change('goals', 'INSERT', { id: '2', title: 'Run', completed: false }))
+    expect(added.map((r) => r.id)).toEqual(['1', '2'])
+
+    expect(applyRowChange(added, change('goals', 'DELETE', { id: '1' })).map((r) => r.id)).toEqual(['2'])
+    expect(applyRowChange(added, change('goals', 'DELETE', { id: 'missing' }))).toBe(added)
+  })
+})
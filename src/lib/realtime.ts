@@ -0,0 +1,289 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { Goal, Habit, HabitCheckin, HabitEntry, HabitPause, HabitStatus, HabitTargetChange, HabitWithEntries, KeyResult, KeyResultUpdate, Profile } from '@/types/database'
+
+type SupabaseClient = ReturnType<typeof createClient>
+
+export type RowChange = RealtimePostgresChangesPayload<Record<string, unknown>>
+
+export interface TableSubscription {
+  table: string
+  filter?: string
+}
+
+// Listen to row changes on several tables over one channel - returns a cleanup function
+export function subscribeToChanges(
+  supabase: SupabaseClient,
+  channelName: string,
+  subscriptions: TableSubscription[],
+  onChange: (change: RowChange) => void
+): () => void {
+  const channel = supabase.channel(channelName)
+  subscriptions.forEach(({ table, filter }) => {
+    channel.on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table, ...(filter ? { filter } : {}) },
+      onChange
+    )
+  })
+  channel.subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+// Tables hanging off a habit, each with a habit_id column
+const HABIT_CHILD_TABLES = ['habit_entries', 'habit_pauses', 'habit_target_changes', 'habit_checkins', 'habit_statuses']
+
+// Child rows of the given habits only - realtime filters take a single column, so they match on habit_id
+export function getHabitChildSubscriptions(habitIds: string[]): TableSubscription[] {
+  if (habitIds.length === 0) return []
+  const filter = `habit_id=in.(${habitIds.join(',')})`
+  return HABIT_CHILD_TABLES.map((table) => ({ table, filter }))
+}
+
+// Partnership changes plus partners' habits and their entries, pauses, target history, check-ins and statuses
+export function subscribeToPartnerChanges(
+  supabase: SupabaseClient,
+  channelName: string,
+  userId: string,
+  partnerIds: string[],
+  habitIds: string[],
+  onChange: (change: RowChange) => void
+): () => void {
+  const subscriptions: TableSubscription[] = [
+    { table: 'partnerships', filter: `user_id=eq.${userId}` },
+    { table: 'partnerships', filter: `partner_id=eq.${userId}` },
+  ]
+  if (partnerIds.length > 0) {
+    subscriptions.push(
+      { table: 'habits', filter: `user_id=in.(${partnerIds.join(',')})` },
+      ...getHabitChildSubscriptions(habitIds)
+    )
+  }
+  return subscribeToChanges(supabase, channelName, subscriptions, onChange)
+}
+
+// Merge a habit_entries change into the habits it belongs to (one entry per habit and date)
+// Unrelated habits keep their identity so memoized cards don't re-render
+export function applyEntryChange(habits: HabitWithEntries[], change: RowChange): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<HabitEntry>
+    if (!habits.some((h) => h.entries.some((e) => e.id === old.id))) return habits
+    return habits.map((h) =>
+      h.entries.some((e) => e.id === old.id)
+        ? { ...h, entries: h.entries.filter((e) => e.id !== old.id) }
+        : h
+    )
+  }
+
+  const entry = change.new as unknown as HabitEntry
+  if (!habits.some((h) => h.id === entry.habit_id)) return habits
+  return habits.map((h) =>
+    h.id === entry.habit_id
+      ? { ...h, entries: [...h.entries.filter((e) => e.date !== entry.date), entry] }
+      : h
+  )
+}
+
+// Merge a habit_pauses change into the habit it belongs to (one pause per habit and date range)
+export function applyPauseChange(habits: HabitWithEntries[], change: RowChange): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<HabitPause>
+    if (!habits.some((h) => h.pauses?.some((p) => p.id === old.id))) return habits
+    return habits.map((h) =>
+      h.pauses?.some((p) => p.id === old.id)
+        ? { ...h, pauses: h.pauses.filter((p) => p.id !== old.id) }
+        : h
+    )
+  }
+
+  const pause = change.new as unknown as HabitPause
+  if (!habits.some((h) => h.id === pause.habit_id)) return habits
+  return habits.map((h) =>
+    h.id === pause.habit_id
+      ? {
+          ...h,
+          pauses: [
+            ...(h.pauses ?? []).filter((p) =>
+              p.id !== pause.id && !(p.start_date === pause.start_date && p.end_date === pause.end_date)
+            ),
+            pause,
+          ],
+        }
+      : h
+  )
+}
+
+// Merge a habit_target_changes change into the habit it belongs to (one change per habit and week)
+export function applyTargetChange(habits: HabitWithEntries[], change: RowChange): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<HabitTargetChange>
+    if (!habits.some((h) => h.target_changes?.some((c) => c.id === old.id))) return habits
+    return habits.map((h) =>
+      h.target_changes?.some((c) => c.id === old.id)
+        ? { ...h, target_changes: h.target_changes.filter((c) => c.id !== old.id) }
+        : h
+    )
+  }
+
+  const targetChange = change.new as unknown as HabitTargetChange
+  if (!habits.some((h) => h.id === targetChange.habit_id)) return habits
+  return habits.map((h) =>
+    h.id === targetChange.habit_id
+      ? {
+          ...h,
+          target_changes: [
+            ...(h.target_changes ?? []).filter((c) => c.effective_date !== targetChange.effective_date),
+            targetChange,
+          ],
+        }
+      : h
+  )
+}
+
+// Merge a habit_checkins change into the habit it belongs to (the trigger-maintained entry arrives separately)
+export function applyCheckinChange(habits: HabitWithEntries[], change: RowChange): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<HabitCheckin>
+    if (!habits.some((h) => h.checkins?.some((c) => c.id === old.id))) return habits
+    return habits.map((h) =>
+      h.checkins?.some((c) => c.id === old.id)
+        ? { ...h, checkins: h.checkins.filter((c) => c.id !== old.id) }
+        : h
+    )
+  }
+
+  const checkin = change.new as unknown as HabitCheckin
+  if (!habits.some((h) => h.id === checkin.habit_id)) return habits
+  return habits.map((h) =>
+    h.id === checkin.habit_id
+      ? { ...h, checkins: [...(h.checkins ?? []).filter((c) => c.id !== checkin.id), checkin] }
+      : h
+  )
+}
+
+// Merge a habit_statuses change into the habit it belongs to
+export function applyStatusChange(habits: HabitWithEntries[], change: RowChange): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<HabitStatus>
+    if (!habits.some((h) => h.statuses?.some((s) => s.id === old.id))) return habits
+    return habits.map((h) =>
+      h.statuses?.some((s) => s.id === old.id)
+        ? { ...h, statuses: h.statuses.filter((s) => s.id !== old.id) }
+        : h
+    )
+  }
+
+  const status = change.new as unknown as HabitStatus
+  if (!habits.some((h) => h.id === status.habit_id)) return habits
+  return habits.map((h) =>
+    h.id === status.habit_id
+      ? { ...h, statuses: [...(h.statuses ?? []).filter((s) => s.id !== status.id), status] }
+      : h
+  )
+}
+
+// Merge a habits change, keeping the entries already loaded
+export function applyHabitChange(
+  habits: HabitWithEntries[],
+  change: RowChange,
+  { includeArchived = true }: { includeArchived?: boolean } = {}
+): HabitWithEntries[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<Habit>
+    if (!habits.some((h) => h.id === old.id)) return habits
+    return habits.filter((h) => h.id !== old.id)
+  }
+
+  const habit = change.new as unknown as Habit
+  if (!includeArchived && habit.archived) {
+    return habits.some((h) => h.id === habit.id) ? habits.filter((h) => h.id !== habit.id) : habits
+  }
+  if (habits.some((h) => h.id === habit.id)) {
+    return habits.map((h) => (h.id === habit.id ? { ...h, ...habit } : h))
+  }
+  return [...habits, { ...habit, entries: [], pauses: [], target_changes: [], checkins: [], statuses: [] }]
+}
+
+// Merge a change into a flat list of rows keyed by id (e.g. goals)
+export function applyRowChange<T extends { id: string }>(rows: T[], change: RowChange): T[] {
+  if (change.eventType === 'DELETE') {
+    const oldId = (change.old as Partial<T>).id
+    return rows.some((r) => r.id === oldId) ? rows.filter((r) => r.id !== oldId) : rows
+  }
+
+  const row = change.new as unknown as T
+  if (rows.some((r) => r.id === row.id)) {
+    return rows.map((r) => (r.id === row.id ? { ...r, ...row } : r))
+  }
+  return [...rows, row]
+}
+
+// Merge a goal_key_results change into the goal it belongs to, keeping the update history already loaded
+export function applyKeyResultChange(goals: Goal[], change: RowChange): Goal[] {
+  if (change.eventType === 'DELETE') {
+    const old = change.old as Partial<KeyResult>
+    if (!goals.some((g) => g.key_results?.some((kr) => kr.id === old.id))) return goals
+    return goals.map((g) =>
+      g.key_results?.some((kr) => kr.id === old.id)
+        ? { ...g, key_results: g.key_results.filter((kr) => kr.id !== old.id) }
+        : g
+    )
+  }
+
+  const keyResult = change.new as unknown as KeyResult
+  if (!goals.some((g) => g.id === keyResult.goal_id)) return goals
+  return goals.map((g) =>
+    g.id === keyResult.goal_id
+      ? { ...g, key_results: applyRowChange(g.key_results ?? [], change) }
+      : g
+  )
+}
+
+// Merge a key_result_updates change into the key result it belongs to
+// (the trigger-maintained current value arrives separately)
+export function applyKeyResultUpdateChange(goals: Goal[], change: RowChange): Goal[] {
+  const row = (change.eventType === 'DELETE' ? change.old : change.new) as Partial<KeyResultUpdate>
+  if (!goals.some((g) => g.key_results?.some((kr) => kr.id === row.key_result_id))) return goals
+  return goals.map((g) =>
+    g.key_results?.some((kr) => kr.id === row.key_result_id)
+      ? {
+          ...g,
+          key_results: g.key_results.map((kr) =>
+            kr.id === row.key_result_id ? { ...kr, updates: applyRowChange(kr.updates ?? [], change) } : kr
+          ),
+        }
+      : g
+  )
+}
+
+// Merge a habits change, or a change to one of a habit's entries, pauses, target history, check-ins or statuses,
+// into each partner's habit list
+export function applyPartnerChange<P extends { profile: Profile; habits: HabitWithEntries[] }>(
+  partners: P[],
+  change: RowChange,
+  options: { includeArchived?: boolean } = {}
+): P[] {
+  return partners.map((partner) => {
+    let habits = partner.habits
+    if (change.table === 'habit_entries') {
+      habits = applyEntryChange(partner.habits, change)
+    } else if (change.table === 'habit_pauses') {
+      habits = applyPauseChange(partner.habits, change)
+    } else if (change.table === 'habit_target_changes') {
+      habits = applyTargetChange(partner.habits, change)
+    } else if (change.table === 'habit_statuses') {
+      habits = applyStatusChange(partner.habits, change)
+    } else if (change.table === 'habit_checkins') {
+      habits = applyCheckinChange(partner.habits, change)
+    } else if (change.table === 'habits') {
+      const ownerId = (change.new as Partial<Habit>).user_id
+      const isOwner = ownerId === partner.profile.id ||
+        partner.habits.some((h) => h.id === (change.old as Partial<Habit>).id)
+      if (isOwner) habits = applyHabitChange(partner.habits, change, options)
+    }
+    return habits === partner.habits ? partner : { ...partner, habits }
+  })
+}
@@ -31,6 +31,20 @@ const createChainableMock = (finalValue: any = { data: [], error: null }) => {
 // Singleton instance for browser-side client
 let browserClient: ReturnType<typeof createBrowserClient> | null = null
 
+// Realtime channel mock - subscriptions never fire
+interface ChannelMock {
+  on: () => ChannelMock
+  subscribe: () => ChannelMock
+}
+
+const createChannelMock = () => {
+  const channel: ChannelMock = {
+    on: () => channel,
+    subscribe: () => channel,
+  }
+  return channel
+}
+
 // Mock client for when env vars are missing
 const mockClient = {
   auth: {
@@ -43,6 +57,8 @@ const mockClient = {
   },
   from: () => createChainableMock(),
   rpc: async () => ({ data: null, error: null }),
+  channel: () => createChannelMock(),
+  removeChannel: async () => 'ok',
 } as any
 
 export function createClient() {
@@ -0,0 +1,66 @@
+import { Goal, Habit, HabitEntry, HabitPause, HabitWithEntries, KeyResult, Profile } from '@/types/database'
+
+// Builders for the rows tests work with - each takes overrides for the fields a test cares about
+
+export function makeHabit(id: string, overrides: Partial<HabitWithEntries> = {}): HabitWithEntries {
+  return {
+    id,
+    user_id: 'user-1',
+    name: id,
+    description: null,
+    color: '#22c55e',
+    kind: 'build',
+    frequency_type: 'weekly',
+    target_per_week: 7,
+    target_per_month: null,
+    interval_days: null,
+    schedule_days: null,
+    created_at: '2026-01-01T00:00:00Z',
+    archived: false,
+    archived_at: null,
+    goal_metric: null,
+    target_value: null,
+    unit: null,
+    is_counter: false,
+    start_date: null,
+    end_date: null,
+    position: 0,
+    group_name: null,
+    entries: [],
+    pauses: [],
+    ...overrides,
+  }
+}
+
+// A habits table row, without the entries and pauses the client joins on
+export function makeHabitRow(id: string, overrides: Partial<Habit> = {}): Habit {
+  const habit: Partial<HabitWithEntries> = makeHabit(id, overrides)
+  delete habit.entries
+  delete habit.pauses
+  return habit as Habit
+}
+
+export function makeEntry(id: string, habitId: string, date: string, overrides: Partial<HabitEntry> = {}): HabitEntry {
+  return { id, habit_id: habitId, date, status: 'done', status_id: null, value: null, note: null, created_at: '', ...overrides }
+}
+
+// Done entries for a habit on each of the given days, ids taken from the dates
+export function makeEntries(habitId: string, dates: string[], overrides: Partial<HabitEntry> = {}): HabitEntry[] {
+  return dates.map((date) => makeEntry(`${habitId}-${date}`, habitId, date, overrides))
+}
+
+export function makePause(id: string, habitId: string, startDate: string, endDate: string): HabitPause {
+  return { id, habit_id: habitId, start_date: startDate, end_date: endDate, reason: null, created_at: '' }
+}
+
+export function makeProfile(id: string): Profile {
+  return { id, email: `${id}@example.com`, display_name: null, avatar_url: null, timezone: null, day_end_hour: 0, goal_horizons: ['weekly'], created_at: '' }
+}
+
+export function makeGoal(id: string, overrides: Partial<Goal> = {}): Goal {
+  return { id, user_id: 'user-1', title: id, type: 'weekly', completed: false, created_at: '2026-01-01T00:00:00Z', ...overrides }
+}
+
+export function makeKeyResult(id: string, goalId: string, overrides: Partial<KeyResult> = {}): KeyResult {
+  return { id, goal_id: goalId, title: id, start_value: 0, target_value: 10, current_value: 0, unit: null, position: 0, created_at: '', ...overrides }
+}
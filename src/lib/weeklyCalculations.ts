@@ -1,5 +1,7 @@
-import { HabitWithEntries, HabitEntry, POINTS_PER_DONE, MAX_POINTS_PER_HABIT_PER_WEEK } from '@/types/database'
-import { format, eachDayOfInterval, startOfWeek, endOfWeek, isSameDay, isAfter } from 'date-fns'
+import { Habit, HabitWithEntries, HabitEntry, HabitPause, HabitStatus, HabitTargetChange, POINTS_PER_DONE } from '@/types/database'
+import { scoreHabit, getScorePercentage } from '@/lib/habitScoring'
+import { getCustomStatus, getStatusCompletion } from '@/lib/customStatuses'
+import { format, eachDayOfInterval, startOfWeek, endOfWeek, getDay, parseISO } from 'date-fns'
 
 // Day column data for the grid
 export interface DayColumnData {
@@ -15,7 +17,11 @@ export interface WeeklyHabitData {
   habit: HabitWithEntries
   dailyEntries: Map<string, HabitEntry | null>
   weeklyPoints: number
+  weeklyMaxPoints: number
   weeklyDoneCount: number
+  weeklyTarget: number
+  weeklyPercentage: number
+  scheduledDays: number
 }
 
 // Weekly data for a user
@@ -24,29 +30,184 @@ export interface UserWeeklyData {
   displayName: string
   email: string
   habits: WeeklyHabitData[]
+  weekDays: DayColumnData[] // Relative to the user's own today
   totalWeeklyPoints: number
   totalMaxPoints: number
   weeklyPercentage: number
 }
 
-// Generate week day columns
-export function getWeekDays(weekStart: Date): DayColumnData[] {
+// Generate week day columns relative to a user's today (yyyy-MM-dd)
+export function getWeekDays(weekStart: Date, todayKey: string = format(new Date(), 'yyyy-MM-dd')): DayColumnData[] {
   const weekEnd = endOfWeek(weekStart, { weekStartsOn: 1 })
-  const today = new Date()
 
-  return eachDayOfInterval({ start: weekStart, end: weekEnd }).map(date => ({
-    date,
-    dateStr: format(date, 'yyyy-MM-dd'),
-    dayLabel: format(date, 'EEE'),
-    isToday: isSameDay(date, today),
-    isFuture: isAfter(date, today)
-  }))
+  return eachDayOfInterval({ start: weekStart, end: weekEnd }).map(date => {
+    const dateStr = format(date, 'yyyy-MM-dd')
+    return {
+      date,
+      dateStr,
+      dayLabel: format(date, 'EEE'),
+      isToday: dateStr === todayKey,
+      isFuture: dateStr > todayKey
+    }
+  })
+}
+
+// Whether a habit is expected on a date - habits without a schedule apply every day
+export function isScheduledDay(habit: Pick<Habit, 'schedule_days'>, date: Date | string): boolean {
+  const days = habit.schedule_days
+  if (!days || days.length === 0) return true
+  const day = typeof date === 'string' ? parseISO(date) : date
+  return days.includes(getDay(day))
+}
+
+// Monthly and interval habits aren't expected on any particular day, so an empty day isn't a miss
+export function hasFlexibleFrequency(habit: Pick<Habit, 'frequency_type'>): boolean {
+  return habit.frequency_type === 'monthly' || habit.frequency_type === 'interval'
+}
+
+// First day a habit can be tracked (yyyy-MM-dd) - its start date, or the day it was created
+// New habits always store a start date in their owner's timezone, since created_at here would be
+// read in the browser's - the fallback only covers habits from before that
+export function getHabitStartDate(habit: Pick<Habit, 'created_at' | 'start_date'>): string {
+  return habit.start_date ?? format(parseISO(habit.created_at), 'yyyy-MM-dd')
+}
+
+// Whether a habit was active on a date - between its start and end dates, and for archived
+// habits only before their archive date (habits archived before it was recorded stay active)
+export function isHabitActiveOn(
+  habit: Pick<Habit, 'archived' | 'archived_at' | 'created_at' | 'start_date' | 'end_date'>,
+  date: Date | string
+): boolean {
+  const dateStr = typeof date === 'string' ? date : format(date, 'yyyy-MM-dd')
+  if (dateStr < getHabitStartDate(habit)) return false
+  if (habit.end_date && dateStr > habit.end_date) return false
+  if (!habit.archived) return true
+  if (!habit.archived_at) return true
+  return dateStr < format(parseISO(habit.archived_at), 'yyyy-MM-dd')
+}
+
+// Whether a habit was paused on a date (e.g. during a vacation)
+export function isPausedOn(habit: { pauses?: HabitPause[] }, date: Date | string): boolean {
+  if (!habit.pauses || habit.pauses.length === 0) return false
+  const dateStr = typeof date === 'string' ? date : format(date, 'yyyy-MM-dd')
+  return habit.pauses.some(p => dateStr >= p.start_date && dateStr <= p.end_date)
+}
+
+// Whether a day counts toward a habit's statistics
+export function isTrackedDay(
+  habit: Pick<Habit, 'schedule_days' | 'archived' | 'archived_at' | 'created_at' | 'start_date' | 'end_date'> & { pauses?: HabitPause[] },
+  date: Date | string
+): boolean {
+  return isHabitActiveOn(habit, date) && isScheduledDay(habit, date) && !isPausedOn(habit, date)
+}
+
+// Weekly target in force on a date - dates before the first recorded change use the oldest target
+export function getTargetPerWeek(
+  habit: Pick<Habit, 'target_per_week'> & { target_changes?: HabitTargetChange[] },
+  date: Date | string
+): number {
+  const changes = habit.target_changes
+  if (!changes || changes.length === 0) return habit.target_per_week ?? 7
+  const dateStr = typeof date === 'string' ? date : format(date, 'yyyy-MM-dd')
+  const sorted = [...changes].sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+  return (sorted.filter(c => c.effective_date <= dateStr).pop() ?? sorted[0]).target_per_week
+}
+
+// Target history to save when a habit's weekly target is edited on todayKey - the new target applies
+// from the start of the current week, and the first change also records the target it replaces.
+// Habits created this week have no past weeks to preserve.
+export function getTargetChangeRows(
+  habit: Pick<Habit, 'id' | 'target_per_week' | 'created_at' | 'start_date'> & { target_changes?: HabitTargetChange[] },
+  targetPerWeek: number,
+  todayKey: string
+): Pick<HabitTargetChange, 'habit_id' | 'target_per_week' | 'effective_date'>[] {
+  if (getTargetPerWeek(habit, todayKey) === targetPerWeek) return []
+  const weekStartStr = format(startOfWeek(parseISO(todayKey), { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  const startDate = getHabitStartDate(habit)
+  if (startDate >= weekStartStr) return []
+
+  const rows = [{ habit_id: habit.id, target_per_week: targetPerWeek, effective_date: weekStartStr }]
+  if (!habit.target_changes || habit.target_changes.length === 0) {
+    rows.unshift({ habit_id: habit.id, target_per_week: habit.target_per_week ?? 7, effective_date: startDate })
+  }
+  return rows
 }
 
-// Calculate points for a single entry
-export function getEntryPoints(entry: HabitEntry | null | undefined): number {
-  if (!entry) return 0
-  return entry.status === 'done' ? POINTS_PER_DONE : 0
+// Rest days allowed in the week of a date - scheduled habits rest on their unscheduled days instead,
+// and monthly and interval habits don't need them
+export function getAllowedRestDays(
+  habit: Pick<Habit, 'frequency_type' | 'schedule_days' | 'target_per_week'> & { target_changes?: HabitTargetChange[] },
+  date: Date | string
+): number {
+  if (hasFlexibleFrequency(habit)) return 0
+  if (habit.schedule_days && habit.schedule_days.length > 0) return 0
+  return 7 - getTargetPerWeek(habit, date)
+}
+
+// Whether another rest day fits in the Monday-to-Sunday week of a date
+export function canSkipOnDate(habit: HabitWithEntries, dateStr: string): boolean {
+  const allowedRestDays = getAllowedRestDays(habit, dateStr)
+  if (allowedRestDays <= 0) return false
+
+  const date = parseISO(dateStr)
+  const weekStartStr = format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd')
+  const weekEndStr = format(endOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd')
+
+  // Count existing rest days in this week (excluding the day itself) - custom statuses don't use them up
+  const skippedInWeek = habit.entries.filter(e =>
+    e.status === 'skipped' &&
+    !e.status_id &&
+    e.date >= weekStartStr &&
+    e.date <= weekEndStr &&
+    e.date !== dateStr
+  ).length
+
+  return skippedInWeek < allowedRestDays
+}
+
+// Fraction of the daily target reached by an entry (0 to 1)
+// Habits without a target_value count any "done" entry as fully complete, and custom statuses
+// are worth their points
+export function getEntryCompletion(
+  entry: HabitEntry | null | undefined,
+  habit?: Pick<Habit, 'target_value'> & { statuses?: HabitStatus[] }
+): number {
+  const customStatus = habit && getCustomStatus(habit, entry)
+  if (customStatus) return getStatusCompletion(customStatus)
+  if (!entry || entry.status !== 'done') return 0
+  const target = habit?.target_value
+  if (!target || entry.value === null || entry.value === undefined) return 1
+  return Math.min(entry.value / target, 1)
+}
+
+// Completion for a habit on an elapsed day (0 to 1)
+// Break habits succeed on every day without a relapse (stored as 'missed') since they started
+export function getDayCompletion(
+  habit: Pick<Habit, 'kind' | 'target_value' | 'created_at' | 'start_date'> & { statuses?: HabitStatus[] },
+  entry: HabitEntry | null | undefined,
+  dateStr: string
+): number {
+  if (habit.kind === 'break') {
+    if (dateStr < getHabitStartDate(habit)) return 0
+    const customStatus = getCustomStatus(habit, entry)
+    if (customStatus) return getStatusCompletion(customStatus)
+    return entry?.status === 'missed' ? 0 : 1
+  }
+  return getEntryCompletion(entry, habit)
+}
+
+// Calculate points for a habit on an elapsed day (partial progress earns partial points)
+export function getEntryPoints(
+  entry: HabitEntry | null | undefined,
+  habit: Pick<Habit, 'kind' | 'target_value' | 'created_at' | 'start_date'> & { statuses?: HabitStatus[] },
+  dateStr: string
+): number {
+  return getDayCompletion(habit, entry, dateStr) * POINTS_PER_DONE
+}
+
+// Round fractional completion counts for display (e.g. 4.5 done days)
+export function roundCompletion(value: number): number {
+  return Math.round(value * 10) / 10
 }
 
 // Calculate weekly data for a single habit
@@ -55,24 +216,28 @@ export function calculateWeeklyHabitData(
   weekDays: DayColumnData[]
 ): WeeklyHabitData {
   const dailyEntries = new Map<string, HabitEntry | null>()
-  let weeklyPoints = 0
-  let weeklyDoneCount = 0
+  let scheduledDays = 0
 
   weekDays.forEach(day => {
     const entry = habit.entries.find(e => e.date === day.dateStr) || null
     dailyEntries.set(day.dateStr, entry)
-
-    if (entry?.status === 'done') {
-      weeklyPoints += POINTS_PER_DONE
-      weeklyDoneCount++
-    }
+    if (isScheduledDay(habit, day.date)) scheduledDays++
   })
 
+  // Future days count toward the weekly target but can't be completed yet
+  // (break habits would otherwise count them as clean)
+  const lastElapsedDay = weekDays.filter(day => !day.isFuture).pop()?.dateStr ?? ''
+  const score = scoreHabit(habit, weekDays.map(day => day.date), lastElapsedDay)
+
   return {
     habit,
     dailyEntries,
-    weeklyPoints,
-    weeklyDoneCount
+    weeklyPoints: roundCompletion(score.completed * POINTS_PER_DONE),
+    weeklyMaxPoints: roundCompletion(score.expected * POINTS_PER_DONE),
+    weeklyDoneCount: score.completed,
+    weeklyTarget: score.expected,
+    weeklyPercentage: getScorePercentage(score),
+    scheduledDays
   }
 }
 
@@ -86,49 +251,22 @@ export function calculateUserWeeklyData(
 ): UserWeeklyData {
   const weeklyHabits = habits.map(h => calculateWeeklyHabitData(h, weekDays))
 
-  const totalWeeklyPoints = weeklyHabits.reduce((sum, h) => sum + h.weeklyPoints, 0)
-  const totalMaxPoints = habits.length * MAX_POINTS_PER_HABIT_PER_WEEK
-  const weeklyPercentage = totalMaxPoints > 0
-    ? Math.round((totalWeeklyPoints / totalMaxPoints) * 100)
-    : 0
+  const totalWeeklyPoints = roundCompletion(weeklyHabits.reduce((sum, h) => sum + h.weeklyPoints, 0))
+  const totalMaxPoints = roundCompletion(weeklyHabits.reduce((sum, h) => sum + h.weeklyMaxPoints, 0))
+  const weeklyPercentage = getScorePercentage({ completed: totalWeeklyPoints, expected: totalMaxPoints })
 
   return {
     userId,
     displayName,
     email,
     habits: weeklyHabits,
+    weekDays,
     totalWeeklyPoints,
     totalMaxPoints,
     weeklyPercentage
   }
 }
 
-// Get status display info
-export function getStatusDisplay(entry: HabitEntry | null, isFuture: boolean): {
-  icon: string
-  className: string
-  label: string
-} {
-  if (isFuture) {
-    return { icon: '', className: 'bg-[var(--card-border)]/30', label: 'future' }
-  }
-
-  if (!entry) {
-    return { icon: '', className: 'bg-[var(--card-bg)] border border-[var(--card-border)]', label: 'not tracked' }
-  }
-
-  switch (entry.status) {
-    case 'done':
-      return { icon: '✓', className: 'bg-emerald-500 text-white', label: 'done' }
-    case 'skipped':
-      return { icon: '–', className: 'bg-gray-400 text-white', label: 'rest day' }
-    case 'missed':
-      return { icon: '✕', className: 'bg-red-500 text-white', label: 'missed' }
-    default:
-      return { icon: '', className: 'bg-[var(--card-bg)]', label: 'unknown' }
-  }
-}
-
 // Format points display
 export function formatPoints(points: number, maxPoints: number): string {
   return `${points}/${maxPoints}`
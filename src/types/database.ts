@@ -3,34 +3,107 @@ export interface Profile {
   email: string
   display_name: string | null
   avatar_url: string | null
+  timezone: string | null // IANA name; null uses the browser's timezone
+  day_end_hour: number // Check-ins before this hour count for the previous day
+  goal_horizons: GoalType[] // Goal columns shown, e.g. only week and quarter
   created_at: string
 }
 
+// 'build' habits succeed when done; 'break' habits succeed on every day without a relapse
+export type HabitKind = 'build' | 'break'
+
+// How often a habit is due: N days a week, N times a calendar month, or every N days
+export type HabitFrequency = 'weekly' | 'monthly' | 'interval'
+
 export interface Habit {
   id: string
   user_id: string
   name: string
   description: string | null
   color: string
+  kind: HabitKind
+  frequency_type: HabitFrequency
   target_per_week: number
+  target_per_month: number | null // Times per calendar month for monthly habits
+  interval_days: number | null // Days between repeats for interval habits
+  schedule_days: number[] | null // Days of week (0 = Sunday); null means any N days per week
   created_at: string
   archived: boolean
+  archived_at: string | null
   goal_metric: string | null
+  target_value: number | null
+  unit: string | null
+  is_counter: boolean // Each tap adds a check-in; target_value is the daily count
+  start_date: string | null // yyyy-MM-dd, first tracked day; null starts on the day it was created
+  end_date: string | null // yyyy-MM-dd, last tracked day; null runs indefinitely
+  position: number // Manual sort order, lowest first
+  group_name: string | null // User-defined category, e.g. "Health"
 }
 
 // Points calculation constants
 export const POINTS_PER_DONE = 3
-export const MAX_POINTS_PER_HABIT_PER_WEEK = 21 // 7 days * 3 points
 
 export interface HabitEntry {
   id: string
   habit_id: string
   date: string
-  status: 'done' | 'missed' | 'skipped'
+  status: 'done' | 'missed' | 'skipped' | null // null for a day that only keeps a note, e.g. after its last check-in was removed
+  status_id: string | null // Custom status; status then holds the closest built-in one
+  value: number | null
   note: string | null
   created_at: string
 }
 
+// How a custom status affects streaks: counts as a success, is stepped over like a rest day, or breaks it
+export type StatusStreakBehavior = 'continue' | 'neutral' | 'break'
+
+// A user-defined entry status for one habit, e.g. "sick" or "did the minimum"
+export interface HabitStatus {
+  id: string
+  habit_id: string
+  label: string
+  color: string
+  icon: string // Emoji or short symbol shown in the day cell
+  points: number // 0 to POINTS_PER_DONE
+  streak_behavior: StatusStreakBehavior
+  position: number
+  created_at: string
+}
+
+// A date range where a habit is frozen - paused days don't count toward any statistic
+export interface HabitPause {
+  id: string
+  habit_id: string
+  start_date: string // yyyy-MM-dd, inclusive
+  end_date: string // yyyy-MM-dd, inclusive
+  reason: string | null
+  created_at: string
+}
+
+// A habit's weekly target from effective_date on - earlier weeks keep the target they had
+export interface HabitTargetChange {
+  id: string
+  habit_id: string
+  target_per_week: number
+  effective_date: string // yyyy-MM-dd, the Monday of the week the change applies from
+  created_at: string
+}
+
+// A single timestamped tap on a counter habit - the day's entry holds the running count
+export interface HabitCheckin {
+  id: string
+  habit_id: string
+  date: string
+  checked_at: string
+  created_at: string
+}
+
+// Editable fields of an entry for a single day
+export type HabitEntryData = Pick<HabitEntry, 'status' | 'status_id' | 'value' | 'note'>
+
+// Editable fields of a custom status
+export type HabitStatusData = Pick<HabitStatus, 'label' | 'color' | 'icon' | 'points' | 'streak_behavior'>
+
 export interface Partnership {
   id: string
   user_id: string
@@ -41,6 +114,18 @@ export interface Partnership {
 
 export type GoalType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'yearly'
 
+// Shortest horizon first, the order goal columns are shown in
+export const GOAL_TYPES: GoalType[] = ['daily', 'weekly', 'monthly', 'quarterly', 'yearly']
+
+// What the end-of-week review did with an unfinished weekly goal
+export type GoalReviewOutcome = 'carried' | 'dropped' | 'converted'
+
+// Horizons shown before a user picks their own
+export const DEFAULT_GOAL_HORIZONS: GoalType[] = ['weekly', 'quarterly', 'yearly']
+
+// How a goal linked to habits is measured: total completions, or percent of the habits' target
+export type GoalMetric = 'count' | 'percentage'
+
 export interface Goal {
   id: string
   user_id: string
@@ -51,14 +136,52 @@ export interface Goal {
   quarter?: Quarter | null
   year?: number | null
   week_start?: string | null
+  month_start?: string | null // First day of the month, for monthly goals
+  date?: string | null // The day, for daily goals
+  habit_ids?: string[] | null // Linked habits; progress and completion then come from their entries
+  metric?: GoalMetric | null
+  threshold?: number | null // Completions for 'count', percent for 'percentage'
+  key_results?: KeyResult[] // Measurable outcomes; progress then rolls up from them
+  carried_from?: string | null // The unfinished weekly goal this one was carried over or converted from
+  review_outcome?: GoalReviewOutcome | null // Set once an unfinished weekly goal has been reviewed
+  parent_id?: string | null // A longer-term goal this one breaks down, e.g. a weekly goal under a quarterly one
 }
 
+// A measurable outcome under a quarterly or yearly goal, e.g. "Grow newsletter from 200 to 500 subscribers"
+export interface KeyResult {
+  id: string
+  goal_id: string
+  title: string
+  start_value: number
+  target_value: number // May be below start_value for outcomes that should go down
+  current_value: number // The latest update, kept in sync by a database trigger
+  unit: string | null
+  position: number
+  created_at: string
+  updates?: KeyResultUpdate[] // History of current values, oldest first once sorted
+}
+
+// A logged current value of a key result
+export interface KeyResultUpdate {
+  id: string
+  key_result_id: string
+  value: number
+  created_at: string
+}
+
+// Editable fields of a key result
+export type KeyResultData = Pick<KeyResult, 'title' | 'start_value' | 'target_value' | 'unit'>
+
 export interface PartnerWithProfile extends Partnership {
   partner: Profile
 }
 
 export interface HabitWithEntries extends Habit {
   entries: HabitEntry[]
+  pauses?: HabitPause[] // Loaded alongside entries; missing means never paused
+  target_changes?: HabitTargetChange[] // Missing means target_per_week has always applied
+  checkins?: HabitCheckin[] // Taps on counter habits, loaded for the signed-in user and partners
+  statuses?: HabitStatus[] // Custom entry statuses, in display order
 }
 
 export type Quarter = 'Q1' | 'Q2' | 'Q3' | 'Q4'
@@ -78,8 +201,9 @@ export function getQuarterDates(year: number, quarter: Quarter): { start: Date;
   return { start, end }
 }
 
-export function getCurrentQuarter(): Quarter {
-  const month = new Date().getMonth()
+// Quarter a day falls in - pass the user's today (getToday) rather than the browser clock
+export function getCurrentQuarter(today: Date): Quarter {
+  const month = today.getMonth()
   if (month < 3) return 'Q1'
   if (month < 6) return 'Q2'
   if (month < 9) return 'Q3'
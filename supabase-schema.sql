@@ -10,9 +10,21 @@ CREATE TABLE profiles (
   email TEXT NOT NULL,
   display_name TEXT,
   avatar_url TEXT,
+  timezone TEXT, -- IANA name, e.g. 'Europe/Oslo'; NULL uses the browser's timezone
+  day_end_hour SMALLINT DEFAULT 0 NOT NULL CHECK (day_end_hour BETWEEN 0 AND 12), -- check-ins before this hour count for the previous day
+  goal_horizons TEXT[] DEFAULT '{weekly,quarterly,yearly}' NOT NULL
+    CHECK (goal_horizons <@ ARRAY['daily', 'weekly', 'monthly', 'quarterly', 'yearly']), -- goal columns shown
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Migration for existing databases (per-user timezone and day boundary):
+-- ALTER TABLE profiles ADD COLUMN IF NOT EXISTS timezone TEXT;
+-- ALTER TABLE profiles ADD COLUMN IF NOT EXISTS day_end_hour SMALLINT DEFAULT 0 NOT NULL CHECK (day_end_hour BETWEEN 0 AND 12);
+
+-- Migration for existing databases (visible goal horizons):
+-- ALTER TABLE profiles ADD COLUMN IF NOT EXISTS goal_horizons TEXT[] DEFAULT '{weekly,quarterly,yearly}' NOT NULL
+--   CHECK (goal_horizons <@ ARRAY['daily', 'weekly', 'monthly', 'quarterly', 'yearly']);
+
 -- Habits table
 CREATE TABLE habits (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -20,20 +32,89 @@ CREATE TABLE habits (
   name TEXT NOT NULL,
   description TEXT,
   color TEXT DEFAULT '#22c55e',
+  kind TEXT CHECK (kind IN ('build', 'break')) DEFAULT 'build',
+  frequency_type TEXT CHECK (frequency_type IN ('weekly', 'monthly', 'interval')) DEFAULT 'weekly' NOT NULL,
   target_per_week INTEGER DEFAULT 7,
+  target_per_month INTEGER CHECK (target_per_month BETWEEN 1 AND 31), -- monthly habits
+  interval_days INTEGER CHECK (interval_days >= 2), -- interval habits, counted from the last time done
+  schedule_days SMALLINT[] CHECK (schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  target_value NUMERIC CHECK (target_value > 0),
+  unit TEXT,
+  position INTEGER DEFAULT 0 NOT NULL,
+  group_name TEXT,
+  start_date DATE, -- first tracked day, set on creation in the user's timezone; NULL (older habits) starts on the day it was created
+  end_date DATE, -- last tracked day; NULL runs indefinitely
+  is_counter BOOLEAN DEFAULT FALSE NOT NULL, -- target_value counts check-ins per day
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-  archived BOOLEAN DEFAULT FALSE
+  archived BOOLEAN DEFAULT FALSE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date)
 );
 
 -- Migration for existing databases:
 -- ALTER TABLE habits ADD COLUMN IF NOT EXISTS target_per_week INTEGER DEFAULT 7;
 
+-- Migration for existing databases (add measurable daily target):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS target_value NUMERIC CHECK (target_value > 0);
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS unit TEXT;
+
+-- Migration for existing databases (add fixed weekday schedule, 0 = Sunday):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS schedule_days SMALLINT[] CHECK (schedule_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]);
+
+-- Migration for existing databases (record when a habit was archived):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+-- Backfill already archived habits so their history ends the day after their last entry:
+-- UPDATE habits h SET archived_at = COALESCE(
+--   (SELECT (MAX(e.date) + 1)::TIMESTAMP WITH TIME ZONE FROM habit_entries e WHERE e.habit_id = h.id),
+--   h.created_at
+-- ) WHERE h.archived AND h.archived_at IS NULL;
+
+-- Migration for existing databases (add "break a bad habit" mode, relapses are stored as 'missed'):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS kind TEXT CHECK (kind IN ('build', 'break')) DEFAULT 'build';
+
+-- Migration for existing databases (manual ordering and user-defined groups):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS position INTEGER DEFAULT 0 NOT NULL;
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS group_name TEXT;
+
+-- Migration for existing databases (effective start and end dates):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS start_date DATE;
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS end_date DATE;
+-- ALTER TABLE habits ADD CHECK (end_date IS NULL OR start_date IS NULL OR end_date >= start_date);
+-- Backfill start dates from the creation day in each owner's timezone:
+-- UPDATE habits h SET start_date = (h.created_at AT TIME ZONE COALESCE(p.timezone, 'UTC'))::DATE
+--   FROM profiles p WHERE p.id = h.user_id AND h.start_date IS NULL;
+
+-- Migration for existing databases (counter habits with several check-ins per day):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS is_counter BOOLEAN DEFAULT FALSE NOT NULL;
+
+-- Migration for existing databases (N times per month and every-N-days frequencies):
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS frequency_type TEXT CHECK (frequency_type IN ('weekly', 'monthly', 'interval')) DEFAULT 'weekly' NOT NULL;
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS target_per_month INTEGER CHECK (target_per_month BETWEEN 1 AND 31);
+-- ALTER TABLE habits ADD COLUMN IF NOT EXISTS interval_days INTEGER CHECK (interval_days >= 2);
+
+-- Custom entry statuses per habit (e.g. "sick", "did the minimum"), each with its own colour, icon,
+-- points (0 to 3, a done day is 3) and effect on streaks
+CREATE TABLE habit_statuses (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  label TEXT NOT NULL,
+  color TEXT NOT NULL,
+  icon TEXT NOT NULL,
+  points NUMERIC DEFAULT 0 NOT NULL CHECK (points BETWEEN 0 AND 3),
+  streak_behavior TEXT CHECK (streak_behavior IN ('continue', 'neutral', 'break')) DEFAULT 'continue' NOT NULL,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(habit_id, label)
+);
+
 -- Habit entries table (daily tracking)
 CREATE TABLE habit_entries (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
   habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
   date DATE NOT NULL,
   status TEXT CHECK (status IN ('done', 'missed', 'skipped')) DEFAULT 'done',
+  status_id UUID REFERENCES habit_statuses(id) ON DELETE SET NULL, -- custom status; status holds the closest built-in one
+  value NUMERIC CHECK (value >= 0),
   note TEXT,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(habit_id, date)
@@ -42,6 +123,46 @@ CREATE TABLE habit_entries (
 -- Migration for existing databases (add note column):
 -- ALTER TABLE habit_entries ADD COLUMN IF NOT EXISTS note TEXT;
 
+-- Migration for existing databases (add measured value per entry):
+-- ALTER TABLE habit_entries ADD COLUMN IF NOT EXISTS value NUMERIC CHECK (value >= 0);
+
+-- Migration for existing databases (custom statuses, after creating habit_statuses above):
+-- ALTER TABLE habit_entries ADD COLUMN IF NOT EXISTS status_id UUID REFERENCES habit_statuses(id) ON DELETE SET NULL;
+
+-- Habit pauses table (vacation / sick days - paused days don't count toward any statistic)
+-- Pausing all habits stores one row per habit with the same range
+CREATE TABLE habit_pauses (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (end_date >= start_date),
+  UNIQUE(habit_id, start_date, end_date)
+);
+
+-- Habit target history (weekly target in force from effective_date on, so edits don't rewrite past weeks)
+-- The first change also records the original target from the habit's start date
+CREATE TABLE habit_target_changes (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  target_per_week INTEGER NOT NULL CHECK (target_per_week BETWEEN 1 AND 7),
+  effective_date DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(habit_id, effective_date)
+);
+
+-- Habit check-ins table (one row per tap on a counter habit)
+-- A trigger keeps the day's entry in sync: done with value = number of check-ins, removed at zero
+CREATE TABLE habit_checkins (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  habit_id UUID REFERENCES habits(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Partnerships table (for tracking with friends)
 CREATE TABLE partnerships (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -56,6 +177,10 @@ CREATE TABLE partnerships (
 CREATE INDEX idx_habits_user_id ON habits(user_id);
 CREATE INDEX idx_habit_entries_habit_id ON habit_entries(habit_id);
 CREATE INDEX idx_habit_entries_date ON habit_entries(date);
+CREATE INDEX idx_habit_pauses_habit_id ON habit_pauses(habit_id);
+CREATE INDEX idx_habit_target_changes_habit_id ON habit_target_changes(habit_id);
+CREATE INDEX idx_habit_checkins_habit_id_date ON habit_checkins(habit_id, date);
+CREATE INDEX idx_habit_statuses_habit_id ON habit_statuses(habit_id);
 CREATE INDEX idx_partnerships_user_id ON partnerships(user_id);
 CREATE INDEX idx_partnerships_partner_id ON partnerships(partner_id);
 
@@ -65,6 +190,10 @@ CREATE INDEX idx_partnerships_partner_id ON partnerships(partner_id);
 ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE habits ENABLE ROW LEVEL SECURITY;
 ALTER TABLE habit_entries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_pauses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_target_changes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_checkins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE habit_statuses ENABLE ROW LEVEL SECURITY;
 ALTER TABLE partnerships ENABLE ROW LEVEL SECURITY;
 
 -- Profiles policies
@@ -160,6 +289,156 @@ CREATE POLICY "Users can delete their own habit entries"
     habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
   );
 
+-- Habit pauses policies (partners can see pauses so their comparisons skip paused days too)
+CREATE POLICY "Users can view their own habit pauses"
+  ON habit_pauses FOR SELECT
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view partner habit pauses"
+  ON habit_pauses FOR SELECT
+  USING (
+    habit_id IN (
+      SELECT id FROM habits WHERE user_id IN (
+        SELECT partner_id FROM partnerships
+        WHERE user_id = auth.uid() AND status = 'accepted'
+        UNION
+        SELECT user_id FROM partnerships
+        WHERE partner_id = auth.uid() AND status = 'accepted'
+      )
+    )
+  );
+
+CREATE POLICY "Users can insert their own habit pauses"
+  ON habit_pauses FOR INSERT
+  WITH CHECK (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own habit pauses"
+  ON habit_pauses FOR UPDATE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own habit pauses"
+  ON habit_pauses FOR DELETE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+-- Habit target history policies (partners can see it so comparisons score past weeks the same way)
+CREATE POLICY "Users can view their own habit target changes"
+  ON habit_target_changes FOR SELECT
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view partner habit target changes"
+  ON habit_target_changes FOR SELECT
+  USING (
+    habit_id IN (
+      SELECT id FROM habits WHERE user_id IN (
+        SELECT partner_id FROM partnerships
+        WHERE user_id = auth.uid() AND status = 'accepted'
+        UNION
+        SELECT user_id FROM partnerships
+        WHERE partner_id = auth.uid() AND status = 'accepted'
+      )
+    )
+  );
+
+CREATE POLICY "Users can insert their own habit target changes"
+  ON habit_target_changes FOR INSERT
+  WITH CHECK (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own habit target changes"
+  ON habit_target_changes FOR UPDATE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own habit target changes"
+  ON habit_target_changes FOR DELETE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+-- Custom status policies (partners can see them to show and score entries that use them)
+CREATE POLICY "Users can view their own habit statuses"
+  ON habit_statuses FOR SELECT
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view partner habit statuses"
+  ON habit_statuses FOR SELECT
+  USING (
+    habit_id IN (
+      SELECT id FROM habits WHERE user_id IN (
+        SELECT partner_id FROM partnerships
+        WHERE user_id = auth.uid() AND status = 'accepted'
+        UNION
+        SELECT user_id FROM partnerships
+        WHERE partner_id = auth.uid() AND status = 'accepted'
+      )
+    )
+  );
+
+CREATE POLICY "Users can insert their own habit statuses"
+  ON habit_statuses FOR INSERT
+  WITH CHECK (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own habit statuses"
+  ON habit_statuses FOR UPDATE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own habit statuses"
+  ON habit_statuses FOR DELETE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+-- Habit check-in policies (partners can see check-ins so counter habits update live in their view)
+CREATE POLICY "Users can view their own habit check-ins"
+  ON habit_checkins FOR SELECT
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view partner habit check-ins"
+  ON habit_checkins FOR SELECT
+  USING (
+    habit_id IN (
+      SELECT id FROM habits WHERE user_id IN (
+        SELECT partner_id FROM partnerships
+        WHERE user_id = auth.uid() AND status = 'accepted'
+        UNION
+        SELECT user_id FROM partnerships
+        WHERE partner_id = auth.uid() AND status = 'accepted'
+      )
+    )
+  );
+
+CREATE POLICY "Users can insert their own habit check-ins"
+  ON habit_checkins FOR INSERT
+  WITH CHECK (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own habit check-ins"
+  ON habit_checkins FOR DELETE
+  USING (
+    habit_id IN (SELECT id FROM habits WHERE user_id = auth.uid())
+  );
+
 -- Partnerships policies
 CREATE POLICY "Users can view their partnerships"
   ON partnerships FOR SELECT
@@ -207,6 +486,37 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql SECURITY DEFINER;
 
+-- Function to mirror a day's check-in count into its habit entry
+CREATE OR REPLACE FUNCTION public.sync_checkin_entry()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed habit_checkins;
+  checkin_count INTEGER;
+BEGIN
+  changed := COALESCE(NEW, OLD);
+  SELECT COUNT(*) INTO checkin_count
+  FROM habit_checkins
+  WHERE habit_id = changed.habit_id AND date = changed.date;
+
+  IF checkin_count = 0 THEN
+    -- Keep a day that carries a note, just without a status
+    DELETE FROM habit_entries WHERE habit_id = changed.habit_id AND date = changed.date AND note IS NULL;
+    UPDATE habit_entries SET status = NULL, status_id = NULL, value = NULL
+    WHERE habit_id = changed.habit_id AND date = changed.date;
+  ELSE
+    INSERT INTO habit_entries (habit_id, date, status, value)
+    VALUES (changed.habit_id, changed.date, 'done', checkin_count)
+    ON CONFLICT (habit_id, date) DO UPDATE SET status = 'done', status_id = NULL, value = EXCLUDED.value;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to keep entries in sync as check-ins are added and removed
+CREATE OR REPLACE TRIGGER on_habit_checkin_changed
+  AFTER INSERT OR DELETE ON habit_checkins
+  FOR EACH ROW EXECUTE FUNCTION public.sync_checkin_entry();
+
 -- Goals table
 CREATE TABLE goals (
   id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -217,15 +527,45 @@ CREATE TABLE goals (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   quarter TEXT CHECK (quarter IN ('Q1', 'Q2', 'Q3', 'Q4')),
   year INTEGER,
-  week_start DATE
+  week_start DATE,
+  month_start DATE, -- first day of the month, for monthly goals
+  date DATE, -- the day, for daily goals
+  habit_ids UUID[], -- linked habits; progress is computed from their entries
+  metric TEXT CHECK (metric IN ('count', 'percentage')),
+  threshold NUMERIC CHECK (threshold > 0),
+  carried_from UUID REFERENCES goals(id) ON DELETE SET NULL, -- the unfinished goal this one continues
+  review_outcome TEXT CHECK (review_outcome IN ('carried', 'dropped', 'converted')), -- set by the end-of-week review
+  parent_id UUID REFERENCES goals(id) ON DELETE SET NULL -- the longer-term goal this one breaks down
 );
 
+-- Migration for existing databases (goals linked to habits):
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS habit_ids UUID[];
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS metric TEXT CHECK (metric IN ('count', 'percentage'));
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS threshold NUMERIC CHECK (threshold > 0);
+
+-- Migration for existing databases (daily and monthly goals):
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS month_start DATE;
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS date DATE;
+-- CREATE INDEX IF NOT EXISTS idx_goals_month_start ON goals(month_start);
+-- CREATE INDEX IF NOT EXISTS idx_goals_date ON goals(date);
+
+-- Migration for existing databases (weekly goal review):
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS carried_from UUID REFERENCES goals(id) ON DELETE SET NULL;
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS review_outcome TEXT CHECK (review_outcome IN ('carried', 'dropped', 'converted'));
+
+-- Migration for existing databases (goal hierarchy):
+-- ALTER TABLE goals ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES goals(id) ON DELETE SET NULL;
+-- CREATE INDEX IF NOT EXISTS idx_goals_parent_id ON goals(parent_id);
+
 -- Goals indexes
 CREATE INDEX idx_goals_user_id ON goals(user_id);
 CREATE INDEX idx_goals_type ON goals(type);
 CREATE INDEX idx_goals_year ON goals(year);
 CREATE INDEX idx_goals_quarter ON goals(quarter);
 CREATE INDEX idx_goals_week_start ON goals(week_start);
+CREATE INDEX idx_goals_month_start ON goals(month_start);
+CREATE INDEX idx_goals_date ON goals(date);
+CREATE INDEX idx_goals_parent_id ON goals(parent_id);
 
 -- Enable RLS on goals
 ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
@@ -246,3 +586,141 @@ CREATE POLICY "Users can update their own goals"
 CREATE POLICY "Users can delete their own goals"
   ON goals FOR DELETE
   USING (auth.uid() = user_id);
+
+-- Key results table (measurable outcomes under a quarterly or yearly goal, OKR-style)
+CREATE TABLE goal_key_results (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  goal_id UUID REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  title TEXT NOT NULL,
+  start_value NUMERIC DEFAULT 0 NOT NULL,
+  target_value NUMERIC NOT NULL,
+  current_value NUMERIC DEFAULT 0 NOT NULL, -- kept in sync with the latest update by a trigger
+  unit TEXT,
+  position INTEGER DEFAULT 0 NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (target_value <> start_value)
+);
+
+-- Key result updates table (history of current values over the quarter)
+CREATE TABLE key_result_updates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  key_result_id UUID REFERENCES goal_key_results(id) ON DELETE CASCADE NOT NULL,
+  value NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_goal_key_results_goal_id ON goal_key_results(goal_id);
+CREATE INDEX idx_key_result_updates_key_result_id ON key_result_updates(key_result_id);
+
+ALTER TABLE goal_key_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE key_result_updates ENABLE ROW LEVEL SECURITY;
+
+-- Key result policies
+CREATE POLICY "Users can view their own key results"
+  ON goal_key_results FOR SELECT
+  USING (
+    goal_id IN (SELECT id FROM goals WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can insert their own key results"
+  ON goal_key_results FOR INSERT
+  WITH CHECK (
+    goal_id IN (SELECT id FROM goals WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own key results"
+  ON goal_key_results FOR UPDATE
+  USING (
+    goal_id IN (SELECT id FROM goals WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own key results"
+  ON goal_key_results FOR DELETE
+  USING (
+    goal_id IN (SELECT id FROM goals WHERE user_id = auth.uid())
+  );
+
+-- Key result update policies
+CREATE POLICY "Users can view their own key result updates"
+  ON key_result_updates FOR SELECT
+  USING (
+    key_result_id IN (
+      SELECT kr.id FROM goal_key_results kr
+      JOIN goals g ON g.id = kr.goal_id
+      WHERE g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert their own key result updates"
+  ON key_result_updates FOR INSERT
+  WITH CHECK (
+    key_result_id IN (
+      SELECT kr.id FROM goal_key_results kr
+      JOIN goals g ON g.id = kr.goal_id
+      WHERE g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their own key result updates"
+  ON key_result_updates FOR UPDATE
+  USING (
+    key_result_id IN (
+      SELECT kr.id FROM goal_key_results kr
+      JOIN goals g ON g.id = kr.goal_id
+      WHERE g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete their own key result updates"
+  ON key_result_updates FOR DELETE
+  USING (
+    key_result_id IN (
+      SELECT kr.id FROM goal_key_results kr
+      JOIN goals g ON g.id = kr.goal_id
+      WHERE g.user_id = auth.uid()
+    )
+  );
+
+-- Function to set a key result's current value from its latest update (its start value once none are left)
+CREATE OR REPLACE FUNCTION public.sync_key_result_value()
+RETURNS TRIGGER AS $$
+DECLARE
+  changed key_result_updates;
+BEGIN
+  changed := COALESCE(NEW, OLD);
+  UPDATE goal_key_results kr
+  SET current_value = COALESCE(
+    (SELECT u.value FROM key_result_updates u
+     WHERE u.key_result_id = kr.id
+     ORDER BY u.created_at DESC, u.id DESC
+     LIMIT 1),
+    kr.start_value
+  )
+  WHERE kr.id = changed.key_result_id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to keep current values in sync as updates are logged, corrected and removed
+CREATE OR REPLACE TRIGGER on_key_result_update_changed
+  AFTER INSERT OR UPDATE OF value OR DELETE ON key_result_updates
+  FOR EACH ROW EXECUTE FUNCTION public.sync_key_result_value();
+
+-- Migration for existing databases (replaces the insert-only trigger; re-run the trigger above and the
+-- "Users can update their own key result updates" policy for corrections to updates):
+-- DROP TRIGGER IF EXISTS on_key_result_update_created ON key_result_updates;
+
+-- Realtime: broadcast row changes so open tabs, other devices and partners stay in sync
+-- REPLICA IDENTITY FULL sends the whole old row on UPDATE/DELETE so clients can match it
+ALTER TABLE habits REPLICA IDENTITY FULL;
+ALTER TABLE habit_entries REPLICA IDENTITY FULL;
+ALTER TABLE habit_pauses REPLICA IDENTITY FULL;
+ALTER TABLE habit_target_changes REPLICA IDENTITY FULL;
+ALTER TABLE habit_checkins REPLICA IDENTITY FULL;
+ALTER TABLE habit_statuses REPLICA IDENTITY FULL;
+ALTER TABLE goals REPLICA IDENTITY FULL;
+ALTER TABLE goal_key_results REPLICA IDENTITY FULL;
+ALTER TABLE key_result_updates REPLICA IDENTITY FULL;
+ALTER TABLE partnerships REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE habits, habit_entries, habit_pauses, habit_target_changes, habit_checkins, habit_statuses, goals, goal_key_results, key_result_updates, partnerships;